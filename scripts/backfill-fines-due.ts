@@ -0,0 +1,53 @@
+/**
+ * 应收罚金回填脚本：将 repayment_schedules.fines_due 补齐到不低于 fines
+ *
+ * fines 记录的是已收罚金（手动编辑还款计划、手动处理订单时写入），
+ * fines_due 为新增的应收罚金列，历史数据默认为 0。
+ * 还款分配与结清报价按 fines_due - fines 计算未收罚金，
+ * 回填后历史已收罚金计入应收，未收罚金不会出现负数。
+ * 本脚本可重复执行，已满足条件的期数不会被修改。
+ *
+ * 使用方法：
+ * npx ts-node scripts/backfill-fines-due.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function backfillFinesDue() {
+  try {
+    const schedules = await prisma.repaymentSchedule.findMany({
+      where: { fines: { gt: 0 } },
+      select: { id: true, loan_id: true, fines: true, fines_due: true },
+    });
+    const pending = schedules.filter(
+      (s) => Number(s.fines_due) < Number(s.fines ?? 0),
+    );
+    console.log(
+      `共 ${schedules.length} 期存在已收罚金，待回填 ${pending.length} 期`,
+    );
+
+    for (const schedule of pending) {
+      // 条件更新：期间被罚金任务累加过的期数不会被覆盖为更小的值
+      const { count } = await prisma.repaymentSchedule.updateMany({
+        where: { id: schedule.id, fines_due: { lt: schedule.fines ?? 0 } },
+        data: { fines_due: schedule.fines ?? 0 },
+      });
+      if (count > 0) {
+        console.log(
+          `✅ 已回填: ID=${schedule.id}, 贷款=${schedule.loan_id}, 应收罚金=${Number(schedule.fines)}`,
+        );
+      }
+    }
+
+    console.log(`\n✅ 回填完成，共处理 ${pending.length} 期`);
+  } catch (error) {
+    console.error('❌ 回填失败:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillFinesDue();
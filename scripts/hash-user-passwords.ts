@@ -0,0 +1,52 @@
+/**
+ * 客户密码批量迁移脚本：将 users 表中的明文密码改为 bcrypt 哈希
+ *
+ * 客户登录时也会惰性迁移，本脚本用于一次性迁移全部历史数据。
+ * 仍为初始密码 123456 的客户会被标记为首次登录需修改密码。
+ *
+ * 使用方法：
+ * npx ts-node scripts/hash-user-passwords.ts
+ */
+
+import { PrismaClient } from '@prisma/client';
+import * as bcrypt from 'bcrypt';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_PASSWORD = '123456';
+
+function isPasswordHashed(password: string): boolean {
+  return /^\$2[aby]\$\d{2}\$/.test(password);
+}
+
+async function hashUserPasswords() {
+  try {
+    const users = await prisma.user.findMany({
+      select: { id: true, username: true, password: true },
+    });
+    const pending = users.filter((u) => !isPasswordHashed(u.password));
+    console.log(`共 ${users.length} 个客户，待迁移 ${pending.length} 个`);
+
+    for (const user of pending) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          password: await bcrypt.hash(user.password, 10),
+          ...(user.password === DEFAULT_PASSWORD
+            ? { must_change_password: true }
+            : {}),
+        },
+      });
+      console.log(`✅ 已迁移: ID=${user.id}, 用户名=${user.username}`);
+    }
+
+    console.log(`\n✅ 迁移完成，共处理 ${pending.length} 个客户`);
+  } catch (error) {
+    console.error('❌ 迁移失败:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+hashUserPasswords();
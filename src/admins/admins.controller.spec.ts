@@ -0,0 +1,54 @@
+import type { Request, Response } from 'express';
+import { AdminSessionService } from '../auth/admin-session.service';
+import { AuthJwtService } from '../auth/jwt.service';
+import { LoginAttemptService } from '../auth/login-attempt.service';
+import { TwoFactorService } from '../auth/two-factor.service';
+import { AdminController } from './admins.controller';
+import { AdminService } from './admins.service';
+
+describe('AdminController.loginTwoFactor', () => {
+  const adminService = { findById: jest.fn() };
+  const loginAttemptService = {
+    isLocked: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+  const authJwtService = { verifyTwoFactorChallengeToken: jest.fn() };
+  const twoFactorService = { verify: jest.fn(), enable: jest.fn() };
+  const controller = new AdminController(
+    adminService as unknown as AdminService,
+    loginAttemptService as unknown as LoginAttemptService,
+    {} as AdminSessionService,
+    authJwtService as unknown as AuthJwtService,
+    twoFactorService as unknown as TwoFactorService,
+  );
+  const req = { ip: '1.1.1.1', socket: {} } as Request;
+  const res = {} as Response;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    authJwtService.verifyTwoFactorChallengeToken.mockReturnValue({
+      id: 1,
+      username: 'alice',
+      role: 'ADMIN',
+      purpose: 'verify',
+    });
+    loginAttemptService.isLocked.mockResolvedValue({
+      isLocked: false,
+      lockedUntil: null,
+    });
+  });
+
+  it('rejects the second factor when the account was locked after the challenge', async () => {
+    adminService.findById.mockResolvedValue({
+      id: 1,
+      username: 'alice',
+      locked_until: new Date(Date.now() + 10 * 60 * 1000),
+    });
+
+    await expect(
+      controller.loginTwoFactor('challenge', '123456', req, res),
+    ).rejects.toThrow('账户已被锁定，请10分钟后再试');
+    expect(twoFactorService.verify).not.toHaveBeenCalled();
+    expect(loginAttemptService.recordSuccess).not.toHaveBeenCalled();
+  });
+});
@@ -13,23 +13,34 @@ import {
   Req,
   UnauthorizedException,
   UseGuards,
+  ParseIntPipe,
 } from '@nestjs/common';
 import type { Request, Response } from 'express';
 import { AdminService } from './admins.service';
-import { ManagementRoles } from '@prisma/client';
+import { Admin, ManagementRoles } from '@prisma/client';
 import { CreateAdminDto } from './dto/create-admin.dto';
 import { ResponseHelper } from '../common/response-helper';
 import { ApiResponseDto } from '../common/dto/api-response.dto';
 import { LoginAttemptService } from '../auth/login-attempt.service';
 import { AuthJwtService } from '../auth/jwt.service';
+import { TwoFactorService } from '../auth/two-factor.service';
+import {
+  AdminSessionService,
+  sessionMetaFromRequest,
+} from '../auth/admin-session.service';
 import { AuthGuard } from '../auth/auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
 
 @Controller('admins')
 export class AdminController {
   constructor(
     private readonly adminService: AdminService,
     private readonly loginAttemptService: LoginAttemptService,
+    private readonly adminSessionService: AdminSessionService,
     private readonly authJwtService: AuthJwtService,
+    private readonly twoFactorService: TwoFactorService,
   ) {}
 
   @Get()
@@ -66,24 +77,18 @@ export class AdminController {
       throw new BadRequestException('用户名或密码不能为空');
     }
 
-    // 检查账户是否被锁定
-    const lockStatus = this.loginAttemptService.isLocked(username);
-    if (lockStatus.isLocked) {
-      const remainingMinutes = Math.ceil(
-        (lockStatus.lockedUntil!.getTime() - Date.now()) / 60000,
-      );
-      throw new UnauthorizedException(
-        `账户已被锁定，请${remainingMinutes}分钟后再试`,
-      );
-    }
+    // 检查账户或IP是否被锁定
+    const clientIp = this.getClientIp(req);
+    await this.assertNotLocked(username, clientIp);
 
     // 查找管理员
     const admin = await this.adminService.login(username);
     if (!admin) {
       // 即使用户不存在，也记录失败（防止用户名枚举攻击）
-      this.loginAttemptService.recordFailure(username);
+      await this.loginAttemptService.recordFailure(username, clientIp);
       throw new NotFoundException('管理员暂未注册');
     }
+    this.assertAdminNotLocked(admin);
     // 验证密码
     const isPasswordValid = await this.adminService.comparePassword(
       password,
@@ -92,8 +97,14 @@ export class AdminController {
 
     if (!isPasswordValid) {
       // 记录登录失败
-      const attemptResult = this.loginAttemptService.recordFailure(username);
-      await this.adminService.incrementFailedAttempts(admin.id);
+      const attemptResult = await this.loginAttemptService.recordFailure(
+        username,
+        clientIp,
+      );
+      await this.adminService.incrementFailedAttempts(
+        admin.id,
+        attemptResult.lockedUntil,
+      );
 
       if (attemptResult.isLocked) {
         const remainingMinutes = Math.ceil(
@@ -109,26 +120,178 @@ export class AdminController {
       );
     }
 
-    // 登录成功，清除失败记录
-    this.loginAttemptService.recordSuccess(username);
+    // 已启用或角色强制要求两步验证：返回挑战Token，完成第二步后才签发登录Token
+    if (
+      admin.two_factor_enabled ||
+      this.twoFactorService.isRequiredForRole(admin.role)
+    ) {
+      const purpose = admin.two_factor_enabled ? 'verify' : 'enroll';
+      const challengeToken =
+        this.authJwtService.generateTwoFactorChallengeToken({
+          id: admin.id,
+          username: admin.username,
+          role: admin.role,
+          purpose,
+        });
+      return ResponseHelper.success(
+        {
+          two_factor_required: purpose === 'verify',
+          two_factor_setup_required: purpose === 'enroll',
+          challenge_token: challengeToken,
+        },
+        purpose === 'verify' ? '请输入两步验证码' : '当前角色须先绑定两步验证',
+      );
+    }
 
-    // 获取客户端IP
-    const clientIp = req.ip || req.socket.remoteAddress || 'unknown';
-    await this.adminService.updateLoginInfo(admin.id, clientIp);
+    // 密码校验通过且无需两步验证，清除失败记录
+    await this.loginAttemptService.recordSuccess(username);
+    return this.completeLogin(admin, req, res);
+  }
 
-    // 生成JWT tokens
-    const accessToken = this.authJwtService.generateAccessToken({
-      id: admin.id,
-      username: admin.username,
-      role: admin.role,
-    });
+  /**
+   * 登录第二步（强制绑定）：获取绑定密钥和 otpauth 链接
+   * POST /admins/login/2fa/setup
+   */
+  @Post('login/2fa/setup')
+  async loginTwoFactorSetup(
+    @Body('challenge_token') challengeToken: string,
+  ): Promise<ApiResponseDto> {
+    const challenge = this.verifyChallenge(challengeToken);
+    if (challenge.purpose !== 'enroll') {
+      throw new BadRequestException('两步验证已绑定，请直接输入验证码');
+    }
+    const data = await this.twoFactorService.setup(challenge.id);
+    return ResponseHelper.success(data, '获取绑定密钥成功');
+  }
 
-    const refreshToken = this.authJwtService.generateRefreshToken({
-      id: admin.id,
-      username: admin.username,
-      role: admin.role,
-      tokenVersion: admin.token_version,
-    });
+  /**
+   * 登录第二步：校验验证码（或恢复码）后完成登录；强制绑定时同时启用两步验证
+   * POST /admins/login/2fa
+   */
+  @Post('login/2fa')
+  async loginTwoFactor(
+    @Body('challenge_token') challengeToken: string,
+    @Body('code') code: string,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ApiResponseDto> {
+    if (!code) {
+      throw new BadRequestException('验证码不能为空');
+    }
+    const challenge = this.verifyChallenge(challengeToken);
+    const clientIp = this.getClientIp(req);
+    await this.assertNotLocked(challenge.username, clientIp);
+
+    const admin = await this.adminService.findById(challenge.id);
+    if (!admin) {
+      throw new NotFoundException('管理员暂未注册');
+    }
+    // 挑战Token签发后账户被锁定的，同样拒绝第二步
+    this.assertAdminNotLocked(admin);
+
+    let recoveryCodes: string[] | undefined;
+    if (challenge.purpose === 'enroll') {
+      try {
+        recoveryCodes = await this.twoFactorService.enable(admin.id, code);
+      } catch (error) {
+        // 绑定时的错误验证码同样计入失败次数
+        if (error instanceof UnauthorizedException) {
+          await this.recordTwoFactorFailure(admin, clientIp);
+        }
+        throw error;
+      }
+    } else if (!(await this.twoFactorService.verify(admin.id, code))) {
+      await this.recordTwoFactorFailure(admin, clientIp);
+    }
+
+    // 第二步验证通过后才清除失败记录
+    await this.loginAttemptService.recordSuccess(admin.username);
+    return this.completeLogin(admin, req, res, recoveryCodes);
+  }
+
+  // 记录第二步验证失败（与密码错误共用账号和IP的失败计数）
+  private async recordTwoFactorFailure(
+    admin: Admin,
+    clientIp: string,
+  ): Promise<never> {
+    const attemptResult = await this.loginAttemptService.recordFailure(
+      admin.username,
+      clientIp,
+    );
+    await this.adminService.incrementFailedAttempts(
+      admin.id,
+      attemptResult.lockedUntil,
+    );
+    if (attemptResult.isLocked) {
+      const remainingMinutes = Math.ceil(
+        (attemptResult.lockedUntil!.getTime() - Date.now()) / 60000,
+      );
+      throw new UnauthorizedException(
+        `验证码错误，账户已被锁定${remainingMinutes}分钟`,
+      );
+    }
+    throw new UnauthorizedException(
+      `验证码错误，剩余尝试次数：${attemptResult.remainingAttempts}`,
+    );
+  }
+
+  private getClientIp(req: Request): string {
+    return req.ip || req.socket.remoteAddress || 'unknown';
+  }
+
+  private async assertNotLocked(username: string, clientIp: string) {
+    const lockStatus = await this.loginAttemptService.isLocked(
+      username,
+      clientIp,
+    );
+    if (lockStatus.isLocked) {
+      const remainingMinutes = Math.ceil(
+        (lockStatus.lockedUntil!.getTime() - Date.now()) / 60000,
+      );
+      throw new UnauthorizedException(
+        lockStatus.reason === 'ip'
+          ? `登录失败次数过多，请${remainingMinutes}分钟后再试`
+          : `账户已被锁定，请${remainingMinutes}分钟后再试`,
+      );
+    }
+  }
+
+  // 数据库中记录的锁定（限流记录被清理后仍然有效）
+  private assertAdminNotLocked(admin: Admin) {
+    if (admin.locked_until && admin.locked_until > new Date()) {
+      const remainingMinutes = Math.ceil(
+        (admin.locked_until.getTime() - Date.now()) / 60000,
+      );
+      throw new UnauthorizedException(
+        `账户已被锁定，请${remainingMinutes}分钟后再试`,
+      );
+    }
+  }
+
+  private verifyChallenge(challengeToken: string) {
+    const challenge = challengeToken
+      ? this.authJwtService.verifyTwoFactorChallengeToken(challengeToken)
+      : null;
+    if (!challenge) {
+      throw new UnauthorizedException('两步验证已过期，请重新登录');
+    }
+    return challenge;
+  }
+
+  // 登录成功：记录登录信息、创建会话并写入Token Cookie
+  private async completeLogin(
+    admin: Admin,
+    req: Request,
+    res: Response,
+    recoveryCodes?: string[],
+  ): Promise<ApiResponseDto> {
+    await this.adminService.updateLoginInfo(admin.id, this.getClientIp(req));
+
+    // 创建登录会话并生成JWT tokens
+    const { accessToken, refreshToken } = await this.adminSessionService.create(
+      admin,
+      sessionMetaFromRequest(req),
+    );
 
     // 设置HttpOnly Cookie（更安全）
     const isProduction = process.env.NODE_ENV === 'production';
@@ -149,17 +312,43 @@ export class AdminController {
     res.cookie('refresh_token', refreshToken, refreshCookieOptions);
 
     const data = this.adminService.toResponse(admin);
-    return ResponseHelper.success(data, '登录成功');
+    return ResponseHelper.success(
+      recoveryCodes ? { ...data, recovery_codes: recoveryCodes } : data,
+      '登录成功',
+    );
   }
 
   @Post('logout')
-  logout(@Res({ passthrough: true }) res: Response): { message: string } {
+  async logout(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<{ message: string }> {
+    // 吊销当前会话
+    const refreshToken = req.cookies?.refresh_token as string | undefined;
+    if (refreshToken) {
+      await this.adminSessionService.revokeByRefreshToken(refreshToken);
+    }
     // 清除所有认证相关的cookie
     res.clearCookie('access_token', { path: '/' });
     res.clearCookie('refresh_token', { path: '/' });
     return { message: '登出成功' };
   }
 
+  /**
+   * 强制下线：吊销该员工全部会话，已签发的Token立即失效
+   * POST /admins/:id/force-logout
+   */
+  @Post(':id/force-logout')
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(ManagementRoles.ADMIN)
+  async forceLogout(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user: { id: number },
+  ): Promise<ApiResponseDto> {
+    const revoked = await this.adminSessionService.forceLogout(id, user.id);
+    return ResponseHelper.success({ revoked }, '已强制下线');
+  }
+
   @Get(':id')
   async findById(@Param('id') id: number): Promise<ApiResponseDto> {
     const admin = await this.adminService.findById(id);
@@ -2,7 +2,6 @@ import { Module } from '@nestjs/common';
 import { AdminService } from './admins.service';
 import { AdminController } from './admins.controller';
 import { PrismaModule } from '../../prisma/prisma.module';
-import { LoginAttemptService } from '../auth/login-attempt.service';
 import { AuthJwtService } from '../auth/jwt.service';
 import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
@@ -24,7 +23,7 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
       inject: [ConfigService],
     }),
   ],
-  providers: [AdminService, LoginAttemptService, AuthJwtService],
+  providers: [AdminService, AuthJwtService],
   controllers: [AdminController],
   exports: [AdminService],
 })
@@ -91,16 +91,21 @@ export class AdminService {
         last_login_at: new Date(),
         last_login_ip: ipAddress,
         failed_login_attempts: 0, // 登录成功，重置失败次数
+        locked_until: null,
       },
     });
   }
 
-  // 增加失败登录次数
-  async incrementFailedAttempts(id: number): Promise<void> {
+  // 增加失败登录次数，达到上限时同步记录锁定时间
+  async incrementFailedAttempts(
+    id: number,
+    lockedUntil?: Date | null,
+  ): Promise<void> {
     await this.prisma.admin.update({
       where: { id },
       data: {
         failed_login_attempts: { increment: 1 },
+        ...(lockedUntil ? { locked_until: lockedUntil } : {}),
       },
     });
   }
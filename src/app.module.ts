@@ -25,6 +25,12 @@ import { BackupModule } from './backup/backup.module';
 import { MobileTerminalModule } from './mobile-terminal/mobile-terminal.module';
 import { RandomDecimalModule } from './random-decimal/random-decimal.module';
 import { EmailConfigModule } from './email-config/email-config.module';
+import { PayeeLimitModule } from './payee-limit/payee-limit.module';
+import { CustomerCreditModule } from './customer-credit/customer-credit.module';
+import { CustomerScoringModule } from './customer-scoring/customer-scoring.module';
+import { DispatchStrategyModule } from './dispatch-strategy/dispatch-strategy.module';
+import { BusinessCalendarModule } from './business-calendar/business-calendar.module';
+import { FinesModule } from './fines/fines.module';
 @Module({
   imports: [
     ScheduleModule.forRoot(),
@@ -53,6 +59,12 @@ import { EmailConfigModule } from './email-config/email-config.module';
     MobileTerminalModule,
     RandomDecimalModule,
     EmailConfigModule,
+    PayeeLimitModule,
+    CustomerCreditModule,
+    CustomerScoringModule,
+    DispatchStrategyModule,
+    BusinessCalendarModule,
+    FinesModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -0,0 +1,107 @@
+import { createHash } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AdminSessionService } from './admin-session.service';
+import { AuthJwtService } from './jwt.service';
+
+const hash = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+describe('AdminSessionService.refresh', () => {
+  const admin = { id: 1, username: 'admin', role: 'ADMIN', token_version: 0 };
+  const meta = { device: null, ip: null };
+  let issued = 0;
+
+  const authJwtService = {
+    verifyRefreshToken: jest.fn(),
+    generateAccessToken: jest.fn(() => `access-${++issued}`),
+    generateRefreshToken: jest.fn(() => `refresh-${++issued}`),
+  };
+  const prisma = {
+    admin: { findUnique: jest.fn() },
+    adminSession: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const service = new AdminSessionService(
+    prisma as unknown as PrismaService,
+    authJwtService as unknown as AuthJwtService,
+  );
+
+  const session = (overrides: Record<string, unknown> = {}) => ({
+    id: 'sid',
+    admin_id: 1,
+    refresh_token_hash: hash('current'),
+    previous_token_hash: null,
+    rotated_at: null,
+    revoked_at: null,
+    expires_at: new Date(Date.now() + 60_000),
+    device: null,
+    ip: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    authJwtService.verifyRefreshToken.mockReturnValue({
+      id: 1,
+      sid: 'sid',
+      tokenVersion: 0,
+    });
+    prisma.admin.findUnique.mockResolvedValue(admin);
+  });
+
+  it('rotates the refresh token when the conditional update wins', async () => {
+    prisma.adminSession.findUnique.mockResolvedValue(session());
+    prisma.adminSession.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await service.refresh('current', meta);
+
+    expect(result?.refreshToken).toBeDefined();
+    const [args] = prisma.adminSession.updateMany.mock.calls[0] as [
+      { where: { id: string; refresh_token_hash: string } },
+    ];
+    expect(args.where).toMatchObject({
+      id: 'sid',
+      refresh_token_hash: hash('current'),
+    });
+  });
+
+  it('issues only an access token when a concurrent request rotated first', async () => {
+    prisma.adminSession.findUnique
+      .mockResolvedValueOnce(session())
+      .mockResolvedValueOnce(
+        session({
+          refresh_token_hash: hash('other'),
+          previous_token_hash: hash('current'),
+          rotated_at: new Date(),
+        }),
+      );
+    prisma.adminSession.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await service.refresh('current', meta);
+
+    expect(result).not.toBeNull();
+    expect(result?.accessToken).toBeDefined();
+    expect(result?.refreshToken).toBeUndefined();
+    // 只有一次条件轮换，没有吊销会话
+    expect(prisma.adminSession.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('revokes the session when a rotated token is reused after the grace period', async () => {
+    prisma.adminSession.findUnique.mockResolvedValue(
+      session({
+        refresh_token_hash: hash('other'),
+        previous_token_hash: hash('current'),
+        rotated_at: new Date(Date.now() - 5 * 60_000),
+      }),
+    );
+    prisma.adminSession.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.refresh('current', meta)).resolves.toBeNull();
+    const [args] = prisma.adminSession.updateMany.mock.calls[0] as [
+      { data: { revoke_reason: string } },
+    ];
+    expect(args.data.revoke_reason).toBe('token_reuse');
+  });
+});
@@ -0,0 +1,327 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Request } from 'express';
+import { createHash, randomUUID } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthJwtService } from './jwt.service';
+
+export interface SessionMeta {
+  device: string | null;
+  ip: string | null;
+}
+
+interface SessionAdmin {
+  id: number;
+  username: string;
+  role: string;
+  token_version: number;
+}
+
+export interface IssuedSessionTokens {
+  sessionId: string;
+  accessToken: string;
+  // 为空表示本次未轮换 Refresh Token，客户端继续使用当前 Cookie
+  refreshToken?: string;
+  admin: SessionAdmin;
+}
+
+// 会话有效期，与 Refresh Token 一致（7天，每次刷新顺延）
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// 轮换后旧 Refresh Token 的宽限时间，避免并发请求同时刷新时误判为Token盗用
+const ROTATION_GRACE_MS = 60 * 1000;
+// last_seen_at 最小更新间隔，避免每个请求都写库
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export function sessionMetaFromRequest(req: Request): SessionMeta {
+  const userAgent = req.headers['user-agent'];
+  return {
+    device: userAgent ? userAgent.slice(0, 255) : null,
+    ip: req.ip || req.socket?.remoteAddress || null,
+  };
+}
+
+/**
+ * 管理端登录会话
+ *
+ * 登录时创建会话并签发携带会话ID（sid）的Token，刷新时轮换 Refresh Token；
+ * 已轮换的旧 Refresh Token 在宽限期后再次使用视为盗用，整个会话被吊销。
+ */
+@Injectable()
+export class AdminSessionService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly authJwtService: AuthJwtService,
+  ) {}
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private signTokens(admin: SessionAdmin, sessionId: string) {
+    const payload = {
+      id: admin.id,
+      username: admin.username,
+      role: admin.role,
+      tokenVersion: admin.token_version,
+      sid: sessionId,
+    };
+    return {
+      accessToken: this.authJwtService.generateAccessToken(payload),
+      refreshToken: this.authJwtService.generateRefreshToken(payload),
+    };
+  }
+
+  /**
+   * 登录成功后创建会话并签发Token
+   */
+  async create(
+    admin: SessionAdmin,
+    meta: SessionMeta,
+  ): Promise<IssuedSessionTokens> {
+    const sessionId = randomUUID();
+    const tokens = this.signTokens(admin, sessionId);
+    await this.prisma.adminSession.create({
+      data: {
+        id: sessionId,
+        admin_id: admin.id,
+        refresh_token_hash: this.hashToken(tokens.refreshToken),
+        device: meta.device,
+        ip: meta.ip,
+        expires_at: new Date(Date.now() + SESSION_TTL_MS),
+      },
+    });
+    return { sessionId, ...tokens, admin };
+  }
+
+  /**
+   * 使用 Refresh Token 刷新，校验失败返回 null
+   * 旧版不带会话ID的Token在刷新时补建会话
+   */
+  async refresh(
+    refreshToken: string,
+    meta: SessionMeta,
+  ): Promise<IssuedSessionTokens | null> {
+    const payload = this.authJwtService.verifyRefreshToken(refreshToken);
+    if (!payload) {
+      return null;
+    }
+
+    const admin = await this.prisma.admin.findUnique({
+      where: { id: payload.id },
+      select: { id: true, username: true, role: true, token_version: true },
+    });
+    if (!admin || admin.token_version !== payload.tokenVersion) {
+      return null;
+    }
+
+    if (!payload.sid) {
+      return this.create(admin, meta);
+    }
+
+    const session = await this.prisma.adminSession.findUnique({
+      where: { id: payload.sid },
+    });
+    const now = new Date();
+    if (
+      !session ||
+      session.admin_id !== admin.id ||
+      session.revoked_at ||
+      session.expires_at <= now
+    ) {
+      return null;
+    }
+
+    const tokenHash = this.hashToken(refreshToken);
+    if (tokenHash !== session.refresh_token_hash) {
+      if (!this.isWithinGrace(session, tokenHash, now)) {
+        await this.revokeSessions(
+          { id: session.id },
+          { reason: 'token_reuse', revokedBy: null },
+        );
+        return null;
+      }
+      return this.issueAccessOnly(admin, session.id);
+    }
+
+    // 以当前哈希为条件轮换，并发请求中只有一个能成功
+    const tokens = this.signTokens(admin, session.id);
+    const rotated = await this.prisma.adminSession.updateMany({
+      where: {
+        id: session.id,
+        refresh_token_hash: tokenHash,
+        revoked_at: null,
+      },
+      data: {
+        refresh_token_hash: this.hashToken(tokens.refreshToken),
+        previous_token_hash: tokenHash,
+        rotated_at: now,
+        last_seen_at: now,
+        expires_at: new Date(now.getTime() + SESSION_TTL_MS),
+        device: meta.device ?? session.device,
+        ip: meta.ip ?? session.ip,
+      },
+    });
+    if (rotated.count === 0) {
+      // 已被另一个请求轮换：重新读取会话，按宽限期处理
+      const latest = await this.prisma.adminSession.findUnique({
+        where: { id: session.id },
+      });
+      if (
+        !latest ||
+        latest.revoked_at ||
+        !this.isWithinGrace(latest, tokenHash, new Date())
+      ) {
+        return null;
+      }
+      return this.issueAccessOnly(admin, session.id);
+    }
+    return { sessionId: session.id, ...tokens, admin };
+  }
+
+  private isWithinGrace(
+    session: { previous_token_hash: string | null; rotated_at: Date | null },
+    tokenHash: string,
+    now: Date,
+  ): boolean {
+    return (
+      tokenHash === session.previous_token_hash &&
+      !!session.rotated_at &&
+      now.getTime() - session.rotated_at.getTime() <= ROTATION_GRACE_MS
+    );
+  }
+
+  // 并发刷新：只签发新的 Access Token，Refresh Token 已由另一个请求轮换
+  private issueAccessOnly(
+    admin: SessionAdmin,
+    sessionId: string,
+  ): IssuedSessionTokens {
+    const { accessToken } = this.signTokens(admin, sessionId);
+    return { sessionId, accessToken, admin };
+  }
+
+  /**
+   * 校验会话未被吊销且未过期，并按间隔更新最近活跃时间
+   */
+  async isActive(sessionId: string, adminId: number): Promise<boolean> {
+    const session = await this.prisma.adminSession.findUnique({
+      where: { id: sessionId },
+      select: {
+        admin_id: true,
+        revoked_at: true,
+        expires_at: true,
+        last_seen_at: true,
+      },
+    });
+    const now = new Date();
+    if (
+      !session ||
+      session.admin_id !== adminId ||
+      session.revoked_at ||
+      session.expires_at <= now
+    ) {
+      return false;
+    }
+    if (now.getTime() - session.last_seen_at.getTime() > TOUCH_INTERVAL_MS) {
+      await this.prisma.adminSession.update({
+        where: { id: sessionId },
+        data: { last_seen_at: now },
+      });
+    }
+    return true;
+  }
+
+  /**
+   * 当前管理员的有效会话列表
+   */
+  async list(adminId: number, currentSessionId?: string) {
+    const sessions = await this.prisma.adminSession.findMany({
+      where: {
+        admin_id: adminId,
+        revoked_at: null,
+        expires_at: { gt: new Date() },
+      },
+      orderBy: { last_seen_at: 'desc' },
+      select: {
+        id: true,
+        device: true,
+        ip: true,
+        created_at: true,
+        last_seen_at: true,
+        expires_at: true,
+      },
+    });
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * 吊销本人的某个会话
+   */
+  async revoke(adminId: number, sessionId: string): Promise<void> {
+    const count = await this.revokeSessions(
+      { id: sessionId, admin_id: adminId },
+      { reason: 'revoked', revokedBy: adminId },
+    );
+    if (count === 0) {
+      throw new NotFoundException('会话不存在或已失效');
+    }
+  }
+
+  /**
+   * 退出登录时吊销 Refresh Token 所属的会话
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<void> {
+    const payload = this.authJwtService.verifyRefreshToken(refreshToken);
+    if (!payload?.sid) {
+      return;
+    }
+    await this.revokeSessions(
+      { id: payload.sid, admin_id: payload.id },
+      { reason: 'logout', revokedBy: payload.id },
+    );
+  }
+
+  /**
+   * 强制下线：吊销该员工的全部会话并使已签发的Token失效
+   */
+  async forceLogout(adminId: number, operatorId: number): Promise<number> {
+    const admin = await this.prisma.admin.findUnique({
+      where: { id: adminId },
+      select: { id: true },
+    });
+    if (!admin) {
+      throw new NotFoundException('管理员暂未注册');
+    }
+    const [revoked] = await this.prisma.$transaction([
+      this.prisma.adminSession.updateMany({
+        where: { admin_id: adminId, revoked_at: null },
+        data: {
+          revoked_at: new Date(),
+          revoked_by: operatorId,
+          revoke_reason: 'force_logout',
+        },
+      }),
+      this.prisma.admin.update({
+        where: { id: adminId },
+        data: { token_version: { increment: 1 } },
+      }),
+    ]);
+    return revoked.count;
+  }
+
+  private async revokeSessions(
+    where: { id: string; admin_id?: number },
+    opts: { reason: string; revokedBy: number | null },
+  ): Promise<number> {
+    const result = await this.prisma.adminSession.updateMany({
+      where: { ...where, revoked_at: null },
+      data: {
+        revoked_at: new Date(),
+        revoked_by: opts.revokedBy,
+        revoke_reason: opts.reason,
+      },
+    });
+    return result.count;
+  }
+}
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+// 标记接口在客户需要修改密码（must_change_password）时仍可访问
+export const ALLOW_PASSWORD_CHANGE_KEY = 'allowPasswordChange';
+export const AllowPasswordChange = () =>
+  SetMetadata(ALLOW_PASSWORD_CHANGE_KEY, true);
@@ -1,6 +1,8 @@
 import {
   Controller,
+  Delete,
   Get,
+  Param,
   Post,
   UseGuards,
   Req,
@@ -12,14 +14,17 @@ import { CurrentUser } from './current-user.decorator';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ResponseHelper } from 'src/common/response-helper';
 import { ApiResponseDto } from 'src/common/dto/api-response.dto';
-import { AuthJwtService } from './jwt.service';
+import {
+  AdminSessionService,
+  sessionMetaFromRequest,
+} from './admin-session.service';
 import type { Request, Response } from 'express';
 
 @Controller('auth')
 export class AuthController {
   constructor(
     private readonly prisma: PrismaService,
-    private readonly authJwtService: AuthJwtService,
+    private readonly adminSessionService: AdminSessionService,
   ) {}
 
   @Get('verify')
@@ -56,47 +61,21 @@ export class AuthController {
     @Req() req: Request,
     @Res({ passthrough: true }) res: Response,
   ): Promise<ApiResponseDto> {
-    const refreshToken = req.cookies?.refresh_token;
+    const refreshToken = req.cookies?.refresh_token as string | undefined;
 
     if (!refreshToken) {
       throw new UnauthorizedException('Refresh token不存在');
     }
 
-    // 验证refresh token
-    const payload = this.authJwtService.verifyRefreshToken(refreshToken);
-    if (!payload) {
-      throw new UnauthorizedException('Refresh token无效或已过期');
-    }
-
-    // 从数据库验证token版本（防止token被盗用后继续使用）
-    const admin = await this.prisma.admin.findUnique({
-      where: { id: payload.id },
-      select: { id: true, username: true, role: true, token_version: true },
-    });
-
-    if (!admin) {
-      throw new UnauthorizedException('用户不存在');
-    }
-
-    // 检查token版本是否匹配
-    if (payload.tokenVersion !== admin.token_version) {
+    // 验证refresh token、token版本（防止token被盗用后继续使用）并轮换会话
+    const refreshed = await this.adminSessionService.refresh(
+      refreshToken,
+      sessionMetaFromRequest(req),
+    );
+    if (!refreshed) {
       throw new UnauthorizedException('Token已失效，请重新登录');
     }
 
-    // 生成新的tokens
-    const newAccessToken = this.authJwtService.generateAccessToken({
-      id: admin.id,
-      username: admin.username,
-      role: admin.role,
-    });
-
-    const newRefreshToken = this.authJwtService.generateRefreshToken({
-      id: admin.id,
-      username: admin.username,
-      role: admin.role,
-      tokenVersion: admin.token_version,
-    });
-
     // 更新cookies（滑动过期）
     const isProduction = process.env.NODE_ENV === 'production';
     const cookieOptions = {
@@ -112,12 +91,44 @@ export class AuthController {
       maxAge: 7 * 24 * 60 * 60 * 1000, // Refresh Token: 7天（滑动过期）
     };
 
-    res.cookie('access_token', newAccessToken, cookieOptions);
-    res.cookie('refresh_token', newRefreshToken, refreshCookieOptions);
+    res.cookie('access_token', refreshed.accessToken, cookieOptions);
+    if (refreshed.refreshToken) {
+      res.cookie('refresh_token', refreshed.refreshToken, refreshCookieOptions);
+    }
 
     return ResponseHelper.success(
       { message: 'Token刷新成功' },
       'Token刷新成功',
     );
   }
+
+  /**
+   * 当前登录用户的有效会话（设备、IP、最近活跃时间）
+   * GET /auth/sessions
+   */
+  @Get('sessions')
+  @UseGuards(AuthGuard)
+  async getSessions(
+    @CurrentUser() user: { id: number; sessionId?: string },
+  ): Promise<ApiResponseDto> {
+    const sessions = await this.adminSessionService.list(
+      user.id,
+      user.sessionId,
+    );
+    return ResponseHelper.success(sessions, '获取会话列表成功');
+  }
+
+  /**
+   * 吊销本人的某个会话（使该设备下线）
+   * DELETE /auth/sessions/:id
+   */
+  @Delete('sessions/:id')
+  @UseGuards(AuthGuard)
+  async revokeSession(
+    @CurrentUser() user: { id: number },
+    @Param('id') id: string,
+  ): Promise<ApiResponseDto> {
+    await this.adminSessionService.revoke(user.id, id);
+    return ResponseHelper.success(null, '会话已下线');
+  }
 }
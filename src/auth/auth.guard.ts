@@ -8,9 +8,13 @@ import { Request, Response } from 'express';
 import { randomBytes } from 'crypto';
 import { AuthJwtService } from './jwt.service';
 import { PrismaService } from '../../prisma/prisma.service';
+import {
+  AdminSessionService,
+  sessionMetaFromRequest,
+} from './admin-session.service';
 
 interface AuthenticatedRequest extends Request {
-  user: { id: number; role: string };
+  user: { id: number; role: string; sessionId?: string };
   clientId?: string;
 }
 
@@ -19,6 +23,7 @@ export class AuthGuard implements CanActivate {
   constructor(
     private readonly authJwtService: AuthJwtService,
     private readonly prisma: PrismaService,
+    private readonly adminSessionService: AdminSessionService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -37,7 +42,7 @@ export class AuthGuard implements CanActivate {
         // Token有效，检查是否即将过期（滑动过期机制）
         if (this.authJwtService.isTokenExpiringSoon(accessToken)) {
           // Token即将过期，尝试自动刷新
-          await this.attemptTokenRefresh(refreshToken, response, payload);
+          await this.attemptTokenRefresh(refreshToken, request, response);
         }
 
         // 从数据库验证用户和token版本
@@ -50,73 +55,67 @@ export class AuthGuard implements CanActivate {
           throw new UnauthorizedException('用户不存在');
         }
 
-        request.user = { id: admin.id, role: admin.role };
+        // 修改密码、强制下线后 token_version 递增，旧Token立即失效
+        // （未携带版本的旧Token最多15分钟后过期，由会话校验兜底）
+        if (
+          payload.tokenVersion !== undefined &&
+          payload.tokenVersion !== admin.token_version
+        ) {
+          throw new UnauthorizedException('Token已失效，请重新登录');
+        }
+
+        // 会话被吊销（退出登录、强制下线）后Access Token立即失效
+        if (
+          payload.sid &&
+          !(await this.adminSessionService.isActive(payload.sid, admin.id))
+        ) {
+          throw new UnauthorizedException('会话已失效，请重新登录');
+        }
+
+        request.user = {
+          id: admin.id,
+          role: admin.role,
+          sessionId: payload.sid,
+        };
         return true;
       } else if (refreshToken) {
         // Access Token无效，尝试使用Refresh Token刷新
         const refreshed = await this.attemptTokenRefresh(
           refreshToken,
+          request,
           response,
         );
         if (refreshed) {
-          const refreshPayload =
-            this.authJwtService.verifyRefreshToken(refreshToken);
-          if (refreshPayload) {
-            const admin = await this.prisma.admin.findUnique({
-              where: { id: refreshPayload.id },
-              select: { id: true, username: true, role: true },
-            });
-
-            if (admin) {
-              request.user = { id: admin.id, role: admin.role };
-              return true;
-            }
-          }
+          request.user = {
+            id: refreshed.admin.id,
+            role: refreshed.admin.role,
+            sessionId: refreshed.sessionId,
+          };
+          return true;
         }
       }
     }
     throw new UnauthorizedException('未登录或token已过期');
   }
 
-  // 尝试刷新token
+  // 尝试刷新token（轮换会话的 Refresh Token）
   private async attemptTokenRefresh(
     refreshToken: string | undefined,
+    request: Request,
     response: Response,
-    currentPayload?: { id: number; username: string; role: string },
-  ): Promise<boolean> {
+  ) {
     if (!refreshToken) {
-      return false;
+      return null;
     }
 
-    const payload = this.authJwtService.verifyRefreshToken(refreshToken);
-    if (!payload) {
-      return false;
+    const refreshed = await this.adminSessionService.refresh(
+      refreshToken,
+      sessionMetaFromRequest(request),
+    );
+    if (!refreshed) {
+      return null;
     }
 
-    // 从数据库验证token版本
-    const admin = await this.prisma.admin.findUnique({
-      where: { id: payload.id },
-      select: { id: true, username: true, role: true, token_version: true },
-    });
-
-    if (!admin || admin.token_version !== payload.tokenVersion) {
-      return false;
-    }
-
-    // 生成新的tokens
-    const newAccessToken = this.authJwtService.generateAccessToken({
-      id: admin.id,
-      username: admin.username,
-      role: admin.role,
-    });
-
-    const newRefreshToken = this.authJwtService.generateRefreshToken({
-      id: admin.id,
-      username: admin.username,
-      role: admin.role,
-      tokenVersion: admin.token_version,
-    });
-
     // 更新cookies（滑动过期）
     const isProduction = process.env.NODE_ENV === 'production';
     const cookieOptions = {
@@ -132,9 +131,15 @@ export class AuthGuard implements CanActivate {
       maxAge: 7 * 24 * 60 * 60 * 1000, // Refresh Token: 7天（滑动过期）
     };
 
-    response.cookie('access_token', newAccessToken, cookieOptions);
-    response.cookie('refresh_token', newRefreshToken, refreshCookieOptions);
+    response.cookie('access_token', refreshed.accessToken, cookieOptions);
+    if (refreshed.refreshToken) {
+      response.cookie(
+        'refresh_token',
+        refreshed.refreshToken,
+        refreshCookieOptions,
+      );
+    }
 
-    return true;
+    return refreshed;
   }
 }
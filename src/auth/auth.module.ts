@@ -6,6 +6,12 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthJwtService } from './jwt.service';
 import { LoginAttemptService } from './login-attempt.service';
 import { AuthGuard } from './auth.guard';
+import { CustomerAuthGuard } from './customer-auth.guard';
+import { AdminSessionService } from './admin-session.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
+import { LoginThrottleController } from './login-throttle.controller';
+import { loginThrottleProviders } from './login-throttle/login-throttle.providers';
 
 @Global()
 @Module({
@@ -25,8 +31,23 @@ import { AuthGuard } from './auth.guard';
       inject: [ConfigService],
     }),
   ],
-  providers: [AuthJwtService, LoginAttemptService, AuthGuard],
-  controllers: [AuthController],
-  exports: [AuthJwtService, LoginAttemptService, AuthGuard],
+  providers: [
+    ...loginThrottleProviders,
+    AuthJwtService,
+    LoginAttemptService,
+    AdminSessionService,
+    TwoFactorService,
+    AuthGuard,
+    CustomerAuthGuard,
+  ],
+  controllers: [AuthController, TwoFactorController, LoginThrottleController],
+  exports: [
+    AuthJwtService,
+    LoginAttemptService,
+    AdminSessionService,
+    TwoFactorService,
+    AuthGuard,
+    CustomerAuthGuard,
+  ],
 })
 export class AuthModule {}
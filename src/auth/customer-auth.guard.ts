@@ -0,0 +1,71 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AuthJwtService } from './jwt.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ALLOW_PASSWORD_CHANGE_KEY } from './allow-password-change.decorator';
+
+interface CustomerRequest extends Request {
+  user: { id: number; role: string };
+}
+
+/**
+ * 客户侧接口认证：校验 Authorization: Bearer 中的客户Access Token
+ * 客户需要修改密码时，仅放行标记了 @AllowPasswordChange() 的接口
+ */
+@Injectable()
+export class CustomerAuthGuard implements CanActivate {
+  constructor(
+    private readonly authJwtService: AuthJwtService,
+    private readonly prisma: PrismaService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<CustomerRequest>();
+
+    const authorization = request.headers.authorization;
+    const token = authorization?.startsWith('Bearer ')
+      ? authorization.slice('Bearer '.length).trim()
+      : undefined;
+    if (!token) {
+      throw new UnauthorizedException('未登录或token已过期');
+    }
+
+    const payload = this.authJwtService.verifyCustomerToken(token);
+    if (!payload) {
+      throw new UnauthorizedException('未登录或token已过期');
+    }
+
+    // 从数据库验证用户和token版本（修改密码、退出登录后旧token失效）
+    const user = await this.prisma.user.findUnique({
+      where: { id: payload.id },
+      select: { id: true, token_version: true, must_change_password: true },
+    });
+    if (!user) {
+      throw new UnauthorizedException('用户不存在');
+    }
+    if (user.token_version !== payload.tokenVersion) {
+      throw new UnauthorizedException('Token已失效，请重新登录');
+    }
+
+    if (user.must_change_password) {
+      const allowed = this.reflector.getAllAndOverride<boolean | undefined>(
+        ALLOW_PASSWORD_CHANGE_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+      if (!allowed) {
+        throw new ForbiddenException('首次登录请先修改密码');
+      }
+    }
+
+    request.user = { id: user.id, role: 'CUSTOMER' };
+    return true;
+  }
+}
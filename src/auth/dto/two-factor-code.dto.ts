@@ -0,0 +1,8 @@
+import { IsString, Length } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  // 验证器6位口令或恢复码
+  @IsString()
+  @Length(6, 20)
+  code: string;
+}
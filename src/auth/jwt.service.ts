@@ -6,9 +6,14 @@ export interface TokenPayload {
   id: number;
   username: string;
   role: string;
-  type: 'access' | 'refresh';
+  type: 'access' | 'refresh' | 'customer' | 'customer_refresh' | 'two_factor';
+  sid?: string; // 管理端登录会话ID
+  tokenVersion?: number; // 签发时的 token_version，修改密码、强制下线后旧Token失效
 }
 
+// 两步验证挑战：verify 为校验已绑定的验证器，enroll 为强制绑定
+export type TwoFactorPurpose = 'verify' | 'enroll';
+
 @Injectable()
 export class AuthJwtService {
   constructor(
@@ -21,6 +26,8 @@ export class AuthJwtService {
     id: number;
     username: string;
     role: string;
+    tokenVersion: number;
+    sid?: string;
   }): string {
     const tokenPayload: TokenPayload = {
       ...payload,
@@ -40,12 +47,60 @@ export class AuthJwtService {
     username: string;
     role: string;
     tokenVersion: number;
+    sid?: string;
   }): string {
     const tokenPayload: TokenPayload = {
       id: payload.id,
       username: payload.username,
       role: payload.role,
       type: 'refresh',
+      sid: payload.sid,
+    };
+    return this.jwtService.sign(
+      { ...tokenPayload, tokenVersion: payload.tokenVersion },
+      {
+        expiresIn: '7d',
+        secret:
+          this.configService.get<string>('JWT_REFRESH_SECRET') ||
+          'your-refresh-secret-key-change-in-production',
+      },
+    );
+  }
+
+  // 生成客户Access Token（15分钟有效期），用于客户侧接口和 WebSocket
+  generateCustomerAccessToken(payload: {
+    id: number;
+    username: string;
+    tokenVersion: number;
+  }): string {
+    const tokenPayload: TokenPayload = {
+      id: payload.id,
+      username: payload.username,
+      role: 'CUSTOMER',
+      type: 'customer',
+    };
+    return this.jwtService.sign(
+      { ...tokenPayload, tokenVersion: payload.tokenVersion },
+      {
+        expiresIn: '15m',
+        secret:
+          this.configService.get<string>('JWT_SECRET') ||
+          'your-secret-key-change-in-production',
+      },
+    );
+  }
+
+  // 生成客户Refresh Token（7天有效期）
+  generateCustomerRefreshToken(payload: {
+    id: number;
+    username: string;
+    tokenVersion: number;
+  }): string {
+    const tokenPayload: TokenPayload = {
+      id: payload.id,
+      username: payload.username,
+      role: 'CUSTOMER',
+      type: 'customer_refresh',
     };
     return this.jwtService.sign(
       { ...tokenPayload, tokenVersion: payload.tokenVersion },
@@ -58,6 +113,51 @@ export class AuthJwtService {
     );
   }
 
+  // 生成两步验证挑战Token（5分钟有效期），密码校验通过后签发
+  generateTwoFactorChallengeToken(payload: {
+    id: number;
+    username: string;
+    role: string;
+    purpose: TwoFactorPurpose;
+  }): string {
+    const tokenPayload: TokenPayload = {
+      id: payload.id,
+      username: payload.username,
+      role: payload.role,
+      type: 'two_factor',
+    };
+    return this.jwtService.sign(
+      { ...tokenPayload, purpose: payload.purpose },
+      {
+        expiresIn: '5m',
+        secret:
+          this.configService.get<string>('JWT_SECRET') ||
+          'your-secret-key-change-in-production',
+      },
+    );
+  }
+
+  // 验证两步验证挑战Token
+  verifyTwoFactorChallengeToken(
+    token: string,
+  ): (TokenPayload & { purpose: TwoFactorPurpose }) | null {
+    try {
+      const payload = this.jwtService.verify<
+        TokenPayload & { purpose: TwoFactorPurpose }
+      >(token, {
+        secret:
+          this.configService.get<string>('JWT_SECRET') ||
+          'your-secret-key-change-in-production',
+      });
+      if (payload.type !== 'two_factor') {
+        return null;
+      }
+      return payload;
+    } catch (error) {
+      return null;
+    }
+  }
+
   // 验证Access Token
   verifyAccessToken(token: string): TokenPayload | null {
     try {
@@ -96,10 +196,62 @@ export class AuthJwtService {
     }
   }
 
+  // 验证客户Access Token
+  verifyCustomerToken(
+    token: string,
+  ): (TokenPayload & { tokenVersion: number }) | null {
+    try {
+      const payload = this.jwtService.verify<
+        TokenPayload & { tokenVersion: number }
+      >(token, {
+        secret:
+          this.configService.get<string>('JWT_SECRET') ||
+          'your-secret-key-change-in-production',
+      });
+      if (payload.type !== 'customer') {
+        return null;
+      }
+      return payload;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // 验证客户Refresh Token
+  verifyCustomerRefreshToken(
+    token: string,
+  ): (TokenPayload & { tokenVersion: number }) | null {
+    try {
+      const payload = this.jwtService.verify<
+        TokenPayload & { tokenVersion: number }
+      >(token, {
+        secret:
+          this.configService.get<string>('JWT_REFRESH_SECRET') ||
+          'your-refresh-secret-key-change-in-production',
+      });
+      if (payload.type !== 'customer_refresh') {
+        return null;
+      }
+      return payload;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // 获取token过期时间（毫秒时间戳），无法解析时返回null
+  getTokenExpiry(token: string): number | null {
+    try {
+      const decoded = this.jwtService.decode<{ exp?: number } | null>(token);
+      return decoded?.exp ? decoded.exp * 1000 : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
   // 检查token是否即将过期（剩余时间少于5分钟）
   isTokenExpiringSoon(token: string): boolean {
     try {
-      const decoded = this.jwtService.decode(token) as { exp: number } | null;
+      const decoded = this.jwtService.decode<{ exp?: number } | null>(token);
       if (!decoded || !decoded.exp) {
         return true;
       }
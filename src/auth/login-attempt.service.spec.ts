@@ -0,0 +1,122 @@
+import { LoginAttemptService } from './login-attempt.service';
+import { InMemoryLoginThrottleStore } from './login-throttle/login-throttle-store';
+
+describe('LoginAttemptService', () => {
+  const minutes = (n: number) => n * 60 * 1000;
+  let service: LoginAttemptService;
+
+  const fail = async (times: number, identifier: string, ip?: string) => {
+    let result: Awaited<ReturnType<LoginAttemptService['recordFailure']>>;
+    for (let i = 0; i < times; i++) {
+      result = await service.recordFailure(identifier, ip);
+    }
+    return result!;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-05-10T08:00:00Z') });
+    service = new LoginAttemptService(new InMemoryLoginThrottleStore());
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('counts failures per account and locks at the limit', async () => {
+    expect(await fail(4, 'alice', '1.1.1.1')).toEqual({
+      isLocked: false,
+      remainingAttempts: 1,
+      lockedUntil: null,
+    });
+
+    const locked = await fail(1, 'alice', '1.1.1.1');
+
+    expect(locked.isLocked).toBe(true);
+    expect(locked.lockedUntil).toEqual(new Date(Date.now() + minutes(15)));
+    expect(await service.isLocked('alice', '1.1.1.1')).toMatchObject({
+      isLocked: true,
+      reason: 'account',
+    });
+    expect((await service.isLocked('bob', '2.2.2.2')).isLocked).toBe(false);
+  });
+
+  it('does not extend an active lock on further failures', async () => {
+    const { lockedUntil } = await fail(5, 'alice');
+    jest.advanceTimersByTime(minutes(5));
+
+    expect(await fail(1, 'alice')).toEqual({
+      isLocked: true,
+      remainingAttempts: 0,
+      lockedUntil,
+    });
+  });
+
+  it('locks an IP that fails across many accounts', async () => {
+    for (let i = 0; i < 20; i++) {
+      await service.recordFailure(`user-${i}`, '3.3.3.3');
+    }
+
+    expect(await service.isLocked('someone-else', '3.3.3.3')).toMatchObject({
+      isLocked: true,
+      reason: 'ip',
+    });
+    expect((await service.isLocked('someone-else', '4.4.4.4')).isLocked).toBe(
+      false,
+    );
+  });
+
+  it('unlocks after the lock duration and restarts the count', async () => {
+    await fail(5, 'alice');
+    jest.advanceTimersByTime(minutes(15));
+
+    expect((await service.isLocked('alice')).isLocked).toBe(false);
+    expect((await fail(1, 'alice')).remainingAttempts).toBe(4);
+  });
+
+  it('forgets failures outside the counting window', async () => {
+    await fail(4, 'alice');
+    jest.advanceTimersByTime(minutes(16));
+
+    expect((await fail(1, 'alice')).remainingAttempts).toBe(4);
+  });
+
+  it('clears the account on success but keeps the IP count', async () => {
+    for (let i = 0; i < 19; i++) {
+      await service.recordFailure('alice', '5.5.5.5');
+      if (i % 4 === 3) await service.recordSuccess('alice');
+    }
+    await service.recordSuccess('alice');
+
+    expect((await service.recordFailure('alice', '5.5.5.5')).isLocked).toBe(
+      false,
+    );
+    expect(await service.isLocked('alice', '5.5.5.5')).toMatchObject({
+      isLocked: true,
+      reason: 'ip',
+    });
+  });
+
+  it('counts customer accounts separately from admins', async () => {
+    await fail(5, 'alice');
+
+    expect((await service.isLocked('alice', null, 'customer')).isLocked).toBe(
+      false,
+    );
+  });
+
+  it('lists active entries and clears a lock by key', async () => {
+    await fail(5, 'alice', '6.6.6.6');
+
+    const entries = await service.list();
+    expect(
+      entries.map((entry) => [entry.key, entry.count, entry.is_locked]),
+    ).toEqual([
+      ['ip:6.6.6.6', 5, false],
+      ['admin:alice', 5, true],
+    ]);
+
+    await service.clear('admin:alice');
+    expect((await service.isLocked('alice', '6.6.6.6')).isLocked).toBe(false);
+  });
+});
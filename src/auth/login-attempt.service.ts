@@ -1,117 +1,179 @@
-import { Injectable } from '@nestjs/common';
-
-interface LoginAttempt {
-  count: number;
+import { Inject, Injectable, OnModuleDestroy } from '@nestjs/common';
+import { LoginThrottleScope } from '@prisma/client';
+import {
+  LOGIN_THROTTLE_STORE,
+  throttleKey,
+} from './login-throttle/login-throttle-store';
+import type {
+  LoginThrottleEntry,
+  LoginThrottleStore,
+} from './login-throttle/login-throttle-store';
+
+export type LoginAccountScope = Exclude<LoginThrottleScope, 'ip'>;
+
+export interface LoginLockStatus {
+  isLocked: boolean;
   lockedUntil: Date | null;
-  lastAttempt: Date;
+  reason?: 'account' | 'ip';
 }
 
-@Injectable()
-export class LoginAttemptService {
-  // 使用内存Map存储登录尝试（生产环境建议使用Redis）
-  private readonly loginAttempts = new Map<string, LoginAttempt>();
+const positiveNumber = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
 
-  // 配置
-  private readonly MAX_ATTEMPTS = 5; // 最大失败次数
-  private readonly LOCK_DURATION = 15 * 60 * 1000; // 锁定15分钟
+@Injectable()
+export class LoginAttemptService implements OnModuleDestroy {
+  // 配置（可通过环境变量覆盖）
+  private readonly MAX_ATTEMPTS = positiveNumber(
+    process.env.LOGIN_MAX_ATTEMPTS,
+    5,
+  ); // 单个账号最大失败次数
+  private readonly IP_MAX_ATTEMPTS = positiveNumber(
+    process.env.LOGIN_IP_MAX_ATTEMPTS,
+    20,
+  ); // 单个IP最大失败次数（不区分账号）
+  private readonly LOCK_DURATION =
+    positiveNumber(process.env.LOGIN_LOCK_MINUTES, 15) * 60 * 1000; // 锁定时长
+  private readonly ATTEMPT_WINDOW =
+    positiveNumber(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES, 15) * 60 * 1000; // 失败次数统计窗口
   private readonly CLEANUP_INTERVAL = 60 * 60 * 1000; // 每小时清理一次过期记录
 
-  constructor() {
+  private readonly cleanupTimer: NodeJS.Timeout;
+
+  constructor(
+    @Inject(LOGIN_THROTTLE_STORE) private readonly store: LoginThrottleStore,
+  ) {
     // 定期清理过期的记录
-    setInterval(() => this.cleanup(), this.CLEANUP_INTERVAL);
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup().catch((error) =>
+        console.error('清理登录限流记录失败:', error),
+      );
+    }, this.CLEANUP_INTERVAL);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.cleanupTimer);
+  }
+
+  private isActiveLock(entry: LoginThrottleEntry | null, now: Date) {
+    return !!entry?.locked_until && entry.locked_until > now;
   }
 
-  // 记录登录失败
-  recordFailure(username: string): {
+  // 记录登录失败（账号和IP分别计数）
+  async recordFailure(
+    identifier: string,
+    ip?: string | null,
+    scope: LoginAccountScope = 'admin',
+  ): Promise<{
     isLocked: boolean;
     remainingAttempts: number;
     lockedUntil: Date | null;
-  } {
-    const key = `user:${username}`;
+  }> {
     const now = new Date();
-    let attempt = this.loginAttempts.get(key);
-
-    if (!attempt) {
-      attempt = {
-        count: 0,
-        lockedUntil: null,
-        lastAttempt: now,
-      };
+    const windowStart = new Date(now.getTime() - this.ATTEMPT_WINDOW);
+    const lockedUntil = new Date(now.getTime() + this.LOCK_DURATION);
+
+    if (ip) {
+      const ipEntry = await this.store.increment(
+        { key: throttleKey('ip', ip), scope: 'ip', identifier: ip },
+        windowStart,
+      );
+      if (!ipEntry.locked_until && ipEntry.count >= this.IP_MAX_ATTEMPTS) {
+        await this.store.lock(ipEntry.key, lockedUntil);
+      }
     }
 
-    // 如果账户已锁定，检查是否已过期
-    if (attempt.lockedUntil && attempt.lockedUntil > now) {
+    const key = throttleKey(scope, identifier);
+    const existing = await this.store.get(key);
+    // 如果账户已锁定，不再累计
+    if (this.isActiveLock(existing, now)) {
       return {
         isLocked: true,
         remainingAttempts: 0,
-        lockedUntil: attempt.lockedUntil,
+        lockedUntil: existing!.locked_until,
       };
     }
 
-    // 如果锁定已过期，重置计数
-    if (attempt.lockedUntil && attempt.lockedUntil <= now) {
-      attempt.count = 0;
-      attempt.lockedUntil = null;
-    }
-
-    // 增加失败次数
-    attempt.count++;
-    attempt.lastAttempt = now;
-
-    // 如果达到最大失败次数，锁定账户
-    if (attempt.count >= this.MAX_ATTEMPTS) {
-      attempt.lockedUntil = new Date(now.getTime() + this.LOCK_DURATION);
+    // 增加失败次数，达到最大失败次数时锁定账户
+    const entry = await this.store.increment(
+      { key, scope, identifier },
+      windowStart,
+    );
+    const isLocked = entry.count >= this.MAX_ATTEMPTS;
+    if (isLocked) {
+      await this.store.lock(key, lockedUntil);
     }
 
-    this.loginAttempts.set(key, attempt);
-
     return {
-      isLocked: attempt.lockedUntil !== null,
-      remainingAttempts: Math.max(0, this.MAX_ATTEMPTS - attempt.count),
-      lockedUntil: attempt.lockedUntil,
+      isLocked,
+      remainingAttempts: Math.max(0, this.MAX_ATTEMPTS - entry.count),
+      lockedUntil: isLocked ? lockedUntil : null,
     };
   }
 
-  // 记录登录成功，清除失败记录
-  recordSuccess(username: string): void {
-    const key = `user:${username}`;
-    this.loginAttempts.delete(key);
+  // 记录登录成功，清除账号的失败记录（IP计数保留至窗口过期）
+  async recordSuccess(
+    identifier: string,
+    scope: LoginAccountScope = 'admin',
+  ): Promise<void> {
+    await this.store.delete(throttleKey(scope, identifier));
   }
 
-  // 检查账户是否被锁定
-  isLocked(username: string): { isLocked: boolean; lockedUntil: Date | null } {
-    const key = `user:${username}`;
-    const attempt = this.loginAttempts.get(key);
-
-    if (!attempt) {
-      return { isLocked: false, lockedUntil: null };
-    }
-
+  // 检查账户或IP是否被锁定
+  async isLocked(
+    identifier: string,
+    ip?: string | null,
+    scope: LoginAccountScope = 'admin',
+  ): Promise<LoginLockStatus> {
     const now = new Date();
-    if (attempt.lockedUntil && attempt.lockedUntil > now) {
-      return { isLocked: true, lockedUntil: attempt.lockedUntil };
+    const entry = await this.store.get(throttleKey(scope, identifier));
+    if (this.isActiveLock(entry, now)) {
+      return {
+        isLocked: true,
+        lockedUntil: entry!.locked_until,
+        reason: 'account',
+      };
     }
-
-    // 锁定已过期，清除记录
-    if (attempt.lockedUntil && attempt.lockedUntil <= now) {
-      this.loginAttempts.delete(key);
-      return { isLocked: false, lockedUntil: null };
+    if (ip) {
+      const ipEntry = await this.store.get(throttleKey('ip', ip));
+      if (this.isActiveLock(ipEntry, now)) {
+        return {
+          isLocked: true,
+          lockedUntil: ipEntry!.locked_until,
+          reason: 'ip',
+        };
+      }
     }
-
     return { isLocked: false, lockedUntil: null };
   }
 
-  // 清理过期的记录
-  private cleanup(): void {
+  /**
+   * 当前锁定中或仍在统计窗口内的失败记录
+   */
+  async list(): Promise<(LoginThrottleEntry & { is_locked: boolean })[]> {
     const now = new Date();
-    for (const [key, attempt] of this.loginAttempts.entries()) {
-      // 如果锁定已过期且超过1小时没有活动，删除记录
-      if (
-        (!attempt.lockedUntil || attempt.lockedUntil <= now) &&
-        now.getTime() - attempt.lastAttempt.getTime() > this.CLEANUP_INTERVAL
-      ) {
-        this.loginAttempts.delete(key);
-      }
-    }
+    const windowStart = new Date(now.getTime() - this.ATTEMPT_WINDOW);
+    const entries = await this.store.list();
+    return entries
+      .filter(
+        (entry) =>
+          this.isActiveLock(entry, now) || entry.last_attempt_at >= windowStart,
+      )
+      .map((entry) => ({ ...entry, is_locked: this.isActiveLock(entry, now) }));
+  }
+
+  // 清除某条失败记录（解除锁定）
+  async clear(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  // 清理过期的记录
+  private async cleanup(): Promise<void> {
+    await this.store.deleteStale(
+      new Date(
+        Date.now() - Math.max(this.ATTEMPT_WINDOW, this.CLEANUP_INTERVAL),
+      ),
+    );
   }
 }
@@ -0,0 +1,61 @@
+import { Controller, Delete, Get, Param, UseGuards } from '@nestjs/common';
+import { ManagementRoles } from '@prisma/client';
+import { AuthGuard } from './auth.guard';
+import { RolesGuard } from './roles.guard';
+import { Roles } from './roles.decorator';
+import { LoginAttemptService } from './login-attempt.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ResponseHelper } from 'src/common/response-helper';
+import { ApiResponseDto } from 'src/common/dto/api-response.dto';
+
+@Controller('auth/login-lockouts')
+@UseGuards(AuthGuard, RolesGuard)
+@Roles(ManagementRoles.ADMIN)
+export class LoginThrottleController {
+  constructor(
+    private readonly loginAttemptService: LoginAttemptService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  /**
+   * 登录失败记录与锁定中的管理员
+   * GET /auth/login-lockouts
+   */
+  @Get()
+  async list(): Promise<ApiResponseDto> {
+    const [entries, lockedAdmins] = await Promise.all([
+      this.loginAttemptService.list(),
+      this.prisma.admin.findMany({
+        where: { locked_until: { gt: new Date() } },
+        select: {
+          id: true,
+          username: true,
+          role: true,
+          failed_login_attempts: true,
+          locked_until: true,
+        },
+      }),
+    ]);
+    return ResponseHelper.success(
+      { entries, locked_admins: lockedAdmins },
+      '获取登录锁定记录成功',
+    );
+  }
+
+  /**
+   * 解除锁定，key 形如 admin:<用户名>、customer:<用户名>、ip:<IP>
+   * DELETE /auth/login-lockouts/:key
+   */
+  @Delete(':key')
+  async clear(@Param('key') key: string): Promise<ApiResponseDto> {
+    await this.loginAttemptService.clear(key);
+    // 管理员账号同时重置数据库中的失败次数和锁定时间
+    if (key.startsWith('admin:')) {
+      await this.prisma.admin.updateMany({
+        where: { username: key.slice('admin:'.length) },
+        data: { failed_login_attempts: 0, locked_until: null },
+      });
+    }
+    return ResponseHelper.success(null, '已解除锁定');
+  }
+}
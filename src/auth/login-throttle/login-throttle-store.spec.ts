@@ -0,0 +1,103 @@
+import {
+  InMemoryLoginThrottleStore,
+  LoginThrottleEntry,
+  shouldReset,
+  throttleKey,
+} from './login-throttle-store';
+
+const at = (minute: number) => new Date(Date.UTC(2026, 4, 10, 8, minute, 0));
+
+describe('shouldReset', () => {
+  const entry = (overrides: Partial<LoginThrottleEntry> = {}) => ({
+    key: 'admin:alice',
+    scope: 'admin' as const,
+    identifier: 'alice',
+    count: 3,
+    locked_until: null,
+    last_attempt_at: at(10),
+    ...overrides,
+  });
+
+  it('resets an unlocked entry only outside the window', () => {
+    expect(shouldReset(entry(), at(20), at(5))).toBe(false);
+    expect(shouldReset(entry(), at(30), at(15))).toBe(true);
+  });
+
+  it('resets a locked entry once the lock has expired', () => {
+    const locked = entry({ locked_until: at(25), last_attempt_at: at(0) });
+
+    expect(shouldReset(locked, at(20), at(15))).toBe(false);
+    expect(shouldReset(locked, at(25), at(15))).toBe(true);
+  });
+});
+
+describe('InMemoryLoginThrottleStore', () => {
+  const target = {
+    key: throttleKey('ip', '1.1.1.1'),
+    scope: 'ip' as const,
+    identifier: '1.1.1.1',
+  };
+  let store: InMemoryLoginThrottleStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: at(0) });
+    store = new InMemoryLoginThrottleStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('increments within the window and restarts outside it', async () => {
+    await store.increment(target, at(-15));
+    expect((await store.increment(target, at(-15))).count).toBe(2);
+
+    jest.setSystemTime(at(20));
+    expect((await store.increment(target, at(5))).count).toBe(1);
+  });
+
+  it('restarts the count once a lock has expired', async () => {
+    await store.increment(target, at(-15));
+    await store.lock(target.key, at(15));
+
+    jest.setSystemTime(at(10));
+    expect(await store.increment(target, at(-5))).toMatchObject({
+      count: 2,
+      locked_until: at(15),
+    });
+
+    jest.setSystemTime(at(15));
+    expect(await store.increment(target, at(0))).toMatchObject({
+      count: 1,
+      locked_until: null,
+    });
+  });
+
+  it('returns copies that callers cannot mutate', async () => {
+    const entry = await store.increment(target, at(-15));
+    entry.count = 99;
+
+    expect((await store.get(target.key))?.count).toBe(1);
+  });
+
+  it('deletes entries by key', async () => {
+    await store.increment(target, at(-15));
+    await store.delete(target.key);
+
+    expect(await store.get(target.key)).toBeNull();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('removes stale entries but keeps active locks', async () => {
+    const locked = { ...target, key: 'admin:alice', identifier: 'alice' };
+    await store.increment(target, at(-15));
+    await store.increment(locked, at(-15));
+    await store.lock(locked.key, at(30));
+
+    jest.setSystemTime(at(20));
+    expect(await store.deleteStale(at(10))).toBe(1);
+    expect((await store.list()).map((entry) => entry.key)).toEqual([
+      'admin:alice',
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { LoginThrottleScope } from '@prisma/client';
+
+export const LOGIN_THROTTLE_STORE = 'LOGIN_THROTTLE_STORE';
+
+export interface LoginThrottleTarget {
+  key: string;
+  scope: LoginThrottleScope;
+  identifier: string;
+}
+
+export interface LoginThrottleEntry extends LoginThrottleTarget {
+  count: number;
+  locked_until: Date | null;
+  last_attempt_at: Date;
+}
+
+export const throttleKey = (scope: LoginThrottleScope, identifier: string) =>
+  `${scope}:${identifier}`;
+
+/**
+ * 登录失败计数存储：默认存数据库，多实例共享且重启后保留
+ */
+export interface LoginThrottleStore {
+  get(key: string): Promise<LoginThrottleEntry | null>;
+  /**
+   * 失败次数加一；锁定已过期或最近一次失败早于 windowStart 时先清零
+   */
+  increment(
+    target: LoginThrottleTarget,
+    windowStart: Date,
+  ): Promise<LoginThrottleEntry>;
+  lock(key: string, lockedUntil: Date): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(): Promise<LoginThrottleEntry[]>;
+  /** 清理最近一次失败早于 before 且未锁定的记录 */
+  deleteStale(before: Date): Promise<number>;
+}
+
+// 是否需要重新计数：锁定已过期，或未锁定且最近一次失败在统计窗口之外
+export function shouldReset(
+  entry: LoginThrottleEntry,
+  now: Date,
+  windowStart: Date,
+): boolean {
+  if (entry.locked_until) {
+    return entry.locked_until <= now;
+  }
+  return entry.last_attempt_at < windowStart;
+}
+
+/**
+ * 进程内实现：单实例开发或测试时使用（LOGIN_THROTTLE_STORE=memory）
+ */
+export class InMemoryLoginThrottleStore implements LoginThrottleStore {
+  private readonly entries = new Map<string, LoginThrottleEntry>();
+
+  get(key: string): Promise<LoginThrottleEntry | null> {
+    const entry = this.entries.get(key);
+    return Promise.resolve(entry ? { ...entry } : null);
+  }
+
+  increment(
+    target: LoginThrottleTarget,
+    windowStart: Date,
+  ): Promise<LoginThrottleEntry> {
+    const now = new Date();
+    const existing = this.entries.get(target.key);
+    const entry: LoginThrottleEntry =
+      existing && !shouldReset(existing, now, windowStart)
+        ? { ...existing, count: existing.count + 1, last_attempt_at: now }
+        : { ...target, count: 1, locked_until: null, last_attempt_at: now };
+    this.entries.set(target.key, entry);
+    return Promise.resolve({ ...entry });
+  }
+
+  lock(key: string, lockedUntil: Date): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.locked_until = lockedUntil;
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  list(): Promise<LoginThrottleEntry[]> {
+    return Promise.resolve(
+      [...this.entries.values()].map((entry) => ({ ...entry })),
+    );
+  }
+
+  deleteStale(before: Date): Promise<number> {
+    const now = new Date();
+    let removed = 0;
+    for (const [key, entry] of this.entries.entries()) {
+      if (
+        (!entry.locked_until || entry.locked_until <= now) &&
+        entry.last_attempt_at < before
+      ) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return Promise.resolve(removed);
+  }
+}
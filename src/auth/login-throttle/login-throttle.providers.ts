@@ -0,0 +1,19 @@
+import { Provider } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  InMemoryLoginThrottleStore,
+  LOGIN_THROTTLE_STORE,
+} from './login-throttle-store';
+import { PrismaLoginThrottleStore } from './prisma-login-throttle-store';
+
+// 默认使用数据库存储；LOGIN_THROTTLE_STORE=memory 时使用进程内实现（仅适用于单实例）
+export const loginThrottleProviders: Provider[] = [
+  {
+    provide: LOGIN_THROTTLE_STORE,
+    useFactory: (prisma: PrismaService) =>
+      process.env.LOGIN_THROTTLE_STORE === 'memory'
+        ? new InMemoryLoginThrottleStore()
+        : new PrismaLoginThrottleStore(prisma),
+    inject: [PrismaService],
+  },
+];
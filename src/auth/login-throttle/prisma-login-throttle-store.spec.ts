@@ -0,0 +1,88 @@
+import { PrismaService } from '../../../prisma/prisma.service';
+import { PrismaLoginThrottleStore } from './prisma-login-throttle-store';
+
+describe('PrismaLoginThrottleStore', () => {
+  const now = new Date('2026-05-10T08:00:00Z');
+  const windowStart = new Date('2026-05-10T07:45:00Z');
+  const target = {
+    key: 'admin:alice',
+    scope: 'admin' as const,
+    identifier: 'alice',
+  };
+  const prisma = {
+    loginThrottle: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  const store = new PrismaLoginThrottleStore(
+    prisma as unknown as PrismaService,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('resets expired or out-of-window counts before incrementing', async () => {
+    prisma.loginThrottle.upsert.mockResolvedValue({ ...target, count: 1 });
+
+    await store.increment(target, windowStart);
+
+    expect(prisma.loginThrottle.updateMany).toHaveBeenCalledWith({
+      where: {
+        key: 'admin:alice',
+        OR: [
+          { locked_until: { lte: now } },
+          { locked_until: null, last_attempt_at: { lt: windowStart } },
+        ],
+      },
+      data: { count: 0, locked_until: null },
+    });
+    expect(prisma.loginThrottle.upsert).toHaveBeenCalledWith({
+      where: { key: 'admin:alice' },
+      create: { ...target, count: 1, last_attempt_at: now },
+      update: { count: { increment: 1 }, last_attempt_at: now },
+    });
+    const [resetOrder] =
+      prisma.loginThrottle.updateMany.mock.invocationCallOrder;
+    const [upsertOrder] = prisma.loginThrottle.upsert.mock.invocationCallOrder;
+    expect(resetOrder).toBeLessThan(upsertOrder);
+  });
+
+  it('locks and clears by key without failing on missing rows', async () => {
+    prisma.loginThrottle.updateMany.mockResolvedValue({ count: 0 });
+    prisma.loginThrottle.deleteMany.mockResolvedValue({ count: 0 });
+    const lockedUntil = new Date('2026-05-10T08:15:00Z');
+
+    await store.lock('admin:alice', lockedUntil);
+    await store.delete('admin:alice');
+
+    expect(prisma.loginThrottle.updateMany).toHaveBeenCalledWith({
+      where: { key: 'admin:alice' },
+      data: { locked_until: lockedUntil },
+    });
+    expect(prisma.loginThrottle.deleteMany).toHaveBeenCalledWith({
+      where: { key: 'admin:alice' },
+    });
+  });
+
+  it('only deletes stale entries that are not locked', async () => {
+    prisma.loginThrottle.deleteMany.mockResolvedValue({ count: 3 });
+
+    await expect(store.deleteStale(windowStart)).resolves.toBe(3);
+    expect(prisma.loginThrottle.deleteMany).toHaveBeenCalledWith({
+      where: {
+        last_attempt_at: { lt: windowStart },
+        OR: [{ locked_until: null }, { locked_until: { lte: now } }],
+      },
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  LoginThrottleEntry,
+  LoginThrottleStore,
+  LoginThrottleTarget,
+} from './login-throttle-store';
+
+/**
+ * 基于数据库的实现：计数用原子自增，避免多实例并发时丢失失败次数
+ */
+export class PrismaLoginThrottleStore implements LoginThrottleStore {
+  constructor(private readonly prisma: PrismaService) {}
+
+  get(key: string): Promise<LoginThrottleEntry | null> {
+    return this.prisma.loginThrottle.findUnique({ where: { key } });
+  }
+
+  async increment(
+    target: LoginThrottleTarget,
+    windowStart: Date,
+  ): Promise<LoginThrottleEntry> {
+    const now = new Date();
+    // 锁定已过期或超出统计窗口的记录先清零
+    await this.prisma.loginThrottle.updateMany({
+      where: {
+        key: target.key,
+        OR: [
+          { locked_until: { lte: now } },
+          { locked_until: null, last_attempt_at: { lt: windowStart } },
+        ],
+      },
+      data: { count: 0, locked_until: null },
+    });
+    return this.prisma.loginThrottle.upsert({
+      where: { key: target.key },
+      create: { ...target, count: 1, last_attempt_at: now },
+      update: { count: { increment: 1 }, last_attempt_at: now },
+    });
+  }
+
+  async lock(key: string, lockedUntil: Date): Promise<void> {
+    await this.prisma.loginThrottle.updateMany({
+      where: { key },
+      data: { locked_until: lockedUntil },
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.prisma.loginThrottle.deleteMany({ where: { key } });
+  }
+
+  list(): Promise<LoginThrottleEntry[]> {
+    return this.prisma.loginThrottle.findMany({
+      orderBy: { last_attempt_at: 'desc' },
+    });
+  }
+
+  async deleteStale(before: Date): Promise<number> {
+    const result = await this.prisma.loginThrottle.deleteMany({
+      where: {
+        last_attempt_at: { lt: before },
+        OR: [{ locked_until: null }, { locked_until: { lte: new Date() } }],
+      },
+    });
+    return result.count;
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotp,
+  totpCounter,
+  verifyTotp,
+} from './totp';
+
+// RFC 6238 附录 B 的 SHA1 测试密钥 "12345678901234567890"
+const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('matches the RFC 6238 SHA1 test vectors', () => {
+    expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(rfcSecret).toString()).toBe('12345678901234567890');
+
+    const vectors: [number, string][] = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+      [20000000000, '65353130'],
+    ];
+    for (const [seconds, code] of vectors) {
+      expect(generateTotp(rfcSecret, seconds * 1000, 8)).toBe(code);
+    }
+  });
+
+  it('accepts codes within one step of clock drift and returns the counter', () => {
+    const now = 1700000000000;
+    const previous = generateTotp(rfcSecret, now - 30 * 1000);
+
+    expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, now), now)).toBe(
+      totpCounter(now),
+    );
+    expect(verifyTotp(rfcSecret, previous, now)).toBe(totpCounter(now) - 1);
+    expect(
+      verifyTotp(rfcSecret, generateTotp(rfcSecret, now - 90 * 1000), now),
+    ).toBeNull();
+    expect(verifyTotp(rfcSecret, '12345', now)).toBeNull();
+  });
+
+  it('builds an otpauth provisioning uri', () => {
+    expect(buildOtpAuthUri('LIMS', 'admin', rfcSecret)).toBe(
+      'otpauth://totp/LIMS%3Aadmin?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=LIMS&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { Body, Controller, Get, Post, UseGuards } from '@nestjs/common';
+import { AuthGuard } from './auth.guard';
+import { CurrentUser } from './current-user.decorator';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { ResponseHelper } from 'src/common/response-helper';
+import { ApiResponseDto } from 'src/common/dto/api-response.dto';
+
+@Controller('auth/2fa')
+@UseGuards(AuthGuard)
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Get()
+  async getStatus(
+    @CurrentUser() user: { id: number },
+  ): Promise<ApiResponseDto> {
+    const status = await this.twoFactorService.getStatus(user.id);
+    return ResponseHelper.success(status, '获取两步验证状态成功');
+  }
+
+  /**
+   * 获取绑定密钥和 otpauth 链接（前端据此生成二维码）
+   * POST /auth/2fa/setup
+   */
+  @Post('setup')
+  async setup(@CurrentUser() user: { id: number }): Promise<ApiResponseDto> {
+    const data = await this.twoFactorService.setup(user.id);
+    return ResponseHelper.success(data, '获取绑定密钥成功');
+  }
+
+  @Post('enable')
+  async enable(
+    @CurrentUser() user: { id: number },
+    @Body() body: TwoFactorCodeDto,
+  ): Promise<ApiResponseDto> {
+    const recoveryCodes = await this.twoFactorService.enable(
+      user.id,
+      body.code,
+    );
+    return ResponseHelper.success(
+      { recovery_codes: recoveryCodes },
+      '两步验证已启用，请妥善保存恢复码',
+    );
+  }
+
+  @Post('disable')
+  async disable(
+    @CurrentUser() user: { id: number },
+    @Body() body: TwoFactorCodeDto,
+  ): Promise<ApiResponseDto> {
+    await this.twoFactorService.disable(user.id, body.code);
+    return ResponseHelper.success(null, '两步验证已关闭');
+  }
+
+  @Post('recovery-codes')
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: { id: number },
+    @Body() body: TwoFactorCodeDto,
+  ): Promise<ApiResponseDto> {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+      user.id,
+      body.code,
+    );
+    return ResponseHelper.success(
+      { recovery_codes: recoveryCodes },
+      '恢复码已重新生成',
+    );
+  }
+}
@@ -0,0 +1,244 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  buildOtpAuthUri,
+  generateTotpSecret,
+  TOTP_DIGITS,
+  verifyTotp,
+} from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * 解析强制两步验证的角色配置，如 "ADMIN,FINANCIAL"
+ */
+export function parseRequiredRoles(value?: string): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((role) => role.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+/**
+ * 管理端两步验证（TOTP）
+ *
+ * 绑定流程：setup 生成待确认密钥和 otpauth 链接 → enable 校验口令后启用并返回恢复码。
+ * 登录时可使用验证器口令或一次性恢复码。
+ */
+@Injectable()
+export class TwoFactorService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  private get issuer(): string {
+    return process.env.TWO_FACTOR_ISSUER || 'LIMS';
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return createHash('sha256')
+      .update(code.replace(/[\s-]/g, '').toLowerCase())
+      .digest('hex');
+  }
+
+  private async findAdmin(adminId: number) {
+    const admin = await this.prisma.admin.findUnique({
+      where: { id: adminId },
+    });
+    if (!admin) {
+      throw new NotFoundException('管理员不存在');
+    }
+    return admin;
+  }
+
+  // 该角色是否必须启用两步验证（TWO_FACTOR_REQUIRED_ROLES）
+  isRequiredForRole(role: string): boolean {
+    return parseRequiredRoles(process.env.TWO_FACTOR_REQUIRED_ROLES).includes(
+      role,
+    );
+  }
+
+  async getStatus(adminId: number) {
+    const admin = await this.findAdmin(adminId);
+    const recoveryCodesRemaining = await this.prisma.adminRecoveryCode.count({
+      where: { admin_id: adminId, used_at: null },
+    });
+    return {
+      enabled: admin.two_factor_enabled,
+      enabled_at: admin.two_factor_enabled_at,
+      required: this.isRequiredForRole(admin.role),
+      recovery_codes_remaining: recoveryCodesRemaining,
+    };
+  }
+
+  /**
+   * 生成待确认的密钥，返回手动输入用的密钥和扫码用的 otpauth 链接
+   */
+  async setup(adminId: number) {
+    const admin = await this.findAdmin(adminId);
+    if (admin.two_factor_enabled) {
+      throw new BadRequestException('两步验证已启用，请先关闭后再重新绑定');
+    }
+    const secret = generateTotpSecret();
+    await this.prisma.admin.update({
+      where: { id: adminId },
+      data: { two_factor_pending_secret: secret },
+    });
+    return {
+      secret,
+      otpauth_uri: buildOtpAuthUri(this.issuer, admin.username, secret),
+    };
+  }
+
+  /**
+   * 校验待确认密钥的口令后启用两步验证，返回恢复码（仅展示一次）
+   */
+  async enable(adminId: number, code: string): Promise<string[]> {
+    const admin = await this.findAdmin(adminId);
+    if (admin.two_factor_enabled) {
+      throw new BadRequestException('两步验证已启用');
+    }
+    if (!admin.two_factor_pending_secret) {
+      throw new BadRequestException('请先获取绑定密钥');
+    }
+    const counter = verifyTotp(admin.two_factor_pending_secret, code);
+    if (counter === null) {
+      throw new UnauthorizedException('验证码错误');
+    }
+
+    const codes = this.generateRecoveryCodes();
+    await this.prisma.$transaction([
+      this.prisma.admin.update({
+        where: { id: adminId },
+        data: {
+          two_factor_enabled: true,
+          two_factor_secret: admin.two_factor_pending_secret,
+          two_factor_pending_secret: null,
+          two_factor_last_counter: counter,
+          two_factor_enabled_at: new Date(),
+        },
+      }),
+      this.prisma.adminRecoveryCode.deleteMany({
+        where: { admin_id: adminId },
+      }),
+      this.prisma.adminRecoveryCode.createMany({
+        data: codes.map((c) => ({
+          admin_id: adminId,
+          code_hash: this.hashRecoveryCode(c),
+        })),
+      }),
+    ]);
+    return codes;
+  }
+
+  /**
+   * 关闭两步验证（需校验口令或恢复码），强制启用的角色不允许关闭
+   */
+  async disable(adminId: number, code: string): Promise<void> {
+    const admin = await this.findAdmin(adminId);
+    if (!admin.two_factor_enabled) {
+      throw new BadRequestException('两步验证未启用');
+    }
+    if (this.isRequiredForRole(admin.role)) {
+      throw new BadRequestException('当前角色必须启用两步验证');
+    }
+    if (!(await this.verify(adminId, code))) {
+      throw new UnauthorizedException('验证码错误');
+    }
+    await this.prisma.$transaction([
+      this.prisma.admin.update({
+        where: { id: adminId },
+        data: {
+          two_factor_enabled: false,
+          two_factor_secret: null,
+          two_factor_pending_secret: null,
+          two_factor_last_counter: null,
+          two_factor_enabled_at: null,
+        },
+      }),
+      this.prisma.adminRecoveryCode.deleteMany({
+        where: { admin_id: adminId },
+      }),
+    ]);
+  }
+
+  /**
+   * 重新生成恢复码（需校验口令），旧恢复码全部作废
+   */
+  async regenerateRecoveryCodes(
+    adminId: number,
+    code: string,
+  ): Promise<string[]> {
+    const admin = await this.findAdmin(adminId);
+    if (!admin.two_factor_enabled) {
+      throw new BadRequestException('两步验证未启用');
+    }
+    if (!(await this.verify(adminId, code))) {
+      throw new UnauthorizedException('验证码错误');
+    }
+    const codes = this.generateRecoveryCodes();
+    await this.prisma.$transaction([
+      this.prisma.adminRecoveryCode.deleteMany({
+        where: { admin_id: adminId },
+      }),
+      this.prisma.adminRecoveryCode.createMany({
+        data: codes.map((c) => ({
+          admin_id: adminId,
+          code_hash: this.hashRecoveryCode(c),
+        })),
+      }),
+    ]);
+    return codes;
+  }
+
+  /**
+   * 校验验证器口令或恢复码；口令不可重复使用，恢复码使用后作废
+   */
+  async verify(adminId: number, code: string): Promise<boolean> {
+    const admin = await this.findAdmin(adminId);
+    if (!admin.two_factor_enabled || !admin.two_factor_secret || !code) {
+      return false;
+    }
+
+    const normalized = code.replace(/\s/g, '');
+    if (new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+      const counter = verifyTotp(admin.two_factor_secret, normalized);
+      if (counter === null) {
+        return false;
+      }
+      const result = await this.prisma.admin.updateMany({
+        where: {
+          id: adminId,
+          OR: [
+            { two_factor_last_counter: null },
+            { two_factor_last_counter: { lt: counter } },
+          ],
+        },
+        data: { two_factor_last_counter: counter },
+      });
+      return result.count === 1;
+    }
+
+    const result = await this.prisma.adminRecoveryCode.updateMany({
+      where: {
+        admin_id: adminId,
+        code_hash: this.hashRecoveryCode(normalized),
+        used_at: null,
+      },
+      data: { used_at: new Date() },
+    });
+    return result.count === 1;
+  }
+
+  // 恢复码格式：xxxxx-xxxxx（十六进制）
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }).map(() => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ManagementRoles } from '@prisma/client';
+import { BusinessCalendarService } from './business-calendar.service';
+import { CreateHolidayDto } from './dto/create-holiday.dto';
+import { AuthGuard } from '../auth/auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { ApiResponseDto } from '../common/dto/api-response.dto';
+import { ResponseHelper } from '../common/response-helper';
+
+@Controller('business-calendar')
+@UseGuards(AuthGuard, RolesGuard)
+export class BusinessCalendarController {
+  constructor(
+    private readonly businessCalendarService: BusinessCalendarService,
+  ) {}
+
+  /**
+   * 查询节假日列表
+   * GET /business-calendar/holidays?from=YYYY-MM-DD&to=YYYY-MM-DD
+   */
+  @Get('holidays')
+  @Roles(
+    ManagementRoles.ADMIN,
+    ManagementRoles.FINANCIAL,
+    ManagementRoles.COLLECTOR,
+    ManagementRoles.RISK_CONTROLLER,
+  )
+  async list(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<ApiResponseDto> {
+    const holidays = await this.businessCalendarService.list(from, to);
+    return ResponseHelper.success(holidays, '获取节假日成功');
+  }
+
+  @Post('holidays')
+  @Roles(ManagementRoles.ADMIN)
+  async create(
+    @CurrentUser() user: { id: number },
+    @Body() body: CreateHolidayDto,
+  ): Promise<ApiResponseDto> {
+    const holidays = await this.businessCalendarService.create(body, user.id);
+    return ResponseHelper.success(holidays, '添加节假日成功');
+  }
+
+  @Delete('holidays/:id')
+  @Roles(ManagementRoles.ADMIN)
+  async remove(@Param('id', ParseIntPipe) id: number): Promise<ApiResponseDto> {
+    await this.businessCalendarService.remove(id);
+    return ResponseHelper.success(null, '删除节假日成功');
+  }
+}
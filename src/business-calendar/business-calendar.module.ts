@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { BusinessCalendarController } from './business-calendar.controller';
+import { BusinessCalendarService } from './business-calendar.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [BusinessCalendarController],
+  providers: [BusinessCalendarService],
+  exports: [BusinessCalendarService],
+})
+export class BusinessCalendarModule {}
@@ -0,0 +1,131 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CreateHolidayDto } from './dto/create-holiday.dto';
+import { toDateKey } from '../loanAccounts/schedule-generator';
+
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * 节假日（非收款日）日历
+ * 日期统一按 UTC 零点的 date-only 值存储和比较
+ */
+@Injectable()
+export class BusinessCalendarService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  private parseDate(value: string): Date {
+    const [y, m, d] = value.split('T')[0].split('-').map(Number);
+    const date = new Date(Date.UTC(y, m - 1, d));
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`无效的日期: ${value}`);
+    }
+    return date;
+  }
+
+  private toDateOnly(date: Date): Date {
+    return new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+  }
+
+  async list(from?: string, to?: string) {
+    return this.prisma.businessHoliday.findMany({
+      where: {
+        date: {
+          ...(from ? { gte: this.parseDate(from) } : {}),
+          ...(to ? { lte: this.parseDate(to) } : {}),
+        },
+      },
+      orderBy: { date: 'asc' },
+    });
+  }
+
+  /**
+   * 添加节假日，指定 end_date 时按天展开；已存在的日期更新名称
+   */
+  async create(data: CreateHolidayDto, createdBy: number) {
+    const start = this.parseDate(data.date);
+    const end = data.end_date ? this.parseDate(data.end_date) : start;
+    if (end < start) {
+      throw new BadRequestException('结束日期不能早于开始日期');
+    }
+    const days = Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+    if (days > MAX_RANGE_DAYS) {
+      throw new BadRequestException(`单次最多添加 ${MAX_RANGE_DAYS} 天`);
+    }
+
+    const dates = Array.from(
+      { length: days },
+      (_, idx) =>
+        new Date(
+          Date.UTC(
+            start.getUTCFullYear(),
+            start.getUTCMonth(),
+            start.getUTCDate() + idx,
+          ),
+        ),
+    );
+
+    return this.prisma.$transaction(
+      dates.map((date) =>
+        this.prisma.businessHoliday.upsert({
+          where: { date },
+          update: { name: data.name },
+          create: { date, name: data.name, created_by: createdBy },
+        }),
+      ),
+    );
+  }
+
+  async remove(id: number) {
+    const holiday = await this.prisma.businessHoliday.findUnique({
+      where: { id },
+    });
+    if (!holiday) {
+      throw new NotFoundException('节假日不存在');
+    }
+    await this.prisma.businessHoliday.delete({ where: { id } });
+  }
+
+  /**
+   * 获取日期范围内的节假日集合（YYYY-MM-DD），供还款计划生成使用
+   */
+  async getHolidayKeys(from?: Date, to?: Date): Promise<Set<string>> {
+    const rows = await this.prisma.businessHoliday.findMany({
+      where: {
+        date: {
+          ...(from ? { gte: this.toDateOnly(from) } : {}),
+          ...(to ? { lte: this.toDateOnly(to) } : {}),
+        },
+      },
+      select: { date: true },
+    });
+    return new Set(rows.map((row) => toDateKey(row.date)));
+  }
+
+  async isBusinessDay(date: Date): Promise<boolean> {
+    const holiday = await this.prisma.businessHoliday.findUnique({
+      where: { date: this.toDateOnly(date) },
+    });
+    return !holiday;
+  }
+
+  /**
+   * 不晚于指定日期的最近一个收款日
+   */
+  async latestBusinessDayOnOrBefore(date: Date): Promise<Date> {
+    const end = this.toDateOnly(date);
+    const start = new Date(end.getTime() - MAX_RANGE_DAYS * 86400000);
+    const holidays = await this.getHolidayKeys(start, end);
+
+    const cursor = new Date(end);
+    while (holidays.has(toDateKey(cursor)) && cursor > start) {
+      cursor.setUTCDate(cursor.getUTCDate() - 1);
+    }
+    return cursor;
+  }
+}
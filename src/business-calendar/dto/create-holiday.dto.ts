@@ -0,0 +1,22 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateHolidayDto {
+  @IsDateString()
+  date: string;
+
+  // 结束日期（含），用于一次添加连续多天的假期
+  @IsDateString()
+  @IsOptional()
+  end_date?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+}
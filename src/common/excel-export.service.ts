@@ -32,6 +32,9 @@ export interface AdminReportDetailRow {
   riskControllerName: string;
   paidPeriods?: number;
   totalPeriods?: number;
+  creditBalance?: number;
+  payoffAmount?: number;
+  cashToHand?: number;
   repaymentSchedules: Array<{
     dueDate: Date;
     principal: number;
@@ -250,6 +253,9 @@ export class ExcelExportService {
       '期数',
       '风控人',
       '负责人',
+      '溢缴余额',
+      '续贷抵扣',
+      '实际到手',
     ];
     const baseColumnConfigs: Partial<ExcelJS.Column>[] = [
       { header: baseHeaders[0], key: 'seq', width: 6 },
@@ -324,6 +330,24 @@ export class ExcelExportService {
       },
       { header: baseHeaders[16], key: 'riskControllerName', width: 16 },
       { header: baseHeaders[17], key: 'collectorName', width: 16 },
+      {
+        header: baseHeaders[18],
+        key: 'creditBalance',
+        width: 14,
+        style: { numFmt: '#,##0.00' },
+      },
+      {
+        header: baseHeaders[19],
+        key: 'payoffAmount',
+        width: 14,
+        style: { numFmt: '#,##0.00' },
+      },
+      {
+        header: baseHeaders[20],
+        key: 'cashToHand',
+        width: 14,
+        style: { numFmt: '#,##0.00' },
+      },
     ];
     const baseColumnCount = baseColumnConfigs.length;
 
@@ -413,6 +437,9 @@ export class ExcelExportService {
         commission: 0,
         handlingFee: 0,
         profit: 0,
+        creditBalance: 0,
+        payoffAmount: 0,
+        cashToHand: 0,
       };
       const dateTotals = new Map<
         string,
@@ -455,6 +482,9 @@ export class ExcelExportService {
           '', // 期数列将在后面单独处理
           row.riskControllerName,
           row.collectorName,
+          row.creditBalance ?? 0,
+          row.payoffAmount ?? 0,
+          row.cashToHand ?? row.loanAmount,
         ];
 
         for (let i = 0; i < baseColumnCount; i += 1) {
@@ -517,6 +547,9 @@ export class ExcelExportService {
         totals.commission += row.commission;
         totals.handlingFee += row.handlingFee;
         totals.profit += row.profit;
+        totals.creditBalance += row.creditBalance ?? 0;
+        totals.payoffAmount += row.payoffAmount ?? 0;
+        totals.cashToHand += row.cashToHand ?? row.loanAmount;
 
         currentRow += 2;
       });
@@ -542,6 +575,9 @@ export class ExcelExportService {
         '', // 期数列将在后面单独处理
         '',
         '',
+        totals.creditBalance,
+        totals.payoffAmount,
+        totals.cashToHand,
       ];
 
       for (let i = 0; i < baseColumnCount; i += 1) {
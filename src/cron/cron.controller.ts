@@ -12,6 +12,8 @@ import { ManagementRoles } from '@prisma/client';
 import { OverdueService } from './overdue.service';
 import { ScheduleStatusService } from './schedule-status.service';
 import { StatisticsCronService } from './statistics.service';
+import { PayeeLimitResetService } from './payee-limit-reset.service';
+import { CustomerScoringCronService } from './customer-scoring.service';
 import { ResponseHelper } from '../common/response-helper';
 import { ApiResponseDto } from '../common/dto/api-response.dto';
 
@@ -23,6 +25,8 @@ export class CronController {
     private readonly overdueService: OverdueService,
     private readonly scheduleStatusService: ScheduleStatusService,
     private readonly statisticsCronService: StatisticsCronService,
+    private readonly payeeLimitResetService: PayeeLimitResetService,
+    private readonly customerScoringCronService: CustomerScoringCronService,
   ) {}
 
   /**
@@ -60,4 +64,58 @@ export class CronController {
       );
     }
   }
+
+  /**
+   * 手动触发收款人剩余额度重置任务（同一业务日内不会重复重置）
+   * POST /cron/trigger/payee-limit-reset
+   */
+  @Post('trigger/payee-limit-reset')
+  @HttpCode(HttpStatus.OK)
+  async triggerPayeeLimitReset(): Promise<ApiResponseDto> {
+    try {
+      await this.payeeLimitResetService.resetPayeeLimits();
+      return ResponseHelper.success(null, '收款人额度重置任务执行成功');
+    } catch (error: any) {
+      return ResponseHelper.error(
+        `收款人额度重置任务执行失败: ${error.message}`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * 手动触发客户评分任务
+   * POST /cron/trigger/customer-scoring
+   */
+  @Post('trigger/customer-scoring')
+  @HttpCode(HttpStatus.OK)
+  async triggerCustomerScoring(): Promise<ApiResponseDto> {
+    try {
+      await this.customerScoringCronService.rescoreCustomers();
+      return ResponseHelper.success(null, '客户评分任务执行成功');
+    } catch (error: any) {
+      return ResponseHelper.error(
+        `客户评分任务执行失败: ${error.message}`,
+        500,
+      );
+    }
+  }
+
+  /**
+   * 手动触发罚金计提（补齐上次计提之后的日期，同一期同一天只计提一次）
+   * POST /cron/trigger/fines
+   */
+  @Post('trigger/fines')
+  @HttpCode(HttpStatus.OK)
+  async triggerFines(): Promise<ApiResponseDto> {
+    try {
+      const summaries = await this.scheduleStatusService.accrueFines();
+      return ResponseHelper.success(summaries, '罚金计提任务执行成功');
+    } catch (error: any) {
+      return ResponseHelper.error(
+        `罚金计提任务执行失败: ${error.message}`,
+        500,
+      );
+    }
+  }
 }
@@ -7,14 +7,36 @@ import { StatisticsModule } from '../statistics/statistics.module';
 import { CronController } from './cron.controller';
 import { EmailResetService } from './email-reset.service';
 import { EmailConfigModule } from '../email-config/email-config.module';
+import { EventsModule } from '../events/events.module';
+import { OrderExpiryService } from './order-expiry.service';
+import { PayeeLimitModule } from '../payee-limit/payee-limit.module';
+import { PayeeLimitResetService } from './payee-limit-reset.service';
+import { OrderEventsModule } from '../order-events/order-events.module';
+import { CustomerScoringModule } from '../customer-scoring/customer-scoring.module';
+import { CustomerScoringCronService } from './customer-scoring.service';
+import { BusinessCalendarModule } from '../business-calendar/business-calendar.module';
+import { FinesModule } from '../fines/fines.module';
 
 @Module({
-  imports: [PrismaModule, StatisticsModule, EmailConfigModule],
+  imports: [
+    PrismaModule,
+    StatisticsModule,
+    EmailConfigModule,
+    EventsModule,
+    PayeeLimitModule,
+    OrderEventsModule,
+    CustomerScoringModule,
+    BusinessCalendarModule,
+    FinesModule,
+  ],
   providers: [
     ScheduleStatusService,
     OverdueService,
     StatisticsCronService,
     EmailResetService,
+    OrderExpiryService,
+    PayeeLimitResetService,
+    CustomerScoringCronService,
   ],
   controllers: [CronController],
 })
@@ -0,0 +1,26 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { CustomerScoringService } from '../customer-scoring/customer-scoring.service';
+
+@Injectable()
+export class CustomerScoringCronService {
+  private readonly logger = new Logger(CustomerScoringCronService.name);
+
+  constructor(
+    private readonly customerScoringService: CustomerScoringService,
+  ) {}
+
+  // 每天 06:30（逾期记录生成之后）重新计算客户等级与高风险标记
+  @Cron('30 6 * * *')
+  async rescoreCustomers() {
+    this.logger.log('🕕 开始执行客户评分任务');
+
+    try {
+      const { total, changed } =
+        await this.customerScoringService.scoreAllUsers();
+      this.logger.log(`✅ 已评估 ${total} 个客户，${changed} 个客户评分有变化`);
+    } catch (error) {
+      this.logger.error('❌ 客户评分任务失败:', error);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { PrismaService } from '../../prisma/prisma.service';
+import { EventsService } from '../events/events.service';
+import { OrderEventsService } from '../order-events/order-events.service';
+import { PayeeLimitService } from '../payee-limit/payee-limit.service';
+import { OrderExpiryService } from './order-expiry.service';
+
+describe('OrderExpiryService.releaseUnreviewedOrders', () => {
+  const grabbedAt = new Date(Date.now() - 2 * 60 * 60 * 1000);
+  const tx = { order: { findMany: jest.fn(), updateMany: jest.fn() } };
+  const prisma = {
+    ...tx,
+    $transaction: jest.fn((fn: (client: unknown) => unknown) => fn(tx)),
+  };
+  const eventsService = { notifyReviewTimeout: jest.fn() };
+  const payeeLimitService = { restore: jest.fn() };
+  const orderEventsService = { record: jest.fn() };
+  const service = new OrderExpiryService(
+    prisma as unknown as PrismaService,
+    eventsService as unknown as EventsService,
+    payeeLimitService as unknown as PayeeLimitService,
+    orderEventsService as unknown as OrderEventsService,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tx.order.findMany.mockResolvedValue([
+      { id: 'o1', payee_id: 7, amount: 500, grabbed_at: grabbedAt },
+    ]);
+  });
+
+  it('releases the limit without moving the order out of review', async () => {
+    tx.order.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.releaseUnreviewedOrders()).resolves.toBe(1);
+
+    const [{ where, data }] = tx.order.updateMany.mock.calls[0] as [
+      { where: Record<string, unknown>; data: Record<string, unknown> },
+    ];
+    expect(where).toMatchObject({
+      id: 'o1',
+      status: 'grabbed',
+      review_status: 'pending_review',
+      limit_released_at: null,
+    });
+    expect(Object.keys(data)).toEqual(['limit_released_at']);
+    expect(payeeLimitService.restore).toHaveBeenCalledWith(
+      tx,
+      7,
+      500,
+      'o1',
+      grabbedAt,
+      '审核超时释放',
+    );
+    expect(eventsService.notifyReviewTimeout).toHaveBeenCalledWith(7, {
+      id: 'o1',
+      amount: 500,
+    });
+  });
+
+  it('skips orders released or reviewed in the meantime', async () => {
+    tx.order.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.releaseUnreviewedOrders()).resolves.toBe(0);
+
+    expect(payeeLimitService.restore).not.toHaveBeenCalled();
+    expect(eventsService.notifyReviewTimeout).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,137 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EventsService } from '../events/events.service';
+import { PayeeLimitService } from '../payee-limit/payee-limit.service';
+import { OrderEventsService } from '../order-events/order-events.service';
+
+@Injectable()
+export class OrderExpiryService {
+  private readonly logger = new Logger(OrderExpiryService.name);
+  // 已抢订单的审核超时时间（分钟），超时后释放收款人的预留额度
+  private readonly reviewTimeoutMinutes =
+    Number(process.env.ORDER_REVIEW_TIMEOUT_MINUTES) || 60;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventsService: EventsService,
+    private readonly payeeLimitService: PayeeLimitService,
+    private readonly orderEventsService: OrderEventsService,
+  ) {}
+
+  // 每30秒扫描一次过期订单
+  @Cron('*/30 * * * * *')
+  async sweepOrders() {
+    try {
+      await this.expirePendingOrders();
+      await this.releaseUnreviewedOrders();
+    } catch (error) {
+      this.logger.error('❌ 订单过期扫描失败:', error);
+    }
+  }
+
+  /**
+   * 将超过 expires_at 仍未被抢的订单标记为过期
+   */
+  async expirePendingOrders(): Promise<number> {
+    const now = new Date();
+    const staleOrders = await this.prisma.order.findMany({
+      where: { status: 'pending', expires_at: { lte: now } },
+      select: { id: true, customer_id: true },
+    });
+
+    let expiredCount = 0;
+    for (const order of staleOrders) {
+      // 条件更新：仅当订单仍是 pending 时才过期，避免与抢单并发冲突
+      const { count } = await this.prisma.order.updateMany({
+        where: { id: order.id, status: 'pending' },
+        data: { status: 'expired' },
+      });
+      if (count === 0) continue;
+
+      expiredCount++;
+      this.eventsService.notifyOrderExpired(order);
+      await this.orderEventsService.record({
+        orderId: order.id,
+        type: 'expired',
+        remark: '超时未被抢单',
+      });
+    }
+
+    if (expiredCount > 0) {
+      this.logger.log(`⏰ 已过期 ${expiredCount} 个未被抢的订单`);
+    }
+    return expiredCount;
+  }
+
+  /**
+   * 已抢但超时未审核的订单：释放收款人的预留额度并通知
+   * 订单保持 grabbed / pending_review，客户已付款时收款人仍可审核入账
+   */
+  async releaseUnreviewedOrders(): Promise<number> {
+    const deadline = new Date(
+      Date.now() - this.reviewTimeoutMinutes * 60 * 1000,
+    );
+    const staleOrders = await this.prisma.order.findMany({
+      where: {
+        status: 'grabbed',
+        review_status: 'pending_review',
+        payee_id: { not: null },
+        grabbed_at: { lte: deadline },
+        limit_released_at: null,
+      },
+      select: { id: true, payee_id: true, amount: true, grabbed_at: true },
+    });
+
+    let releasedCount = 0;
+    for (const order of staleOrders) {
+      const payeeId = order.payee_id as number;
+      const amount = Number(order.amount);
+
+      const released = await this.prisma.$transaction(async (tx) => {
+        // 条件更新：仅释放一次，且不改变订单状态
+        const { count } = await tx.order.updateMany({
+          where: {
+            id: order.id,
+            status: 'grabbed',
+            review_status: 'pending_review',
+            limit_released_at: null,
+          },
+          data: { limit_released_at: new Date() },
+        });
+        if (count === 0) return false;
+
+        await this.payeeLimitService.restore(
+          tx,
+          payeeId,
+          amount,
+          order.id,
+          order.grabbed_at,
+          '审核超时释放',
+        );
+        return true;
+      });
+      if (!released) continue;
+
+      releasedCount++;
+      await this.orderEventsService.record({
+        orderId: order.id,
+        type: 'review_timeout',
+        payeeId,
+        detail: { amount, timeout_minutes: this.reviewTimeoutMinutes },
+        remark: '超时未审核，已释放收款人额度',
+      });
+      this.eventsService.notifyReviewTimeout(payeeId, {
+        id: order.id,
+        amount,
+      });
+    }
+
+    if (releasedCount > 0) {
+      this.logger.log(
+        `⏰ 已释放 ${releasedCount} 个超时未审核订单的收款人额度`,
+      );
+    }
+    return releasedCount;
+  }
+}
@@ -1,16 +1,30 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron } from '@nestjs/schedule';
 import { PrismaService } from '../../prisma/prisma.service';
+import { BusinessCalendarService } from '../business-calendar/business-calendar.service';
 
 @Injectable()
 export class OverdueService {
   private readonly logger = new Logger(OverdueService.name);
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly businessCalendarService: BusinessCalendarService,
+  ) {}
 
   // 每天 06:05 生成 OverdueRecord（schedule_id 去重）
   @Cron('5 6 * * *')
   async generateDailyOverdueRecords() {
     const today = new Date();
+    // 节假日不生成逾期记录
+    const isBusinessDay = await this.businessCalendarService.isBusinessDay(
+      new Date(
+        Date.UTC(today.getFullYear(), today.getMonth(), today.getDate()),
+      ),
+    );
+    if (!isBusinessDay) {
+      this.logger.log('Today is a holiday, skip overdue records');
+      return;
+    }
     today.setHours(6, 0, 0, 0);
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
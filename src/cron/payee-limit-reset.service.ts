@@ -0,0 +1,28 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { PayeeLimitService } from '../payee-limit/payee-limit.service';
+
+@Injectable()
+export class PayeeLimitResetService implements OnModuleInit {
+  private readonly logger = new Logger(PayeeLimitResetService.name);
+
+  constructor(private readonly payeeLimitService: PayeeLimitService) {}
+
+  // 程序启动时补执行一次（同一业务日内不会重复重置）
+  async onModuleInit() {
+    await this.resetPayeeLimits();
+  }
+
+  // 业务日从 00:00 开始，每天00:00重置收款人剩余额度
+  @Cron('0 0 * * *')
+  async resetPayeeLimits() {
+    this.logger.log('🕕 开始执行收款人剩余额度重置任务');
+
+    try {
+      const count = await this.payeeLimitService.resetDailyLimits();
+      this.logger.log(`✅ 已重置 ${count} 个收款人的剩余额度`);
+    } catch (error) {
+      this.logger.error('❌ 重置收款人剩余额度失败:', error);
+    }
+  }
+}
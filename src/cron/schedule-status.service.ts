@@ -2,11 +2,17 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { Cron } from '@nestjs/schedule';
 import { PrismaService } from '../../prisma/prisma.service';
 import { RepaymentScheduleStatus } from '@prisma/client';
+import { BusinessCalendarService } from '../business-calendar/business-calendar.service';
+import { FinesService } from '../fines/fines.service';
 
 @Injectable()
 export class ScheduleStatusService implements OnModuleInit {
   private readonly logger = new Logger(ScheduleStatusService.name);
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly businessCalendarService: BusinessCalendarService,
+    private readonly finesService: FinesService,
+  ) {}
 
   // 程序启动时执行一次检查
   async onModuleInit() {
@@ -38,6 +44,13 @@ export class ScheduleStatusService implements OnModuleInit {
     const yesterdayStart = new Date(todayStart);
     yesterdayStart.setUTCDate(yesterdayStart.getUTCDate() - 1);
 
+    // 节假日不催收：到期日落在节假日的计划顺延到下一个收款日结束后才算逾期，
+    // 因此截止日取不晚于昨天的最近一个收款日
+    const overdueCutoff =
+      await this.businessCalendarService.latestBusinessDayOnOrBefore(
+        yesterdayStart,
+      );
+
     // 1. 首先处理 terminated 状态：查找所有符合条件的 loanAccount
     // 条件：status in [settled, blacklist] 且 early_settlement_capital > 0 且 status_changed_at != null
     const terminatedLoanAccounts = await this.prisma.loanAccount.findMany({
@@ -82,7 +95,7 @@ export class ScheduleStatusService implements OnModuleInit {
 
     // 更新逾期状态，排除已结清或黑名单的 loanAccount
     const overdueWhere: any = {
-      due_start_date: { lte: yesterdayStart },
+      due_start_date: { lte: overdueCutoff },
       status: { in: ['pending'] },
     };
 
@@ -128,6 +141,32 @@ export class ScheduleStatusService implements OnModuleInit {
       `Updated overdue_count for ${overdueCountByLoanId.size} loan accounts`,
     );
 
+    // 4. 按罚金规则为逾期计划计提当日罚金（失败不影响状态更新）
+    try {
+      await this.accrueFines(todayStart);
+    } catch (error) {
+      this.logger.error(`罚金计提失败: ${(error as Error).message}`);
+    }
+
     this.logger.log('Repayment schedules status updated successfully');
   }
+
+  async accrueFines(date: Date = new Date()) {
+    const accrualDate = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+    // 从上次计提日期补齐到今天（停机期间漏掉的日期一并计提）
+    const summaries = await this.finesService.accrueSinceLastRun(accrualDate);
+    for (const summary of summaries) {
+      const day = summary.accrualDate.toISOString().slice(0, 10);
+      if (summary.skipped) {
+        this.logger.log(`Fine accrual skipped for ${day}: ${summary.skipped}`);
+      } else {
+        this.logger.log(
+          `Accrued fines for ${day}: ${summary.accrued}/${summary.schedules} overdue schedules, total ${summary.totalAmount}`,
+        );
+      }
+    }
+    return summaries;
+  }
 }
@@ -0,0 +1,67 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ManagementRoles } from '@prisma/client';
+import { CustomerCreditService } from './customer-credit.service';
+import { AdjustCreditDto } from './dto/adjust-credit.dto';
+import { AuthGuard } from '../auth/auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { ApiResponseDto } from '../common/dto/api-response.dto';
+import { ResponseHelper } from '../common/response-helper';
+
+@Controller('customer-credit')
+@UseGuards(AuthGuard, RolesGuard)
+export class CustomerCreditController {
+  constructor(private readonly customerCreditService: CustomerCreditService) {}
+
+  /**
+   * 查询贷款账户的溢缴余额流水
+   * GET /customer-credit/:loanId/ledger?page=&pageSize=
+   */
+  @Get(':loanId/ledger')
+  @Roles(
+    ManagementRoles.ADMIN,
+    ManagementRoles.FINANCIAL,
+    ManagementRoles.COLLECTOR,
+    ManagementRoles.RISK_CONTROLLER,
+  )
+  async getLedger(
+    @Param('loanId') loanId: string,
+    @Query('page') page?: string,
+    @Query('pageSize') pageSize?: string,
+  ): Promise<ApiResponseDto> {
+    const result = await this.customerCreditService.getLedger(loanId, {
+      page: page ? parseInt(page, 10) : undefined,
+      pageSize: pageSize ? parseInt(pageSize, 10) : undefined,
+    });
+    return ResponseHelper.success(result, '获取溢缴余额流水成功');
+  }
+
+  /**
+   * 手动调整溢缴余额
+   * POST /customer-credit/:loanId/adjust
+   */
+  @Post(':loanId/adjust')
+  @Roles(ManagementRoles.ADMIN)
+  async adjust(
+    @CurrentUser() user: { id: number },
+    @Param('loanId') loanId: string,
+    @Body() body: AdjustCreditDto,
+  ): Promise<ApiResponseDto> {
+    const entry = await this.customerCreditService.adjust(
+      user.id,
+      loanId,
+      body.amount,
+      body.remark,
+    );
+    return ResponseHelper.success(entry, '调整溢缴余额成功');
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { CustomerCreditController } from './customer-credit.controller';
+import { CustomerCreditService } from './customer-credit.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [CustomerCreditController],
+  providers: [CustomerCreditService],
+  exports: [CustomerCreditService],
+})
+export class CustomerCreditModule {}
@@ -0,0 +1,199 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { CustomerCreditChangeType, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+
+type Tx = Prisma.TransactionClient;
+
+// 金额按分取整，避免浮点误差
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+@Injectable()
+export class CustomerCreditService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 查询贷款账户当前溢缴余额
+   */
+  async getBalance(client: Tx | PrismaService, loanId: string) {
+    const loan = await client.loanAccount.findUnique({
+      where: { id: loanId },
+      select: { credit_balance: true },
+    });
+    return Number(loan?.credit_balance ?? 0);
+  }
+
+  /**
+   * 变动溢缴余额并记录流水（需在调用方事务中执行）
+   * 扣减为条件更新：余额不足时抛出异常，避免并发下余额变为负数
+   */
+  async change(
+    tx: Tx,
+    data: {
+      loanId: string;
+      userId: number;
+      changeType: CustomerCreditChangeType;
+      amount: number;
+      repaymentRecordId?: number | null;
+      orderId?: string | null;
+      operatorAdminId?: number | null;
+      remark?: string;
+    },
+  ) {
+    const amount = roundMoney(data.amount);
+    if (amount === 0) return null;
+
+    if (amount < 0) {
+      const { count } = await tx.loanAccount.updateMany({
+        where: { id: data.loanId, credit_balance: { gte: -amount } },
+        data: { credit_balance: { increment: amount } },
+      });
+      if (count === 0) {
+        throw new BadRequestException('溢缴余额不足');
+      }
+    } else {
+      await tx.loanAccount.update({
+        where: { id: data.loanId },
+        data: { credit_balance: { increment: amount } },
+      });
+    }
+
+    const balanceAfter = await this.getBalance(tx, data.loanId);
+    return tx.customerCreditLedger.create({
+      data: {
+        loan_id: data.loanId,
+        user_id: data.userId,
+        change_type: data.changeType,
+        amount,
+        balance_after: balanceAfter,
+        repayment_record_id: data.repaymentRecordId ?? null,
+        order_id: data.orderId ?? null,
+        operator_admin_id: data.operatorAdminId ?? null,
+        remark: data.remark ?? null,
+      },
+    });
+  }
+
+  /**
+   * 结算一笔还款对溢缴余额的影响（需在调用方事务中执行）
+   * creditUsed：本次抵扣的历史余额；overpayment：本次实付超出应还部分
+   */
+  async settleRepayment(
+    tx: Tx,
+    data: {
+      loanId: string;
+      userId: number;
+      creditUsed: number;
+      overpayment: number;
+      repaymentRecordId: number;
+      orderId?: string | null;
+    },
+  ) {
+    if (data.creditUsed > 0) {
+      await this.change(tx, {
+        loanId: data.loanId,
+        userId: data.userId,
+        changeType: CustomerCreditChangeType.applied,
+        amount: -data.creditUsed,
+        repaymentRecordId: data.repaymentRecordId,
+        orderId: data.orderId,
+        remark: '溢缴余额抵扣还款',
+      });
+    }
+    if (data.overpayment > 0) {
+      await this.change(tx, {
+        loanId: data.loanId,
+        userId: data.userId,
+        changeType: CustomerCreditChangeType.overpayment,
+        amount: data.overpayment,
+        repaymentRecordId: data.repaymentRecordId,
+        orderId: data.orderId,
+        remark: '还款溢缴转入余额',
+      });
+    }
+  }
+
+  /**
+   * 管理员手动调整溢缴余额（如退款给客户）
+   */
+  async adjust(
+    adminId: number,
+    loanId: string,
+    amount: number,
+    remark: string,
+  ) {
+    const loan = await this.prisma.loanAccount.findUnique({
+      where: { id: loanId },
+      select: { id: true, user_id: true },
+    });
+    if (!loan) {
+      throw new NotFoundException('贷款账户不存在');
+    }
+    if (roundMoney(amount) === 0) {
+      throw new BadRequestException('调整金额不能为0');
+    }
+
+    return this.prisma.$transaction((tx) =>
+      this.change(tx, {
+        loanId,
+        userId: loan.user_id,
+        changeType: CustomerCreditChangeType.manual_adjust,
+        amount,
+        operatorAdminId: adminId,
+        remark,
+      }),
+    );
+  }
+
+  /**
+   * 查询贷款账户的溢缴余额流水
+   */
+  async getLedger(
+    loanId: string,
+    options: { page?: number; pageSize?: number } = {},
+  ) {
+    const loan = await this.prisma.loanAccount.findUnique({
+      where: { id: loanId },
+      select: { id: true, user_id: true, credit_balance: true },
+    });
+    if (!loan) {
+      throw new NotFoundException('贷款账户不存在');
+    }
+
+    const page = options.page && options.page > 0 ? options.page : 1;
+    const pageSize =
+      options.pageSize && options.pageSize > 0 ? options.pageSize : 50;
+    const where: Prisma.CustomerCreditLedgerWhereInput = { loan_id: loanId };
+
+    const [total, rows] = await Promise.all([
+      this.prisma.customerCreditLedger.count({ where }),
+      this.prisma.customerCreditLedger.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    const totalPages = Math.ceil(total / pageSize);
+    return {
+      loan: {
+        id: loan.id,
+        user_id: loan.user_id,
+        credit_balance: Number(loan.credit_balance),
+      },
+      data: rows,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+}
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsNumber, IsString, MaxLength } from 'class-validator';
+
+export class AdjustCreditDto {
+  // 调整金额：正数为增加余额，负数为扣减（如退款给客户）
+  @IsNumber({ maxDecimalPlaces: 2 })
+  amount: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  remark: string;
+}
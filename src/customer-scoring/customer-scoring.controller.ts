@@ -0,0 +1,58 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { ManagementRoles } from '@prisma/client';
+import { CustomerScoringService } from './customer-scoring.service';
+import { UpdateCustomerScoringDto } from './dto/update-customer-scoring.dto';
+import { AuthGuard } from '../auth/auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { ApiResponseDto } from '../common/dto/api-response.dto';
+import { ResponseHelper } from '../common/response-helper';
+
+@Controller('customer-scoring')
+@UseGuards(AuthGuard, RolesGuard)
+@Roles(ManagementRoles.ADMIN)
+export class CustomerScoringController {
+  constructor(
+    private readonly customerScoringService: CustomerScoringService,
+  ) {}
+
+  @Get('config')
+  async getConfig(): Promise<ApiResponseDto> {
+    const config = await this.customerScoringService.getConfig();
+    return ResponseHelper.success(config, '获取客户评分规则成功');
+  }
+
+  @Put('config')
+  async updateConfig(
+    @CurrentUser() user: { id: number },
+    @Body() body: UpdateCustomerScoringDto,
+  ): Promise<ApiResponseDto> {
+    const config = await this.customerScoringService.updateConfig(
+      body,
+      user.id,
+    );
+    return ResponseHelper.success(config, '更新客户评分规则成功');
+  }
+
+  /**
+   * 重新计算单个客户的等级与高风险标记
+   * POST /customer-scoring/users/:userId/rescore
+   */
+  @Post('users/:userId/rescore')
+  async rescoreUser(
+    @Param('userId', ParseIntPipe) userId: number,
+  ): Promise<ApiResponseDto> {
+    const result = await this.customerScoringService.scoreUser(userId);
+    return ResponseHelper.success(result, '客户评分已更新');
+  }
+}
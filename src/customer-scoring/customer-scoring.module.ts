@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { CustomerScoringController } from './customer-scoring.controller';
+import { CustomerScoringService } from './customer-scoring.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [CustomerScoringController],
+  providers: [CustomerScoringService],
+  exports: [CustomerScoringService],
+})
+export class CustomerScoringModule {}
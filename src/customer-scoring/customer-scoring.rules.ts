@@ -0,0 +1,98 @@
+export interface TierRule {
+  name: string;
+  min_apply_times: number; // 最少借款次数
+  min_on_time_ratio: number; // 最低按时还款率（0-1）
+  max_overdue_count: number; // 最多逾期记录数
+}
+
+export interface ScoringRules {
+  high_risk_overdue_count: number;
+  high_risk_overdue_loans: number;
+  high_risk_on_time_ratio: number;
+  min_schedules_for_ratio: number;
+  blacklist_is_high_risk: boolean;
+  default_tier: string;
+  tier_rules: TierRule[];
+}
+
+export interface CustomerMetrics {
+  overdueCount: number; // 逾期记录数
+  overdueLoanCount: number; // 发生过逾期的贷款数
+  applyTimes: number; // 借款次数
+  dueScheduleCount: number; // 已到期的还款期数
+  onTimeRatio: number; // 按时还款率
+  hasBlacklist: boolean; // 是否有被拉黑的贷款
+}
+
+export interface CustomerScore {
+  lv: string;
+  isHighRisk: boolean;
+  reasons: string[];
+}
+
+// 按顺序匹配，第一个满足条件的等级生效
+export const DEFAULT_TIER_RULES: TierRule[] = [
+  {
+    name: '钻石用户',
+    min_apply_times: 5,
+    min_on_time_ratio: 0.98,
+    max_overdue_count: 0,
+  },
+  {
+    name: '黄金用户',
+    min_apply_times: 3,
+    min_on_time_ratio: 0.95,
+    max_overdue_count: 2,
+  },
+  {
+    name: '白银用户',
+    min_apply_times: 2,
+    min_on_time_ratio: 0.9,
+    max_overdue_count: 5,
+  },
+];
+
+/**
+ * 按评分规则计算客户等级与高风险标记，高风险客户固定为默认等级
+ */
+export function scoreCustomer(
+  metrics: CustomerMetrics,
+  rules: ScoringRules,
+): CustomerScore {
+  const reasons: string[] = [];
+
+  if (rules.blacklist_is_high_risk && metrics.hasBlacklist) {
+    reasons.push('存在被拉黑的贷款');
+  }
+  if (
+    rules.high_risk_overdue_count > 0 &&
+    metrics.overdueCount >= rules.high_risk_overdue_count
+  ) {
+    reasons.push(`逾期记录 ${metrics.overdueCount} 次`);
+  }
+  if (
+    rules.high_risk_overdue_loans > 0 &&
+    metrics.overdueLoanCount >= rules.high_risk_overdue_loans
+  ) {
+    reasons.push(`${metrics.overdueLoanCount} 笔贷款发生过逾期`);
+  }
+  if (
+    metrics.dueScheduleCount >= rules.min_schedules_for_ratio &&
+    metrics.onTimeRatio < rules.high_risk_on_time_ratio
+  ) {
+    reasons.push(`按时还款率 ${(metrics.onTimeRatio * 100).toFixed(1)}%`);
+  }
+
+  const isHighRisk = reasons.length > 0;
+  if (isHighRisk) {
+    return { lv: rules.default_tier, isHighRisk, reasons };
+  }
+
+  const tier = rules.tier_rules.find(
+    (rule) =>
+      metrics.applyTimes >= rule.min_apply_times &&
+      metrics.onTimeRatio >= rule.min_on_time_ratio &&
+      metrics.overdueCount <= rule.max_overdue_count,
+  );
+  return { lv: tier?.name ?? rules.default_tier, isHighRisk, reasons };
+}
@@ -0,0 +1,196 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { CustomerScoringConfig } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { UpdateCustomerScoringDto } from './dto/update-customer-scoring.dto';
+import {
+  CustomerMetrics,
+  CustomerScore,
+  DEFAULT_TIER_RULES,
+  ScoringRules,
+  TierRule,
+  scoreCustomer,
+} from './customer-scoring.rules';
+
+export interface CustomerScoringResult {
+  userId: number;
+  metrics: CustomerMetrics;
+  score: CustomerScore;
+  changed: boolean;
+}
+
+@Injectable()
+export class CustomerScoringService {
+  private readonly logger = new Logger(CustomerScoringService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 获取当前评分规则，不存在时按默认值创建
+   */
+  async getConfig(): Promise<CustomerScoringConfig> {
+    const config = await this.prisma.customerScoringConfig.findFirst({
+      orderBy: { id: 'asc' },
+    });
+    if (config) return config;
+    return this.prisma.customerScoringConfig.create({
+      data: { tier_rules: JSON.stringify(DEFAULT_TIER_RULES) },
+    });
+  }
+
+  async updateConfig(
+    data: UpdateCustomerScoringDto,
+    adminId: number,
+  ): Promise<CustomerScoringConfig> {
+    const config = await this.getConfig();
+    const { tier_rules, ...rest } = data;
+    return this.prisma.customerScoringConfig.update({
+      where: { id: config.id },
+      data: {
+        ...rest,
+        ...(tier_rules !== undefined
+          ? { tier_rules: JSON.stringify(tier_rules) }
+          : {}),
+        updated_by: adminId,
+      },
+    });
+  }
+
+  private toRules(config: CustomerScoringConfig): ScoringRules {
+    let tierRules: TierRule[] = DEFAULT_TIER_RULES;
+    try {
+      const parsed = JSON.parse(config.tier_rules) as unknown;
+      if (Array.isArray(parsed)) tierRules = parsed as TierRule[];
+    } catch {
+      this.logger.warn('等级规则 JSON 解析失败，使用默认规则');
+    }
+    return {
+      high_risk_overdue_count: config.high_risk_overdue_count,
+      high_risk_overdue_loans: config.high_risk_overdue_loans,
+      high_risk_on_time_ratio: Number(config.high_risk_on_time_ratio),
+      min_schedules_for_ratio: config.min_schedules_for_ratio,
+      blacklist_is_high_risk: config.blacklist_is_high_risk,
+      default_tier: config.default_tier,
+      tier_rules: tierRules,
+    };
+  }
+
+  /**
+   * 统计客户的还款表现
+   */
+  async collectMetrics(userId: number): Promise<CustomerMetrics> {
+    const now = new Date();
+    const today = new Date(
+      Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()),
+    );
+
+    const [overdueCount, overdueLoans, loans, dueScheduleCount] =
+      await Promise.all([
+        this.prisma.overdueRecord.count({ where: { user_id: userId } }),
+        this.prisma.overdueRecord.groupBy({
+          by: ['loan_id'],
+          where: { user_id: userId },
+        }),
+        this.prisma.loanAccount.findMany({
+          where: { user_id: userId },
+          select: { apply_times: true, status: true },
+        }),
+        this.prisma.repaymentSchedule.count({
+          where: {
+            loan_account: { user_id: userId },
+            due_start_date: { lt: today },
+            status: { not: 'terminated' },
+          },
+        }),
+      ]);
+
+    const applyTimes = Math.max(
+      loans.length,
+      ...loans.map((loan) => loan.apply_times ?? 0),
+    );
+    const onTimeRatio =
+      dueScheduleCount > 0
+        ? Math.max(0, dueScheduleCount - overdueCount) / dueScheduleCount
+        : 1;
+
+    return {
+      overdueCount,
+      overdueLoanCount: overdueLoans.length,
+      applyTimes,
+      dueScheduleCount,
+      onTimeRatio,
+      hasBlacklist: loans.some((loan) => loan.status === 'blacklist'),
+    };
+  }
+
+  /**
+   * 重新计算单个客户的等级与高风险标记，并写回 User
+   * overtime = 发生过逾期的贷款数，overdue_time = 逾期记录数
+   */
+  async scoreUser(
+    userId: number,
+    config?: CustomerScoringConfig,
+  ): Promise<CustomerScoringResult> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        lv: true,
+        overtime: true,
+        overdue_time: true,
+        is_high_risk: true,
+      },
+    });
+    if (!user) {
+      throw new NotFoundException('客户不存在');
+    }
+
+    const rules = this.toRules(config ?? (await this.getConfig()));
+    const metrics = await this.collectMetrics(userId);
+    const score = scoreCustomer(metrics, rules);
+
+    const changed =
+      user.lv !== score.lv ||
+      user.is_high_risk !== score.isHighRisk ||
+      user.overtime !== metrics.overdueLoanCount ||
+      user.overdue_time !== metrics.overdueCount;
+    if (changed) {
+      await this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          lv: score.lv,
+          is_high_risk: score.isHighRisk,
+          overtime: metrics.overdueLoanCount,
+          overdue_time: metrics.overdueCount,
+        },
+      });
+    }
+
+    return { userId, metrics, score, changed };
+  }
+
+  /**
+   * 贷款状态变化后刷新客户评分，失败只记录日志不影响主流程
+   */
+  async refreshUser(userId: number): Promise<void> {
+    try {
+      await this.scoreUser(userId);
+    } catch (error) {
+      this.logger.error(`刷新客户 ${userId} 评分失败:`, error);
+    }
+  }
+
+  /**
+   * 重新计算所有客户的评分
+   */
+  async scoreAllUsers(): Promise<{ total: number; changed: number }> {
+    const config = await this.getConfig();
+    const users = await this.prisma.user.findMany({ select: { id: true } });
+
+    let changed = 0;
+    for (const { id } of users) {
+      const result = await this.scoreUser(id, config);
+      if (result.changed) changed++;
+    }
+    return { total: users.length, changed };
+  }
+}
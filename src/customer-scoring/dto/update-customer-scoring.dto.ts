@@ -0,0 +1,73 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class TierRuleDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(16)
+  name: string;
+
+  @IsInt()
+  @Min(0)
+  min_apply_times: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  min_on_time_ratio: number;
+
+  @IsInt()
+  @Min(0)
+  max_overdue_count: number;
+}
+
+export class UpdateCustomerScoringDto {
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  high_risk_overdue_count?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  high_risk_overdue_loans?: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  high_risk_on_time_ratio?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  min_schedules_for_ratio?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  blacklist_is_high_risk?: boolean;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(16)
+  @IsOptional()
+  default_tier?: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TierRuleDto)
+  @IsOptional()
+  tier_rules?: TierRuleDto[];
+}
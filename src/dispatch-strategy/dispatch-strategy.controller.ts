@@ -0,0 +1,48 @@
+import { Body, Controller, Get, Post, Put, UseGuards } from '@nestjs/common';
+import { ManagementRoles } from '@prisma/client';
+import { DispatchStrategyService } from './dispatch-strategy.service';
+import { UpdateDispatchStrategyDto } from './dto/update-dispatch-strategy.dto';
+import { PreviewDispatchDto } from './dto/preview-dispatch.dto';
+import { AuthGuard } from '../auth/auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { ApiResponseDto } from '../common/dto/api-response.dto';
+import { ResponseHelper } from '../common/response-helper';
+
+@Controller('dispatch-strategy')
+@UseGuards(AuthGuard, RolesGuard)
+@Roles(ManagementRoles.ADMIN)
+export class DispatchStrategyController {
+  constructor(
+    private readonly dispatchStrategyService: DispatchStrategyService,
+  ) {}
+
+  @Get()
+  async getConfig(): Promise<ApiResponseDto> {
+    const config = await this.dispatchStrategyService.getConfig();
+    return ResponseHelper.success(config, '获取派单策略成功');
+  }
+
+  @Put()
+  async updateConfig(
+    @CurrentUser() user: { id: number },
+    @Body() body: UpdateDispatchStrategyDto,
+  ): Promise<ApiResponseDto> {
+    const config = await this.dispatchStrategyService.updateConfig(
+      body,
+      user.id,
+    );
+    return ResponseHelper.success(config, '更新派单策略成功');
+  }
+
+  /**
+   * 预览假设订单的收款人排名
+   * POST /dispatch-strategy/preview
+   */
+  @Post('preview')
+  async preview(@Body() body: PreviewDispatchDto): Promise<ApiResponseDto> {
+    const result = await this.dispatchStrategyService.preview(body);
+    return ResponseHelper.success(result, '获取派单排名预览成功');
+  }
+}
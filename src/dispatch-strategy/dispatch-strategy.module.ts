@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { StatisticsModule } from '../statistics/statistics.module';
+import { DispatchStrategyController } from './dispatch-strategy.controller';
+import { DispatchStrategyService } from './dispatch-strategy.service';
+
+@Module({
+  imports: [PrismaModule, StatisticsModule],
+  controllers: [DispatchStrategyController],
+  providers: [DispatchStrategyService],
+  exports: [DispatchStrategyService],
+})
+export class DispatchStrategyModule {}
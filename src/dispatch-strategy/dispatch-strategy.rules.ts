@@ -0,0 +1,141 @@
+import type { DispatchStrategyConfig } from '@prisma/client';
+
+export type DispatchRules = Omit<
+  DispatchStrategyConfig,
+  'id' | 'updated_by' | 'created_at' | 'updated_at'
+>;
+
+export interface DispatchCandidate {
+  payeeId: number;
+  username: string;
+  address?: string | null;
+  remainingLimit: number;
+  hasActiveQrCode: boolean;
+  historyCount: number; // 该收款人为此客户收款的历史次数
+  todayOrderCount: number; // 当前业务日已抢订单数
+  lastGrabbedAt: Date | null;
+}
+
+export interface DispatchOrderContext {
+  amount: number;
+  customerAddress?: string | null;
+}
+
+export interface DispatchRankingEntry {
+  payeeId: number;
+  username: string;
+  eligible: boolean;
+  reason?: string; // 不参与派单的原因
+  priority: number;
+  delay: number; // 推送延迟（毫秒）
+  remainingLimit: number;
+  todayOrderCount: number;
+  matchedRules: string[];
+}
+
+/**
+ * 按派单策略计算单个收款人的优先级与推送延迟
+ */
+export function evaluateCandidate(
+  candidate: DispatchCandidate,
+  order: DispatchOrderContext,
+  rules: DispatchRules,
+): DispatchRankingEntry {
+  const entry: DispatchRankingEntry = {
+    payeeId: candidate.payeeId,
+    username: candidate.username,
+    eligible: false,
+    priority: 0,
+    delay: rules.default_delay_ms,
+    remainingLimit: candidate.remainingLimit,
+    todayOrderCount: candidate.todayOrderCount,
+    matchedRules: [],
+  };
+
+  if (!candidate.hasActiveQrCode) {
+    entry.reason = '没有匹配支付方式的启用二维码';
+    return entry;
+  }
+  if (candidate.remainingLimit < order.amount) {
+    entry.reason = '剩余额度不足';
+    return entry;
+  }
+  if (
+    rules.daily_order_cap > 0 &&
+    candidate.todayOrderCount >= rules.daily_order_cap
+  ) {
+    entry.reason = `已达每日抢单上限 ${rules.daily_order_cap}`;
+    return entry;
+  }
+
+  entry.eligible = true;
+  const delays: number[] = [];
+
+  if (
+    order.customerAddress &&
+    candidate.address &&
+    order.customerAddress === candidate.address
+  ) {
+    entry.priority += rules.same_address_weight;
+    delays.push(rules.same_address_delay_ms);
+    entry.matchedRules.push('same_address');
+  }
+
+  if (candidate.historyCount > 0) {
+    entry.priority += rules.history_weight;
+    delays.push(rules.history_delay_ms);
+    entry.matchedRules.push('history');
+  }
+
+  if (rules.remaining_limit_weight > 0) {
+    entry.priority += Math.floor(
+      (candidate.remainingLimit / 1000) * rules.remaining_limit_weight,
+    );
+    entry.matchedRules.push('remaining_limit');
+  }
+
+  if (rules.round_robin_enabled && candidate.todayOrderCount > 0) {
+    entry.priority -= candidate.todayOrderCount * rules.round_robin_weight;
+    entry.matchedRules.push('round_robin');
+  }
+
+  // 命中多条规则时取最短的推送延迟
+  if (delays.length > 0) {
+    entry.delay = Math.min(...delays);
+  }
+
+  return entry;
+}
+
+/**
+ * 对所有收款人排序：可派单的在前，按优先级从高到低；
+ * 同分时按策略依次比较剩余额度、最近抢单时间（轮询公平）
+ */
+export function rankCandidates(
+  candidates: DispatchCandidate[],
+  order: DispatchOrderContext,
+  rules: DispatchRules,
+): DispatchRankingEntry[] {
+  const lastGrabbed = new Map(
+    candidates.map((c) => [c.payeeId, c.lastGrabbedAt?.getTime() ?? 0]),
+  );
+
+  return candidates
+    .map((candidate) => evaluateCandidate(candidate, order, rules))
+    .sort((a, b) => {
+      if (a.eligible !== b.eligible) return a.eligible ? -1 : 1;
+      if (b.priority !== a.priority) return b.priority - a.priority;
+      if (
+        rules.prefer_remaining_limit &&
+        b.remainingLimit !== a.remainingLimit
+      ) {
+        return b.remainingLimit - a.remainingLimit;
+      }
+      if (rules.round_robin_enabled) {
+        const diff =
+          (lastGrabbed.get(a.payeeId) ?? 0) - (lastGrabbed.get(b.payeeId) ?? 0);
+        if (diff !== 0) return diff;
+      }
+      return a.payeeId - b.payeeId;
+    });
+}
@@ -0,0 +1,167 @@
+import { Injectable } from '@nestjs/common';
+import { DispatchStrategyConfig, PaymentMethod } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StatisticsService } from '../statistics/statistics.service';
+import { UpdateDispatchStrategyDto } from './dto/update-dispatch-strategy.dto';
+import { PreviewDispatchDto } from './dto/preview-dispatch.dto';
+import {
+  DispatchCandidate,
+  DispatchRankingEntry,
+  rankCandidates,
+} from './dispatch-strategy.rules';
+
+export interface DispatchOrder {
+  customer_id?: number;
+  customer_address?: string | null;
+  amount: number;
+  payment_method: PaymentMethod;
+}
+
+@Injectable()
+export class DispatchStrategyService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly statisticsService: StatisticsService,
+  ) {}
+
+  /**
+   * 获取当前派单策略，不存在时按默认值创建
+   */
+  async getConfig(): Promise<DispatchStrategyConfig> {
+    const config = await this.prisma.dispatchStrategyConfig.findFirst({
+      orderBy: { id: 'asc' },
+    });
+    if (config) return config;
+    return this.prisma.dispatchStrategyConfig.create({ data: {} });
+  }
+
+  async updateConfig(
+    data: UpdateDispatchStrategyDto,
+    adminId: number,
+  ): Promise<DispatchStrategyConfig> {
+    const config = await this.getConfig();
+    return this.prisma.dispatchStrategyConfig.update({
+      where: { id: config.id },
+      data: { ...data, updated_by: adminId },
+    });
+  }
+
+  /**
+   * 按当前策略对所有未禁收的收款人排序（包含不可派单的收款人及原因）
+   */
+  async rankPayees(
+    order: DispatchOrder,
+    config?: DispatchStrategyConfig,
+  ): Promise<DispatchRankingEntry[]> {
+    const rules = config ?? (await this.getConfig());
+
+    const payees = await this.prisma.payee.findMany({
+      where: { is_disabled: false },
+      include: {
+        qrcode: {
+          where: { qrcode_type: order.payment_method, active: true },
+          select: { id: true },
+        },
+      },
+    });
+    if (payees.length === 0) return [];
+
+    // 历史收款次数：收款人（admin）为该客户收款的记录数
+    const historyCounts = new Map<number, number>();
+    if (order.customer_id) {
+      const history = await this.prisma.repaymentRecord.groupBy({
+        by: ['actual_collector_id'],
+        where: {
+          user_id: order.customer_id,
+          actual_collector_id: { in: payees.map((p) => p.admin_id) },
+          collected_by_type: { not: 'renewal' },
+        },
+        _count: { _all: true },
+      });
+      for (const row of history) {
+        if (row.actual_collector_id !== null) {
+          historyCounts.set(row.actual_collector_id, row._count._all);
+        }
+      }
+    }
+
+    // 当前业务日的抢单数与最近抢单时间
+    const todayOrders = await this.prisma.order.groupBy({
+      by: ['payee_id'],
+      where: {
+        payee_id: { in: payees.map((p) => p.id) },
+        status: { in: ['grabbed', 'completed'] },
+        grabbed_at: { gte: this.statisticsService.getBusinessDate() },
+      },
+      _count: { _all: true },
+      _max: { grabbed_at: true },
+    });
+    const todayStats = new Map(
+      todayOrders.map((row) => [
+        row.payee_id,
+        { count: row._count._all, lastGrabbedAt: row._max.grabbed_at },
+      ]),
+    );
+
+    const candidates: DispatchCandidate[] = payees.map((payee) => ({
+      payeeId: payee.id,
+      username: payee.username,
+      address: payee.address,
+      remainingLimit: payee.remaining_limit,
+      hasActiveQrCode: payee.qrcode.length > 0,
+      historyCount: historyCounts.get(payee.admin_id) ?? 0,
+      todayOrderCount: todayStats.get(payee.id)?.count ?? 0,
+      lastGrabbedAt: todayStats.get(payee.id)?.lastGrabbedAt ?? null,
+    }));
+
+    return rankCandidates(
+      candidates,
+      { amount: order.amount, customerAddress: order.customer_address },
+      rules,
+    );
+  }
+
+  /**
+   * 收款人当前业务日的抢单数是否已达上限
+   */
+  async isOverDailyCap(payeeId: number): Promise<boolean> {
+    const { daily_order_cap } = await this.getConfig();
+    if (daily_order_cap <= 0) return false;
+
+    const count = await this.prisma.order.count({
+      where: {
+        payee_id: payeeId,
+        status: { in: ['grabbed', 'completed'] },
+        grabbed_at: { gte: this.statisticsService.getBusinessDate() },
+      },
+    });
+    return count >= daily_order_cap;
+  }
+
+  /**
+   * 预览假设订单的派单排名
+   */
+  async preview(dto: PreviewDispatchDto) {
+    let customerAddress = dto.customer_address;
+    if (!customerAddress && dto.customer_id) {
+      const customer = await this.prisma.user.findUnique({
+        where: { id: dto.customer_id },
+        select: { address: true },
+      });
+      customerAddress = customer?.address;
+    }
+
+    const config = await this.getConfig();
+    const ranking = await this.rankPayees(
+      {
+        customer_id: dto.customer_id,
+        customer_address: customerAddress,
+        amount: dto.amount,
+        payment_method: dto.payment_method,
+      },
+      config,
+    );
+
+    return { config, ranking };
+  }
+}
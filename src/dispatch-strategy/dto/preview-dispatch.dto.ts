@@ -0,0 +1,27 @@
+import { PaymentMethod } from '@prisma/client';
+import {
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+
+export class PreviewDispatchDto {
+  @IsNumber()
+  @Min(0.01)
+  amount: number;
+
+  @IsEnum(PaymentMethod)
+  payment_method: PaymentMethod;
+
+  @IsInt()
+  @IsOptional()
+  customer_id?: number;
+
+  // 未传时使用客户资料中的地址
+  @IsString()
+  @IsOptional()
+  customer_address?: string;
+}
@@ -0,0 +1,52 @@
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class UpdateDispatchStrategyDto {
+  @IsInt()
+  @IsOptional()
+  same_address_weight?: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(60000)
+  @IsOptional()
+  same_address_delay_ms?: number;
+
+  @IsInt()
+  @IsOptional()
+  history_weight?: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(60000)
+  @IsOptional()
+  history_delay_ms?: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(60000)
+  @IsOptional()
+  default_delay_ms?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  prefer_remaining_limit?: boolean;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  remaining_limit_weight?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  round_robin_enabled?: boolean;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  round_robin_weight?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  daily_order_cap?: number;
+}
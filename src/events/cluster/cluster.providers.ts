@@ -0,0 +1,33 @@
+import { hostname } from 'os';
+import { Provider } from '@nestjs/common';
+import { EVENTS_BUS, InMemoryEventsBus } from './events-bus';
+import { RedisEventsBus } from './redis-events-bus';
+import {
+  InMemoryPresenceRegistry,
+  PRESENCE_REGISTRY,
+} from './presence-registry';
+import { RedisPresenceRegistry } from './redis-presence-registry';
+
+export const EVENTS_NODE_ID = 'EVENTS_NODE_ID';
+
+// 配置 REDIS_URL 时使用 Redis 实现以支持多实例部署，否则使用进程内实现
+export const eventsClusterProviders: Provider[] = [
+  {
+    provide: EVENTS_NODE_ID,
+    useValue: `${hostname()}:${process.pid}`,
+  },
+  {
+    provide: EVENTS_BUS,
+    useFactory: () =>
+      process.env.REDIS_URL
+        ? new RedisEventsBus(process.env.REDIS_URL)
+        : new InMemoryEventsBus(),
+  },
+  {
+    provide: PRESENCE_REGISTRY,
+    useFactory: () =>
+      process.env.REDIS_URL
+        ? new RedisPresenceRegistry(process.env.REDIS_URL)
+        : new InMemoryPresenceRegistry(),
+  },
+];
@@ -0,0 +1,48 @@
+import { EventEmitter } from 'events';
+
+export const EVENTS_BUS = 'EVENTS_BUS';
+
+/**
+ * 跨实例的发布/订阅通道，用于把 /events 命名空间的广播同步到所有服务实例
+ * 消息需可被 JSON 序列化
+ */
+export interface EventsBus {
+  publish(channel: string, message: unknown): Promise<void>;
+  /** 订阅频道，返回取消订阅函数 */
+  subscribe(
+    channel: string,
+    handler: (message: unknown) => void,
+  ): Promise<() => void>;
+  close(): Promise<void>;
+}
+
+/**
+ * 进程内实现：单实例部署时使用；测试中多个节点共享同一个实例即可模拟多实例
+ */
+export class InMemoryEventsBus implements EventsBus {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(channel: string, message: unknown): Promise<void> {
+    this.emitter.emit(channel, message);
+    return Promise.resolve();
+  }
+
+  subscribe(
+    channel: string,
+    handler: (message: unknown) => void,
+  ): Promise<() => void> {
+    this.emitter.on(channel, handler);
+    return Promise.resolve(() => {
+      this.emitter.off(channel, handler);
+    });
+  }
+
+  close(): Promise<void> {
+    this.emitter.removeAllListeners();
+    return Promise.resolve();
+  }
+}
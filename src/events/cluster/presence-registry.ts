@@ -0,0 +1,87 @@
+export const PRESENCE_REGISTRY = 'PRESENCE_REGISTRY';
+
+export type PresenceKind = 'payee' | 'customer';
+
+export interface PresenceEntry {
+  kind: PresenceKind;
+  id: number;
+  socketId: string;
+  nodeId: string;
+  connectedAt: string;
+  lastHeartbeatAt: string;
+}
+
+/**
+ * 在线状态登记表：记录收款人/客户连接在哪个实例上，所有实例共享
+ */
+export interface PresenceRegistry {
+  add(entry: PresenceEntry): Promise<void>;
+  /** 移除连接并记录断开时间 */
+  remove(kind: PresenceKind, id: number, socketId: string): Promise<void>;
+  /** 更新连接的最近心跳时间 */
+  heartbeat(kind: PresenceKind, id: number, socketId: string): Promise<void>;
+  isOnline(kind: PresenceKind, id: number): Promise<boolean>;
+  list(kind: PresenceKind): Promise<PresenceEntry[]>;
+  /** 每个收款人/客户最近一次断开连接的时间 */
+  lastDisconnects(kind: PresenceKind): Promise<Map<number, string>>;
+  /** 清除某个实例登记的全部连接（实例关闭时调用） */
+  removeNode(nodeId: string): Promise<void>;
+}
+
+export const presenceField = (id: number, socketId: string) =>
+  `${id}|${socketId}`;
+
+/**
+ * 进程内实现：单实例部署时使用；测试中多个节点共享同一个实例即可模拟多实例
+ */
+export class InMemoryPresenceRegistry implements PresenceRegistry {
+  private readonly entries = new Map<PresenceKind, Map<string, PresenceEntry>>([
+    ['payee', new Map()],
+    ['customer', new Map()],
+  ]);
+  private readonly disconnects = new Map<PresenceKind, Map<number, string>>([
+    ['payee', new Map()],
+    ['customer', new Map()],
+  ]);
+
+  add(entry: PresenceEntry): Promise<void> {
+    this.entries
+      .get(entry.kind)!
+      .set(presenceField(entry.id, entry.socketId), entry);
+    return Promise.resolve();
+  }
+
+  remove(kind: PresenceKind, id: number, socketId: string): Promise<void> {
+    this.entries.get(kind)!.delete(presenceField(id, socketId));
+    this.disconnects.get(kind)!.set(id, new Date().toISOString());
+    return Promise.resolve();
+  }
+
+  heartbeat(kind: PresenceKind, id: number, socketId: string): Promise<void> {
+    const entry = this.entries.get(kind)!.get(presenceField(id, socketId));
+    if (entry) entry.lastHeartbeatAt = new Date().toISOString();
+    return Promise.resolve();
+  }
+
+  lastDisconnects(kind: PresenceKind): Promise<Map<number, string>> {
+    return Promise.resolve(new Map(this.disconnects.get(kind)));
+  }
+
+  async isOnline(kind: PresenceKind, id: number): Promise<boolean> {
+    const entries = await this.list(kind);
+    return entries.some((entry) => entry.id === id);
+  }
+
+  list(kind: PresenceKind): Promise<PresenceEntry[]> {
+    return Promise.resolve(Array.from(this.entries.get(kind)!.values()));
+  }
+
+  removeNode(nodeId: string): Promise<void> {
+    for (const entries of this.entries.values()) {
+      for (const [field, entry] of entries) {
+        if (entry.nodeId === nodeId) entries.delete(field);
+      }
+    }
+    return Promise.resolve();
+  }
+}
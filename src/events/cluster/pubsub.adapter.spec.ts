@@ -0,0 +1,131 @@
+import { createServer, Server as HttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { InMemoryEventsBus } from './events-bus';
+import { InMemoryPresenceRegistry } from './presence-registry';
+import { createPubSubAdapter } from './pubsub.adapter';
+
+interface Node {
+  http: HttpServer;
+  io: Server;
+  port: number;
+}
+
+// 用共享的进程内总线模拟两台独立部署的实例
+async function startNode(bus: InMemoryEventsBus, nodeId: string) {
+  const http = createServer();
+  const io = new Server(http);
+  io.adapter(createPubSubAdapter(bus, nodeId));
+  io.of('/events').on('connection', (socket) => {
+    const payeeId = Number(socket.handshake.query.payee_id);
+    void socket.join([`payee:${payeeId}`, 'payees']);
+    socket.emit('joined');
+  });
+  await new Promise<void>((resolve) => http.listen(0, resolve));
+  const { port } = http.address() as AddressInfo;
+  return { http, io, port } as Node;
+}
+
+function connectPayee(node: Node, payeeId: number) {
+  const client = connect(`http://localhost:${node.port}/events`, {
+    query: { payee_id: String(payeeId) },
+    transports: ['websocket'],
+  });
+  return new Promise<ClientSocket>((resolve) =>
+    client.once('joined', () => resolve(client)),
+  );
+}
+
+describe('PubSubAdapter', () => {
+  let bus: InMemoryEventsBus;
+  let nodeA: Node;
+  let nodeB: Node;
+  const clients: ClientSocket[] = [];
+
+  beforeEach(async () => {
+    bus = new InMemoryEventsBus();
+    nodeA = await startNode(bus, 'node-a');
+    nodeB = await startNode(bus, 'node-b');
+  });
+
+  afterEach(async () => {
+    clients.splice(0).forEach((client) => client.disconnect());
+    await Promise.all([nodeA.io.close(), nodeB.io.close()]);
+    await bus.close();
+  });
+
+  it('delivers a room broadcast to a payee connected to another node', async () => {
+    const payee = await connectPayee(nodeB, 1);
+    clients.push(payee);
+
+    const received = new Promise((resolve) => payee.once('message', resolve));
+    nodeA.io
+      .of('/events')
+      .to('payee:1')
+      .emit('message', { type: 'new_order', data: { id: 'o1' } });
+
+    await expect(received).resolves.toEqual({
+      type: 'new_order',
+      data: { id: 'o1' },
+    });
+  });
+
+  it('delivers a local broadcast exactly once', async () => {
+    const payee = await connectPayee(nodeA, 2);
+    clients.push(payee);
+
+    const messages: unknown[] = [];
+    payee.on('message', (message) => messages.push(message));
+    nodeA.io.of('/events').to('payees').emit('message', { type: 'ping' });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(messages).toEqual([{ type: 'ping' }]);
+  });
+
+  it('does not deliver to payees outside the target room', async () => {
+    const other = await connectPayee(nodeB, 3);
+    clients.push(other);
+
+    const messages: unknown[] = [];
+    other.on('message', (message) => messages.push(message));
+    nodeA.io.of('/events').to('payee:1').emit('message', { type: 'ping' });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(messages).toEqual([]);
+  });
+});
+
+describe('InMemoryPresenceRegistry', () => {
+  it('tracks connections per node and clears a node on shutdown', async () => {
+    const registry = new InMemoryPresenceRegistry();
+    const connectedAt = new Date().toISOString();
+    await registry.add({
+      kind: 'payee',
+      id: 1,
+      socketId: 's1',
+      nodeId: 'node-a',
+      connectedAt,
+      lastHeartbeatAt: connectedAt,
+    });
+    await registry.add({
+      kind: 'payee',
+      id: 2,
+      socketId: 's2',
+      nodeId: 'node-b',
+      connectedAt,
+      lastHeartbeatAt: connectedAt,
+    });
+
+    expect(await registry.isOnline('payee', 1)).toBe(true);
+    expect(await registry.isOnline('customer', 1)).toBe(false);
+
+    await registry.removeNode('node-a');
+    expect(await registry.isOnline('payee', 1)).toBe(false);
+    expect(await registry.isOnline('payee', 2)).toBe(true);
+
+    await registry.remove('payee', 2, 's2');
+    expect(await registry.list('payee')).toEqual([]);
+    expect((await registry.lastDisconnects('payee')).has(2)).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import { Adapter, BroadcastFlags, BroadcastOptions } from 'socket.io-adapter';
+import { EventsBus } from './events-bus';
+
+interface BroadcastMessage {
+  nodeId: string;
+  packet: unknown;
+  rooms: string[];
+  except: string[];
+  flags?: BroadcastFlags;
+}
+
+/**
+ * 创建基于 EventsBus 的 Socket.IO 适配器
+ * 本实例发出的广播会发布到总线，其他实例收到后只向自己的本地连接投递，
+ * 因此无论收款人/客户连接在哪个实例上，按房间发送的消息都能送达
+ */
+export function createPubSubAdapter(
+  bus: EventsBus,
+  nodeId: string,
+): typeof Adapter {
+  return class PubSubAdapter extends Adapter {
+    private readonly channel: string;
+    private readonly subscription: Promise<() => void>;
+
+    constructor(nsp: any) {
+      super(nsp);
+      this.channel = `socket.io#${(nsp as { name: string }).name}`;
+      this.subscription = bus.subscribe(this.channel, (message) =>
+        this.onMessage(message as BroadcastMessage),
+      );
+    }
+
+    /** 等待订阅生效（Redis 订阅是异步的） */
+    ready(): Promise<void> {
+      return this.subscription.then(() => undefined);
+    }
+
+    broadcast(packet: any, opts: BroadcastOptions): void {
+      if (!opts.flags?.local) {
+        const message: BroadcastMessage = {
+          nodeId,
+          packet,
+          rooms: Array.from(opts.rooms),
+          except: Array.from(opts.except ?? []),
+          flags: opts.flags,
+        };
+        bus.publish(this.channel, message).catch((error) => {
+          console.error('❌ 跨实例广播发布失败:', error);
+        });
+      }
+      super.broadcast(packet, opts);
+    }
+
+    close(): void {
+      void this.subscription.then((unsubscribe) => unsubscribe());
+    }
+
+    private onMessage(message: BroadcastMessage) {
+      // 忽略本实例自己发布的消息，避免重复投递
+      if (!message || message.nodeId === nodeId) return;
+      super.broadcast(message.packet, {
+        rooms: new Set(message.rooms),
+        except: new Set(message.except),
+        flags: { ...message.flags, local: true },
+      });
+    }
+  };
+}
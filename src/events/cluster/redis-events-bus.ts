@@ -0,0 +1,63 @@
+import Redis from 'ioredis';
+import { EventsBus } from './events-bus';
+
+/**
+ * 基于 Redis Pub/Sub 的实现，多实例（PM2 cluster 或多台服务器）部署时使用
+ */
+export class RedisEventsBus implements EventsBus {
+  private readonly pub: Redis;
+  private readonly sub: Redis;
+  private readonly handlers = new Map<
+    string,
+    Set<(message: unknown) => void>
+  >();
+
+  constructor(url: string) {
+    this.pub = new Redis(url);
+    this.sub = new Redis(url);
+    this.sub.on('message', (channel: string, raw: string) => {
+      const handlers = this.handlers.get(channel);
+      if (!handlers) return;
+      let message: unknown;
+      try {
+        message = JSON.parse(raw);
+      } catch (error) {
+        console.error(`❌ 无法解析频道 ${channel} 的消息:`, error);
+        return;
+      }
+      handlers.forEach((handler) => handler(message));
+    });
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    await this.pub.publish(channel, JSON.stringify(message));
+  }
+
+  async subscribe(
+    channel: string,
+    handler: (message: unknown) => void,
+  ): Promise<() => void> {
+    let handlers = this.handlers.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(channel, handlers);
+      await this.sub.subscribe(channel);
+    }
+    handlers.add(handler);
+
+    return () => {
+      const current = this.handlers.get(channel);
+      if (!current) return;
+      current.delete(handler);
+      if (current.size === 0) {
+        this.handlers.delete(channel);
+        void this.sub.unsubscribe(channel);
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    await Promise.all([this.pub.quit(), this.sub.quit()]);
+  }
+}
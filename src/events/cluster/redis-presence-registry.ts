@@ -0,0 +1,85 @@
+import Redis from 'ioredis';
+import {
+  PresenceEntry,
+  PresenceKind,
+  PresenceRegistry,
+  presenceField,
+} from './presence-registry';
+
+/**
+ * 基于 Redis Hash 的实现：每种连接类型一个 Hash，field 为 `${id}|${socketId}`
+ */
+export class RedisPresenceRegistry implements PresenceRegistry {
+  private readonly redis: Redis;
+
+  constructor(url: string) {
+    this.redis = new Redis(url);
+  }
+
+  private key(kind: PresenceKind) {
+    return `events:presence:${kind}`;
+  }
+
+  async add(entry: PresenceEntry): Promise<void> {
+    await this.redis.hset(
+      this.key(entry.kind),
+      presenceField(entry.id, entry.socketId),
+      JSON.stringify(entry),
+    );
+  }
+
+  private disconnectKey(kind: PresenceKind) {
+    return `events:presence:${kind}:disconnected`;
+  }
+
+  async remove(kind: PresenceKind, id: number, socketId: string) {
+    await this.redis.hdel(this.key(kind), presenceField(id, socketId));
+    await this.redis.hset(
+      this.disconnectKey(kind),
+      String(id),
+      new Date().toISOString(),
+    );
+  }
+
+  async heartbeat(kind: PresenceKind, id: number, socketId: string) {
+    const field = presenceField(id, socketId);
+    const raw = await this.redis.hget(this.key(kind), field);
+    if (!raw) return;
+    const entry = JSON.parse(raw) as PresenceEntry;
+    entry.lastHeartbeatAt = new Date().toISOString();
+    await this.redis.hset(this.key(kind), field, JSON.stringify(entry));
+  }
+
+  async lastDisconnects(kind: PresenceKind): Promise<Map<number, string>> {
+    const values = await this.redis.hgetall(this.disconnectKey(kind));
+    return new Map(
+      Object.entries(values).map(([id, at]) => [Number(id), at] as const),
+    );
+  }
+
+  async isOnline(kind: PresenceKind, id: number): Promise<boolean> {
+    const entries = await this.list(kind);
+    return entries.some((entry) => entry.id === id);
+  }
+
+  async list(kind: PresenceKind): Promise<PresenceEntry[]> {
+    const values = await this.redis.hvals(this.key(kind));
+    return values.map((value) => JSON.parse(value) as PresenceEntry);
+  }
+
+  async removeNode(nodeId: string): Promise<void> {
+    for (const kind of ['payee', 'customer'] as PresenceKind[]) {
+      const entries = await this.list(kind);
+      const fields = entries
+        .filter((entry) => entry.nodeId === nodeId)
+        .map((entry) => presenceField(entry.id, entry.socketId));
+      if (fields.length > 0) {
+        await this.redis.hdel(this.key(kind), ...fields);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
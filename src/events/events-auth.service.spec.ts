@@ -0,0 +1,73 @@
+import { PrismaService } from '../../prisma/prisma.service';
+import { AdminSessionService } from '../auth/admin-session.service';
+import { AuthJwtService } from '../auth/jwt.service';
+import { EventsAuthService, SocketAuthError } from './events-auth.service';
+import { EventsService } from './events.service';
+
+describe('EventsAuthService.authenticate (payee)', () => {
+  const expiresAt = Date.now() + 10 * 60 * 1000;
+  const authJwtService = {
+    getTokenExpiry: jest.fn(() => expiresAt),
+    verifyAccessToken: jest.fn(),
+    verifyCustomerToken: jest.fn(),
+  };
+  const prisma = { admin: { findUnique: jest.fn() } };
+  const adminSessionService = { isActive: jest.fn() };
+  const eventsService = { findPayeeIdByAdmin: jest.fn() };
+  const service = new EventsAuthService(
+    prisma as unknown as PrismaService,
+    authJwtService as unknown as AuthJwtService,
+    adminSessionService as unknown as AdminSessionService,
+    eventsService as unknown as EventsService,
+  );
+
+  const rejection = (token: string) =>
+    service.authenticate(token).then(
+      () => null,
+      (error: SocketAuthError) => error.code,
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.admin.findUnique.mockResolvedValue({ id: 3, token_version: 2 });
+    adminSessionService.isActive.mockResolvedValue(true);
+    eventsService.findPayeeIdByAdmin.mockResolvedValue(9);
+  });
+
+  it('accepts a token issued for the current token version', async () => {
+    authJwtService.verifyAccessToken.mockReturnValue({
+      id: 3,
+      sid: 's1',
+      tokenVersion: 2,
+    });
+
+    await expect(service.authenticate('token')).resolves.toEqual({
+      type: 'payee',
+      adminId: 3,
+      payeeId: 9,
+      expiresAt,
+    });
+  });
+
+  it('rejects a token revoked by a password change or force logout', async () => {
+    authJwtService.verifyAccessToken.mockReturnValue({
+      id: 3,
+      sid: 's1',
+      tokenVersion: 1,
+    });
+
+    await expect(rejection('token')).resolves.toBe('TOKEN_INVALID');
+    expect(eventsService.findPayeeIdByAdmin).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token whose session was revoked', async () => {
+    authJwtService.verifyAccessToken.mockReturnValue({
+      id: 3,
+      sid: 's1',
+      tokenVersion: 2,
+    });
+    adminSessionService.isActive.mockResolvedValue(false);
+
+    await expect(rejection('token')).resolves.toBe('TOKEN_INVALID');
+  });
+});
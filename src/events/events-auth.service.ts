@@ -0,0 +1,151 @@
+import { Injectable } from '@nestjs/common';
+import { Socket } from 'socket.io';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthJwtService } from '../auth/jwt.service';
+import { AdminSessionService } from '../auth/admin-session.service';
+import { EventsService } from './events.service';
+
+export type SocketAuthErrorCode =
+  | 'TOKEN_MISSING'
+  | 'TOKEN_INVALID'
+  | 'TOKEN_EXPIRED'
+  | 'TYPE_MISMATCH'
+  | 'IDENTITY_MISMATCH'
+  | 'PAYEE_NOT_BOUND'
+  | 'ACCOUNT_NOT_FOUND'
+  | 'PASSWORD_CHANGE_REQUIRED';
+
+export class SocketAuthError extends Error {
+  constructor(
+    readonly code: SocketAuthErrorCode,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export interface SocketIdentity {
+  type: 'payee' | 'customer';
+  adminId?: number;
+  payeeId?: number;
+  userId?: number;
+  expiresAt: number;
+}
+
+/**
+ * /events 命名空间的连接认证
+ *
+ * 收款人使用管理端 Access Token（handshake.auth.token、Authorization 头或 access_token Cookie），
+ * 客户使用登录时签发的客户Token；连接身份只取自Token，不再信任查询参数。
+ */
+@Injectable()
+export class EventsAuthService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly authJwtService: AuthJwtService,
+    private readonly adminSessionService: AdminSessionService,
+    private readonly eventsService: EventsService,
+  ) {}
+
+  /**
+   * 从握手信息中提取Token
+   */
+  extractToken(client: Socket): string | null {
+    const auth = client.handshake.auth as { token?: unknown } | undefined;
+    if (typeof auth?.token === 'string' && auth.token) {
+      return auth.token;
+    }
+
+    const authorization = client.handshake.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim() || null;
+    }
+
+    const cookie = client.handshake.headers.cookie;
+    if (cookie) {
+      for (const part of cookie.split(';')) {
+        const [name, ...rest] = part.trim().split('=');
+        if (name === 'access_token' && rest.length) {
+          return decodeURIComponent(rest.join('='));
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 校验Token并解析连接身份
+   */
+  async authenticate(token: string | null): Promise<SocketIdentity> {
+    if (!token) {
+      throw new SocketAuthError('TOKEN_MISSING', '缺少认证Token');
+    }
+
+    const expiresAt = this.authJwtService.getTokenExpiry(token);
+    if (expiresAt !== null && expiresAt <= Date.now()) {
+      throw new SocketAuthError('TOKEN_EXPIRED', 'Token已过期，请重新认证');
+    }
+
+    const adminPayload = this.authJwtService.verifyAccessToken(token);
+    if (adminPayload) {
+      const admin = await this.prisma.admin.findUnique({
+        where: { id: adminPayload.id },
+        select: { id: true, token_version: true },
+      });
+      if (!admin) {
+        throw new SocketAuthError('ACCOUNT_NOT_FOUND', '管理员不存在');
+      }
+      // 与 AuthGuard 一致：修改密码、强制下线后的旧Token不能再建立连接
+      if (
+        adminPayload.tokenVersion !== undefined &&
+        adminPayload.tokenVersion !== admin.token_version
+      ) {
+        throw new SocketAuthError('TOKEN_INVALID', 'Token已失效，请重新登录');
+      }
+      if (
+        adminPayload.sid &&
+        !(await this.adminSessionService.isActive(adminPayload.sid, admin.id))
+      ) {
+        throw new SocketAuthError('TOKEN_INVALID', '会话已失效，请重新登录');
+      }
+      const payeeId = await this.eventsService.findPayeeIdByAdmin(admin.id);
+      if (!payeeId) {
+        throw new SocketAuthError('PAYEE_NOT_BOUND', '该管理员未绑定收款人');
+      }
+      return {
+        type: 'payee',
+        adminId: admin.id,
+        payeeId,
+        expiresAt: expiresAt ?? Number.MAX_SAFE_INTEGER,
+      };
+    }
+
+    const customerPayload = this.authJwtService.verifyCustomerToken(token);
+    if (customerPayload) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: customerPayload.id },
+        select: { id: true, token_version: true, must_change_password: true },
+      });
+      if (!user) {
+        throw new SocketAuthError('ACCOUNT_NOT_FOUND', '用户不存在');
+      }
+      if (user.token_version !== customerPayload.tokenVersion) {
+        throw new SocketAuthError('TOKEN_INVALID', 'Token已失效，请重新登录');
+      }
+      // 与 CustomerAuthGuard 一致：修改初始密码前不允许使用业务功能
+      if (user.must_change_password) {
+        throw new SocketAuthError(
+          'PASSWORD_CHANGE_REQUIRED',
+          '首次登录请先修改密码',
+        );
+      }
+      return {
+        type: 'customer',
+        userId: user.id,
+        expiresAt: expiresAt ?? Number.MAX_SAFE_INTEGER,
+      };
+    }
+
+    throw new SocketAuthError('TOKEN_INVALID', '无效的认证Token');
+  }
+}
@@ -0,0 +1,99 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import cookieParser from 'cookie-parser';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AdminSessionService } from '../auth/admin-session.service';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthJwtService } from '../auth/jwt.service';
+import { RolesGuard } from '../auth/roles.guard';
+import { EventsController } from './events.controller';
+import { EventsService } from './events.service';
+
+describe('EventsController grab_order', () => {
+  let app: INestApplication<App>;
+  const eventsService = {
+    findPayeeIdByAdmin: jest.fn(),
+    handleGrabOrder: jest.fn(),
+  };
+  const authJwtService = {
+    verifyAccessToken: jest.fn(),
+    isTokenExpiringSoon: jest.fn().mockReturnValue(false),
+  };
+  const prisma = {
+    admin: { findUnique: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const moduleRef = await Test.createTestingModule({
+      controllers: [EventsController],
+      providers: [
+        AuthGuard,
+        RolesGuard,
+        { provide: EventsService, useValue: eventsService },
+        { provide: AuthJwtService, useValue: authJwtService },
+        { provide: PrismaService, useValue: prisma },
+        { provide: AdminSessionService, useValue: { isActive: jest.fn() } },
+      ],
+    }).compile();
+
+    app = moduleRef.createNestApplication();
+    app.use(cookieParser());
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('rejects unauthenticated grabs even with admin_id in the body', async () => {
+    await request(app.getHttpServer())
+      .post('/events')
+      .send({ type: 'grab_order', data: { id: 'order-1', admin_id: 1 } })
+      .expect(401);
+
+    expect(eventsService.findPayeeIdByAdmin).not.toHaveBeenCalled();
+    expect(eventsService.handleGrabOrder).not.toHaveBeenCalled();
+  });
+
+  it('rejects logged-in admins without the PAYEE role', async () => {
+    authJwtService.verifyAccessToken.mockReturnValue({ id: 3 });
+    prisma.admin.findUnique.mockResolvedValue({
+      id: 3,
+      username: 'ops',
+      role: 'COLLECTOR',
+      token_version: 0,
+    });
+
+    await request(app.getHttpServer())
+      .post('/events')
+      .set('Cookie', 'access_token=token')
+      .send({ type: 'grab_order', data: { id: 'order-1', admin_id: 1 } })
+      .expect(403);
+
+    expect(eventsService.handleGrabOrder).not.toHaveBeenCalled();
+  });
+
+  it('grabs as the logged-in payee and ignores the body admin_id', async () => {
+    authJwtService.verifyAccessToken.mockReturnValue({ id: 7 });
+    prisma.admin.findUnique.mockResolvedValue({
+      id: 7,
+      username: 'payee',
+      role: 'PAYEE',
+      token_version: 0,
+    });
+    eventsService.findPayeeIdByAdmin.mockResolvedValue(70);
+    eventsService.handleGrabOrder.mockResolvedValue({ success: true });
+
+    await request(app.getHttpServer())
+      .post('/events')
+      .set('Cookie', 'access_token=token')
+      .send({ type: 'grab_order', data: { id: 'order-1', admin_id: 1 } })
+      .expect(201);
+
+    expect(eventsService.findPayeeIdByAdmin).toHaveBeenCalledWith(7);
+    expect(eventsService.handleGrabOrder).toHaveBeenCalledWith(70, 'order-1');
+  });
+});
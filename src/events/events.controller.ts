@@ -1,7 +1,22 @@
-import { Controller, Post, Body, BadRequestException } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  BadRequestException,
+  ForbiddenException,
+  UseGuards,
+} from '@nestjs/common';
 import { EventsService } from './events.service';
-import { PaymentMethod } from '@prisma/client';
+import { ManagementRoles, PaymentMethod } from '@prisma/client';
 import { randomUUID } from 'crypto';
+import { AuthGuard } from '../auth/auth.guard';
+import { CustomerAuthGuard } from '../auth/customer-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { ApiResponseDto } from '../common/dto/api-response.dto';
+import { ResponseHelper } from '../common/response-helper';
 @Controller('events')
 export class EventsController {
   constructor(private readonly eventsService: EventsService) {}
@@ -49,36 +64,70 @@ export class EventsController {
     };
   }
 
+  /**
+   * 收款人/客户在线状态
+   * GET /events/presence
+   */
+  @Get('presence')
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(ManagementRoles.ADMIN)
+  async getPresence(): Promise<ApiResponseDto> {
+    const presence = await this.eventsService.getPresenceOverview();
+    return ResponseHelper.success(presence, '获取在线状态成功');
+  }
+
+  /**
+   * 客户提交还款订单，客户ID以登录身份为准
+   * POST /events/orders
+   */
+  @Post('orders')
+  @UseGuards(CustomerAuthGuard)
+  async submitOrder(
+    @CurrentUser() user: { id: number },
+    @Body() body: unknown,
+  ): Promise<ApiResponseDto> {
+    const payload = this.buildSubmitOrderPayload({
+      ...(body && typeof body === 'object' ? body : {}),
+      customer_id: user.id,
+    });
+    if (
+      !(await this.eventsService.isLoanOwnedByCustomer(
+        payload.loan_id,
+        user.id,
+      ))
+    ) {
+      throw new ForbiddenException('无权为该贷款提交订单');
+    }
+    const result = await this.eventsService.submitOrder(payload);
+    return ResponseHelper.success(result, '提交订单成功');
+  }
+
+  /**
+   * 收款人抢单，收款人以登录身份为准，忽略请求体中的 admin_id
+   * POST /events
+   */
   @Post()
-  async post(@Body() body: unknown) {
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(ManagementRoles.PAYEE)
+  async post(@CurrentUser() user: { id: number }, @Body() body: unknown) {
     const parsedBody = body as { type?: string; data?: unknown } | undefined;
     const type = parsedBody?.type;
     const data = parsedBody?.data;
 
     if (type === 'submit_order') {
-      if (!data || typeof data !== 'object' || data === null) {
-        throw new BadRequestException('Invalid order payload');
-      }
-      const payload = this.buildSubmitOrderPayload(data);
-      return this.eventsService.submitOrder(payload);
+      // 提交订单需要客户认证
+      throw new BadRequestException('提交订单请使用 POST /events/orders');
     }
 
     if (type === 'grab_order') {
-      const dataObj = data as { id: string; admin_id: number };
-      const adminId = dataObj?.admin_id ? Number(dataObj.admin_id) : undefined;
-      if (!adminId || !Number.isFinite(adminId)) {
-        throw new BadRequestException(
-          'Missing or invalid admin_id in request body',
-        );
-      }
-
-      const foundPayeeId = await this.eventsService.findPayeeIdByAdmin(adminId);
+      const dataObj = data as { id: string } | undefined;
+      const foundPayeeId = await this.eventsService.findPayeeIdByAdmin(user.id);
       if (!foundPayeeId) {
         throw new BadRequestException('该管理员未绑定收款人');
       }
 
-      const orderId = String(dataObj?.id);
-      if (!orderId || typeof orderId !== 'string') {
+      const orderId = dataObj?.id ? String(dataObj.id) : '';
+      if (!orderId) {
         throw new BadRequestException('Invalid order id');
       }
       return this.eventsService.handleGrabOrder(foundPayeeId, orderId);
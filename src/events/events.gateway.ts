@@ -4,21 +4,35 @@ import {
   SubscribeMessage,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
   ConnectedSocket,
   MessageBody,
 } from '@nestjs/websockets';
-import { Server, Socket } from 'socket.io';
+import { Namespace, Socket } from 'socket.io';
 import { EventsService } from './events.service';
 import { PaymentMethod } from '@prisma/client';
 import { randomUUID } from 'crypto';
+import {
+  EventsAuthService,
+  SocketAuthError,
+  SocketAuthErrorCode,
+  SocketIdentity,
+} from './events-auth.service';
 
 interface WebSocketClient extends Socket {
   connectionType?: 'payee' | 'customer';
   payeeId?: number;
   userId?: number;
   connectionId?: string;
+  authExpiresAt?: number;
+  authTimers?: NodeJS.Timeout[];
 }
 
+// Token到期前提前通知客户端重新认证的时间（毫秒）
+const REAUTH_NOTICE_MS = 60 * 1000;
+// setTimeout 支持的最大延迟
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
 @WebSocketGateway({
   cors: {
     origin: '*',
@@ -27,11 +41,20 @@ interface WebSocketClient extends Socket {
   namespace: '/events',
   transports: ['websocket', 'polling'],
 })
-export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class EventsGateway
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
+{
   @WebSocketServer()
-  server: Server;
+  server: Namespace;
 
-  constructor(private readonly eventsService: EventsService) {}
+  constructor(
+    private readonly eventsService: EventsService,
+    private readonly eventsAuthService: EventsAuthService,
+  ) {}
+
+  afterInit(server: Namespace) {
+    this.eventsService.bindServer(server);
+  }
 
   private buildSubmitOrderPayload(data: unknown) {
     if (!data || typeof data !== 'object') {
@@ -76,90 +99,106 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
     };
   }
 
-  async handleConnection(client: WebSocketClient, ...args: any[]) {
-    // console.log('🔌 WebSocket客户端连接:', {
-    //   clientId: client.id,
-    //   query: client.handshake.query,
-    //   headers: client.handshake.headers,
-    //   address: client.handshake.address,
-    //   url: client.handshake.url,
-    //   namespace: client.nsp.name,
-    // });
-
-    // 从查询参数获取连接信息
-    const query = client.handshake.query;
-    const type = query.type as 'payee' | 'customer';
-    const userIdQuery = query.user_id as string;
-    const adminIdQuery = query.admin_id as string;
-
-    if (!type || (type !== 'payee' && type !== 'customer')) {
-      console.error('❌ 无效的连接类型:', {
-        type,
-        validTypes: ['payee', 'customer'],
-        allQueryParams: query,
-      });
-      client.emit('error', {
-        type: 'connection_error',
-        data: {
-          message: `Invalid connection type: ${type}. Must be 'payee' or 'customer'`,
-        },
-      });
-      client.disconnect();
-      return;
-    }
+  /**
+   * 拒绝连接：发送 unauthorized 事件后断开
+   */
+  private rejectClient(
+    client: WebSocketClient,
+    code: SocketAuthErrorCode,
+    message: string,
+  ) {
+    this.clearAuthTimers(client);
+    client.emit('unauthorized', {
+      type: 'unauthorized',
+      data: { code, message },
+    });
+    client.disconnect(true);
+  }
 
-    let payeeId: number | undefined;
-    if (type === 'payee') {
-      const adminId = adminIdQuery ? Number(adminIdQuery) : undefined;
+  private clearAuthTimers(client: WebSocketClient) {
+    client.authTimers?.forEach((timer) => clearTimeout(timer));
+    client.authTimers = [];
+  }
 
-      if (!adminId || !Number.isFinite(adminId)) {
-        console.error('❌ 收款人连接缺少或无效的admin_id:', {
-          adminIdQuery,
-          parsedAdminId: adminId,
-          isFinite: Number.isFinite(adminId),
-        });
-        client.emit('error', {
-          type: 'connection_error',
-          data: { message: `Missing or invalid admin_id: ${adminIdQuery}` },
-        });
-        client.disconnect();
-        return;
-      }
+  /**
+   * 按Token过期时间安排重新认证提醒和到期断开
+   */
+  private scheduleAuthExpiry(client: WebSocketClient, expiresAt: number) {
+    this.clearAuthTimers(client);
+    client.authExpiresAt = expiresAt;
 
-      const foundPayeeId = await this.eventsService.findPayeeIdByAdmin(adminId);
+    const remaining = expiresAt - Date.now();
+    if (remaining > MAX_TIMER_MS) {
+      return;
+    }
+    const timers: NodeJS.Timeout[] = [];
+    if (remaining > REAUTH_NOTICE_MS) {
+      timers.push(
+        setTimeout(() => {
+          client.emit('token_expiring', {
+            type: 'token_expiring',
+            data: { expiresAt: new Date(expiresAt).toISOString() },
+          });
+        }, remaining - REAUTH_NOTICE_MS),
+      );
+    }
+    timers.push(
+      setTimeout(
+        () => {
+          console.warn(`⏰ WebSocket客户端 ${client.id} Token已过期，断开连接`);
+          this.rejectClient(client, 'TOKEN_EXPIRED', 'Token已过期，请重新认证');
+        },
+        Math.max(0, remaining),
+      ),
+    );
+    client.authTimers = timers;
+  }
 
-      if (!foundPayeeId) {
-        console.error('❌ 该管理员未绑定收款人:', {
-          adminId,
-          foundPayeeId,
-        });
-        client.emit('error', {
-          type: 'connection_error',
-          data: { message: `Admin ${adminId} is not bound to any payee` },
-        });
-        client.disconnect();
-        return;
-      }
-      payeeId = foundPayeeId;
+  /**
+   * 校验连接仍处于认证有效期内，否则拒绝
+   */
+  private ensureAuthenticated(client: WebSocketClient): boolean {
+    if (!client.connectionId || !client.authExpiresAt) {
+      this.rejectClient(client, 'TOKEN_MISSING', '连接未认证');
+      return false;
     }
+    if (client.authExpiresAt <= Date.now()) {
+      this.rejectClient(client, 'TOKEN_EXPIRED', 'Token已过期，请重新认证');
+      return false;
+    }
+    return true;
+  }
 
-    if (type === 'customer' && !userIdQuery) {
-      console.error('❌ 客户连接缺少user_id:', {
-        type,
-        userIdQuery,
-        allQueryParams: query,
-      });
-      client.emit('error', {
-        type: 'connection_error',
-        data: { message: 'Customer connection missing user_id' },
-      });
-      client.disconnect();
+  async handleConnection(client: WebSocketClient) {
+    // 连接身份只取自Token，查询参数中的 type 仅用于校验客户端预期的连接类型
+    const expectedType = client.handshake.query.type as string | undefined;
+
+    let identity: SocketIdentity;
+    try {
+      identity = await this.eventsAuthService.authenticate(
+        this.eventsAuthService.extractToken(client),
+      );
+    } catch (error) {
+      const code =
+        error instanceof SocketAuthError ? error.code : 'TOKEN_INVALID';
+      const message =
+        error instanceof SocketAuthError ? error.message : '认证失败';
+      console.error('❌ WebSocket连接认证失败:', { clientId: client.id, code });
+      this.rejectClient(client, code, message);
       return;
     }
 
-    const userId = userIdQuery ? Number(userIdQuery) : undefined;
+    if (expectedType && expectedType !== identity.type) {
+      this.rejectClient(
+        client,
+        'TYPE_MISMATCH',
+        `Token身份为 ${identity.type}，与连接类型 ${expectedType} 不符`,
+      );
+      return;
+    }
 
-    const connectionId = this.eventsService.addConnection(type, client, {
+    const { type, payeeId, userId } = identity;
+    const connectionId = await this.eventsService.addConnection(type, client, {
       payeeId,
       userId,
     });
@@ -169,12 +208,17 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
     client.payeeId = payeeId;
     client.userId = userId;
     client.connectionId = connectionId;
+    this.scheduleAuthExpiry(client, identity.expiresAt);
 
     // 发送连接成功消息
     client.emit('connected', {
       type: 'connected',
       connectionId,
-      data: { payeeId, userId },
+      data: {
+        payeeId,
+        userId,
+        expiresAt: new Date(identity.expiresAt).toISOString(),
+      },
     });
 
     console.log(`✅ WebSocket客户端 ${client.id} 连接成功`, {
@@ -185,11 +229,12 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
     });
   }
 
-  handleDisconnect(client: WebSocketClient) {
+  async handleDisconnect(client: WebSocketClient) {
     console.log('WebSocket client disconnected:', client.id);
+    this.clearAuthTimers(client);
 
     if (client.connectionId && client.connectionType) {
-      this.eventsService.removeConnection(
+      await this.eventsService.removeConnection(
         client.connectionId,
         client.connectionType,
         {
@@ -200,14 +245,91 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
+  /**
+   * 使用新Token重新认证（Token到期前调用），身份必须与当前连接一致
+   */
+  @SubscribeMessage('authenticate')
+  async handleAuthenticate(
+    @ConnectedSocket() client: WebSocketClient,
+    @MessageBody() data: { token?: string },
+  ) {
+    if (!client.connectionId) {
+      this.rejectClient(client, 'TOKEN_MISSING', '连接未认证');
+      return;
+    }
+    try {
+      const identity = await this.eventsAuthService.authenticate(
+        typeof data?.token === 'string' ? data.token : null,
+      );
+      if (
+        identity.type !== client.connectionType ||
+        identity.payeeId !== client.payeeId ||
+        identity.userId !== client.userId
+      ) {
+        throw new SocketAuthError(
+          'IDENTITY_MISMATCH',
+          'Token身份与当前连接不符',
+        );
+      }
+      this.scheduleAuthExpiry(client, identity.expiresAt);
+      const result = {
+        type: 'authenticated',
+        data: { expiresAt: new Date(identity.expiresAt).toISOString() },
+      };
+      client.emit('authenticated', result);
+      return result;
+    } catch (error) {
+      const code =
+        error instanceof SocketAuthError ? error.code : 'TOKEN_INVALID';
+      const message =
+        error instanceof SocketAuthError ? error.message : '认证失败';
+      this.rejectClient(client, code, message);
+    }
+  }
+
+  @SubscribeMessage('heartbeat')
+  async handleHeartbeat(@ConnectedSocket() client: WebSocketClient) {
+    if (!this.ensureAuthenticated(client)) {
+      return;
+    }
+    if (client.connectionId && client.connectionType) {
+      await this.eventsService.heartbeat(
+        client.connectionId,
+        client.connectionType,
+        { payeeId: client.payeeId, userId: client.userId },
+      );
+    }
+    const ack = { type: 'heartbeat_ack', timestamp: new Date().toISOString() };
+    client.emit('heartbeat_ack', ack);
+    return ack;
+  }
+
   @SubscribeMessage('submit_order')
   async handleSubmitOrder(
     @ConnectedSocket() client: WebSocketClient,
     @MessageBody() data: unknown,
   ) {
+    if (!this.ensureAuthenticated(client)) {
+      return;
+    }
     try {
       console.log('📥 提交订单请求数据:', data);
-      const payload = this.buildSubmitOrderPayload(data);
+      if (client.connectionType !== 'customer') {
+        throw new Error('仅客户连接可以提交订单');
+      }
+      // 客户ID以Token身份为准
+      const payload = this.buildSubmitOrderPayload({
+        ...(data && typeof data === 'object' ? data : {}),
+        customer_id: client.userId,
+      });
+      if (
+        !(await this.eventsService.isLoanOwnedByCustomer(
+          payload.loan_id,
+          payload.customer_id,
+        ))
+      ) {
+        throw new Error('无权为该贷款提交订单');
+      }
       const result = await this.eventsService.submitOrder(payload);
 
       // 发送确认消息给客户
@@ -229,18 +351,17 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
   @SubscribeMessage('grab_order')
   async handleGrabOrder(
     @ConnectedSocket() client: WebSocketClient,
-    @MessageBody() data: { id: string; admin_id: number },
+    @MessageBody() data: { id: string },
   ) {
+    if (!this.ensureAuthenticated(client)) {
+      return;
+    }
     try {
       console.log('🎯 抢单请求数据:', data);
-      const adminId = data?.admin_id ? Number(data.admin_id) : undefined;
-      if (!adminId || !Number.isFinite(adminId)) {
-        throw new Error('Missing or invalid admin_id in request body');
-      }
-
-      const foundPayeeId = await this.eventsService.findPayeeIdByAdmin(adminId);
-      if (!foundPayeeId) {
-        throw new Error('该管理员未绑定收款人');
+      // 收款人以连接认证时解析的身份为准，忽略请求体中的 admin_id
+      const foundPayeeId = client.payeeId;
+      if (client.connectionType !== 'payee' || !foundPayeeId) {
+        throw new Error('仅收款人连接可以抢单');
       }
 
       const orderId = String(data?.id);
@@ -259,78 +380,25 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
         orderId,
       );
 
-      // 如果抢单成功，通知客户
-      if (result.success && order.customer_id) {
-        const customerConnectionId = this.eventsService.getCustomerConnectionId(
-          order.customer_id,
-        );
-        console.log('📨 尝试通知客户:', {
-          customerId: order.customer_id,
-          connectionId: customerConnectionId,
+      // 抢单失败（已被抢、已过期或额度不足），明确告知抢单方
+      if (!result.success) {
+        client.emit('grab_order_result', {
+          type: 'grab_order_result',
+          code: 409,
+          data: result,
+          message: result.message,
         });
-        let customerSocket: Socket | undefined;
-
-        if (customerConnectionId) {
-          try {
-            const serverSockets = (this.server as any).sockets;
-            console.log('🔍 server.sockets snapshot:', {
-              type: typeof serverSockets,
-              hasSocketsField: !!serverSockets?.sockets,
-              socketsIsMap: serverSockets?.sockets instanceof Map,
-            });
-            // 常见结构 1: this.server.sockets 是 namespace，内部有 .sockets (Map or object)
-            if (serverSockets) {
-              if (typeof serverSockets.get === 'function') {
-                // 直接是 Map-like
-                customerSocket = serverSockets.get(customerConnectionId);
-              } else if (serverSockets.sockets) {
-                const inner = serverSockets.sockets;
-                if (inner instanceof Map) {
-                  customerSocket = inner.get(customerConnectionId);
-                } else {
-                  // plain object keyed by socket id
-                  customerSocket = inner[customerConnectionId];
-                }
-              }
-            }
-          } catch (e) {
-            console.error('🔴 获取 customer socket 时发生异常:', e);
-          }
-          client.emit('grab_order_result', {
-            type: 'grab_order_result',
-            code: 200,
-            data: result,
-            message: result.success ? '抢单成功' : '抢单处理完成',
-          });
-
-          // 获取订单的完整信息（包括expires_at和amount）
-          const orderDetails = await this.eventsService.getOrderById(orderId);
-
-          if (customerSocket) {
-            customerSocket.emit('order_grabbed', {
-              type: 'order_grabbed',
-              data: {
-                id: orderId,
-                payeeId: foundPayeeId,
-                payeeName: result.payeeName,
-                amount: orderDetails?.amount
-                  ? Number(orderDetails.amount)
-                  : Number(order.amount),
-                expires_at:
-                  orderDetails?.expires_at?.toISOString() ||
-                  new Date(Date.now() + 60 * 1000).toISOString(),
-              },
-            });
-            console.log('✅ 已发送抢单通知给客户:', order.customer_id);
-          } else {
-            console.log(
-              '❌ 未找到客户的socket连接（兼容检索失败）:',
-              customerConnectionId,
-            );
-          }
-        }
+        return result;
       }
 
+      // 抢单成功：客户的 order_grabbed 通知已由 EventsService 按房间发送
+      client.emit('grab_order_result', {
+        type: 'grab_order_result',
+        code: 200,
+        data: result,
+        message: '抢单成功',
+      });
+
       return result;
     } catch (error) {
       client.emit('error', {
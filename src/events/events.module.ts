@@ -2,12 +2,32 @@ import { Module } from '@nestjs/common';
 import { EventsController } from './events.controller';
 import { EventsGateway } from './events.gateway';
 import { EventsService } from './events.service';
+import { EventsAuthService } from './events-auth.service';
 import { PrismaModule } from '../../prisma/prisma.module';
+import { PayeeLimitModule } from '../payee-limit/payee-limit.module';
+import { DispatchStrategyModule } from '../dispatch-strategy/dispatch-strategy.module';
+import { OrderEventsModule } from '../order-events/order-events.module';
+import {
+  EVENTS_NODE_ID,
+  eventsClusterProviders,
+} from './cluster/cluster.providers';
+import { EVENTS_BUS } from './cluster/events-bus';
+import { PRESENCE_REGISTRY } from './cluster/presence-registry';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [
+    PrismaModule,
+    PayeeLimitModule,
+    DispatchStrategyModule,
+    OrderEventsModule,
+  ],
   controllers: [EventsController],
-  providers: [EventsService, EventsGateway],
-  exports: [EventsService],
+  providers: [
+    EventsService,
+    EventsAuthService,
+    EventsGateway,
+    ...eventsClusterProviders,
+  ],
+  exports: [EventsService, EVENTS_BUS, PRESENCE_REGISTRY, EVENTS_NODE_ID],
 })
 export class EventsModule {}
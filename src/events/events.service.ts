@@ -1,7 +1,23 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { PaymentMethod } from '@prisma/client';
-import type { Socket } from 'socket.io';
+import type { Namespace, Server, Socket } from 'socket.io';
+import { PayeeLimitService } from '../payee-limit/payee-limit.service';
+import { DispatchStrategyService } from '../dispatch-strategy/dispatch-strategy.service';
+import { OrderEventsService } from '../order-events/order-events.service';
+import { EVENTS_BUS } from './cluster/events-bus';
+import type { EventsBus } from './cluster/events-bus';
+import { PRESENCE_REGISTRY } from './cluster/presence-registry';
+import type {
+  PresenceEntry,
+  PresenceRegistry,
+} from './cluster/presence-registry';
+import { EVENTS_NODE_ID } from './cluster/cluster.providers';
 
 interface OrderPayload {
   id: string;
@@ -14,76 +30,287 @@ interface OrderPayload {
   customer: { address?: string; username?: string; phone?: string };
 }
 
+// 抢单失败（订单已被抢/过期、额度不足），用于回滚事务并返回给抢单方
+class GrabOrderError extends Error {}
+
+// 房间命名：每个收款人/客户一个房间，所有收款人共享 PAYEES_ROOM
+const PAYEES_ROOM = 'payees';
+const payeeRoom = (payeeId: number) => `payee:${payeeId}`;
+const customerRoom = (userId: number) => `customer:${userId}`;
+
 @Injectable()
-export class EventsService {
-  private readonly wsConnections = new Map<string, Socket>();
-  private readonly payeeConnections = new Map<number, string>();
-  private readonly customerConnections = new Map<number, string>();
+export class EventsService implements OnModuleInit, OnModuleDestroy {
+  private server?: Namespace | Server;
   private readonly pendingOrders = new Map<string, OrderPayload>();
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly payeeLimitService: PayeeLimitService,
+    private readonly dispatchStrategyService: DispatchStrategyService,
+    private readonly orderEventsService: OrderEventsService,
+    @Inject(EVENTS_BUS) private readonly eventsBus: EventsBus,
+    @Inject(PRESENCE_REGISTRY)
+    private readonly presenceRegistry: PresenceRegistry,
+    @Inject(EVENTS_NODE_ID) private readonly nodeId: string,
+  ) {}
+
+  async onModuleInit() {
+    await this.restorePendingOrders();
+  }
+
+  async onModuleDestroy() {
+    // 实例退出时清除本实例登记的在线连接
+    await this.presenceRegistry.removeNode(this.nodeId);
+    await this.eventsBus.close();
+  }
+
+  /**
+   * 从订单表恢复待抢订单（服务重启后内存中的订单池会丢失）
+   */
+  async restorePendingOrders(): Promise<number> {
+    const orders = await this.prisma.order.findMany({
+      where: {
+        status: 'pending',
+        expires_at: { gt: new Date() },
+      },
+      include: {
+        customer: { select: { address: true, username: true, phone: true } },
+      },
+    });
+
+    this.pendingOrders.clear();
+    for (const order of orders) {
+      this.pendingOrders.set(order.id, this.toOrderPayload(order));
+    }
+
+    console.log(`♻️ 已从数据库恢复 ${orders.length} 个待抢订单`);
+    return orders.length;
+  }
 
-  addConnection(
+  private toOrderPayload(order: {
+    id: string;
+    customer_id: number;
+    loan_id: string;
+    amount: unknown;
+    payment_periods: number;
+    payment_method: PaymentMethod;
+    remark: string | null;
+    customer?: {
+      address?: string | null;
+      username?: string | null;
+      phone?: string | null;
+    } | null;
+  }): OrderPayload {
+    return {
+      id: order.id,
+      customer_id: order.customer_id,
+      loan_id: order.loan_id,
+      amount: Number(order.amount),
+      payment_periods: order.payment_periods,
+      payment_method: order.payment_method,
+      remark: order.remark,
+      customer: {
+        address: order.customer?.address ?? undefined,
+        username: order.customer?.username ?? undefined,
+        phone: order.customer?.phone ?? undefined,
+      },
+    };
+  }
+
+  /**
+   * 绑定 /events 命名空间（由 EventsGateway 初始化时调用）
+   */
+  bindServer(server: Namespace | Server): void {
+    this.server = server;
+  }
+
+  async addConnection(
     type: 'payee' | 'customer',
     socket: Socket,
     opts: { payeeId?: number; userId?: number },
-  ): string {
+  ): Promise<string> {
     const connectionId = socket.id;
-    this.wsConnections.set(connectionId, socket);
+    const connectedAt = new Date().toISOString();
     if (type === 'payee' && opts.payeeId) {
-      this.payeeConnections.set(opts.payeeId, connectionId);
-      console.log(
-        `✅ 收款人 ${opts.payeeId} 连接已存储，连接ID: ${connectionId}`,
-      );
+      await socket.join([payeeRoom(opts.payeeId), PAYEES_ROOM]);
+      await this.presenceRegistry.add({
+        kind: 'payee',
+        id: opts.payeeId,
+        socketId: connectionId,
+        nodeId: this.nodeId,
+        connectedAt,
+        lastHeartbeatAt: connectedAt,
+      });
       console.log(
-        `📊 当前活跃的收款人连接:`,
-        Array.from(this.payeeConnections.entries()).map(
-          ([payeeId, connId]) => `${payeeId}:${connId}`,
-        ),
+        `✅ 收款人 ${opts.payeeId} 连接已存储，连接ID: ${connectionId}，实例: ${this.nodeId}`,
       );
     }
     if (type === 'customer' && opts.userId) {
-      this.customerConnections.set(opts.userId, connectionId);
+      await socket.join(customerRoom(opts.userId));
+      await this.presenceRegistry.add({
+        kind: 'customer',
+        id: opts.userId,
+        socketId: connectionId,
+        nodeId: this.nodeId,
+        connectedAt,
+        lastHeartbeatAt: connectedAt,
+      });
       console.log(`✅ 客户 ${opts.userId} 已连接，连接ID: ${connectionId}`);
     }
 
     return connectionId;
   }
 
-  removeConnection(
+  async removeConnection(
     connectionId: string,
     type: 'payee' | 'customer',
     opts: { payeeId?: number; userId?: number },
-  ): void {
-    this.wsConnections.delete(connectionId);
+  ): Promise<void> {
     if (type === 'payee' && opts.payeeId) {
-      const mapped = this.payeeConnections.get(opts.payeeId);
-      if (mapped === connectionId) this.payeeConnections.delete(opts.payeeId);
+      await this.presenceRegistry.remove('payee', opts.payeeId, connectionId);
+    }
+    if (type === 'customer' && opts.userId) {
+      await this.presenceRegistry.remove('customer', opts.userId, connectionId);
+    }
+  }
+
+  /**
+   * 记录客户端心跳
+   */
+  async heartbeat(
+    connectionId: string,
+    type: 'payee' | 'customer',
+    opts: { payeeId?: number; userId?: number },
+  ): Promise<void> {
+    if (type === 'payee' && opts.payeeId) {
+      await this.presenceRegistry.heartbeat(
+        'payee',
+        opts.payeeId,
+        connectionId,
+      );
     }
     if (type === 'customer' && opts.userId) {
-      const mapped = this.customerConnections.get(opts.userId);
-      if (mapped === connectionId) this.customerConnections.delete(opts.userId);
+      await this.presenceRegistry.heartbeat(
+        'customer',
+        opts.userId,
+        connectionId,
+      );
     }
   }
 
-  private sendToConnection(connectionId: string, event: unknown): void {
-    const socket = this.wsConnections.get(connectionId);
-    if (!socket) return;
-    socket.emit('message', event);
+  /**
+   * 在线状态总览：收款人（含未在线的）及在线客户，
+   * 用于排查订单为何没有被抢（收款人不在线、心跳超时、没有启用对应二维码等）
+   */
+  async getPresenceOverview() {
+    const staleSeconds = Number(process.env.PRESENCE_STALE_SECONDS) || 90;
+    const staleBefore = Date.now() - staleSeconds * 1000;
+
+    const [payeeEntries, customerEntries, payeeDisconnects, payees] =
+      await Promise.all([
+        this.presenceRegistry.list('payee'),
+        this.presenceRegistry.list('customer'),
+        this.presenceRegistry.lastDisconnects('payee'),
+        this.prisma.payee.findMany({
+          select: {
+            id: true,
+            username: true,
+            is_disabled: true,
+            remaining_limit: true,
+            qrcode: {
+              where: { active: true },
+              select: { qrcode_type: true },
+            },
+          },
+          orderBy: { id: 'asc' },
+        }),
+      ]);
+
+    const summarize = (entries: PresenceEntry[]) => {
+      if (entries.length === 0) return null;
+      const connectedAt = entries.map((e) => e.connectedAt).sort()[0];
+      const lastHeartbeatAt = entries
+        .map((e) => e.lastHeartbeatAt)
+        .sort()
+        .reverse()[0];
+      return {
+        connectedAt,
+        lastHeartbeatAt,
+        connections: entries.length,
+        nodes: Array.from(new Set(entries.map((e) => e.nodeId))),
+        // 超过阈值未收到心跳，连接可能已失效
+        stale: new Date(lastHeartbeatAt).getTime() < staleBefore,
+      };
+    };
+
+    const payeeList = payees.map((payee) => {
+      const presence = summarize(payeeEntries.filter((e) => e.id === payee.id));
+      return {
+        payeeId: payee.id,
+        username: payee.username,
+        is_disabled: payee.is_disabled,
+        remaining_limit: payee.remaining_limit,
+        activeQrTypes: Array.from(
+          new Set(payee.qrcode.map((q) => q.qrcode_type)),
+        ),
+        online: presence !== null,
+        ...presence,
+        lastDisconnectedAt: payeeDisconnects.get(payee.id) ?? null,
+      };
+    });
+
+    const customerIds = Array.from(new Set(customerEntries.map((e) => e.id)));
+    const customers = await this.prisma.user.findMany({
+      where: { id: { in: customerIds } },
+      select: { id: true, username: true },
+    });
+    const customerList = customers.map((customer) => ({
+      userId: customer.id,
+      username: customer.username,
+      ...summarize(customerEntries.filter((e) => e.id === customer.id)),
+    }));
+
+    return {
+      staleSeconds,
+      payees: payeeList,
+      customers: customerList,
+      summary: {
+        payeesOnline: payeeList.filter((p) => p.online).length,
+        payeesTotal: payeeList.length,
+        customersOnline: customerList.length,
+      },
+    };
   }
 
-  getCustomerConnectionId(userId: number): string | undefined {
-    return this.customerConnections.get(userId);
+  /**
+   * 按房间发送消息，经跨实例适配器送达连接在任意实例上的客户端
+   */
+  private sendToRoom(room: string, event: unknown, eventName = 'message') {
+    if (!this.server) return;
+    this.server.to(room).emit(eventName, event);
   }
 
-  getPayeeConnectionId(payeeId: number): string | undefined {
-    return this.payeeConnections.get(payeeId);
+  sendToPayee(payeeId: number, event: unknown, eventName = 'message'): void {
+    this.sendToRoom(payeeRoom(payeeId), event, eventName);
   }
 
-  async submitOrder(data: OrderPayload) {
-    this.pendingOrders.set(data.id, data);
-    await this.broadcastOrder(data);
+  sendToCustomer(
+    customerId: number,
+    event: unknown,
+    eventName = 'message',
+  ): void {
+    this.sendToRoom(customerRoom(customerId), event, eventName);
+  }
 
+  isPayeeOnline(payeeId: number): Promise<boolean> {
+    return this.presenceRegistry.isOnline('payee', payeeId);
+  }
+
+  isCustomerOnline(userId: number): Promise<boolean> {
+    return this.presenceRegistry.isOnline('customer', userId);
+  }
+
+  async submitOrder(data: OrderPayload) {
     const customerId = Number(data.customer_id);
     const loanId = data.loan_id;
     const amount = data.amount;
@@ -117,14 +344,45 @@ export class EventsService {
       },
     });
 
+    await this.orderEventsService.record({
+      orderId: data.id,
+      type: 'submitted',
+      actorType: 'customer',
+      actorId: customerId,
+      detail: {
+        loan_id: loanId,
+        amount: Number(amount),
+        payment_periods: paymentPeriods,
+        payment_method: paymentMethod,
+        remark,
+        expires_at: expiresAt.toISOString(),
+      },
+    });
+
+    // 先落库再广播，订单表是待抢订单的唯一可信来源
+    this.pendingOrders.set(data.id, data);
+    await this.broadcastOrder(data);
+
     return { success: true, message: '订单已提交，等待收款人抢单' };
   }
 
   async handleGrabOrder(payeeId: number, id: string) {
-    const order = this.pendingOrders.get(id);
-    if (!order) {
+    // 以数据库中的订单状态为准，内存中的订单池仅作缓存
+    const record = await this.prisma.order.findUnique({
+      where: { id },
+      include: {
+        customer: { select: { address: true, username: true, phone: true } },
+      },
+    });
+    if (
+      !record ||
+      record.status !== 'pending' ||
+      record.expires_at.getTime() <= Date.now()
+    ) {
+      this.pendingOrders.delete(id);
       return { success: false, message: '订单不存在或已过期' };
     }
+    const order = this.pendingOrders.get(id) ?? this.toOrderPayload(record);
 
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -149,53 +407,72 @@ export class EventsService {
       return { success: false, message: '当日额度不足' };
     }
 
-    this.pendingOrders.delete(id);
+    // 检查派单策略中的每日抢单上限
+    if (await this.dispatchStrategyService.isOverDailyCap(payeeId)) {
+      return { success: false, message: '已达每日抢单上限' };
+    }
 
     try {
-      const customerId = Number(order.customer_id);
       const grabbedAt = new Date();
-      // 使用事务确保订单创建和额度减少的原子性
+      // 条件状态迁移：只有仍为 pending 且未过期的订单才能被抢，
+      // 且收款人额度足够时才扣减，任一条件不满足则整个事务回滚。
+      // 数据库是唯一裁决者，多个收款人或多个 PM2 实例并发抢单时只会有一个成功
       await this.prisma.$transaction(async (tx) => {
-        await tx.order.upsert({
-          where: { id },
-          update: {
+        const { count } = await tx.order.updateMany({
+          where: { id, status: 'pending', expires_at: { gt: grabbedAt } },
+          data: {
             payee_id: payeeId,
             status: 'grabbed',
             grabbed_at: grabbedAt,
             updated_at: grabbedAt,
             review_status: 'pending_review',
-          } as any,
-          create: {
-            id,
-            customer_id: customerId,
-            loan_id: order.loan_id,
-            amount: order.amount,
-            payment_periods: Number(order.payment_periods ?? 0),
-            payment_method: order.payment_method,
-            remark: order.remark ?? null,
-            status: 'grabbed',
-            payee_id: payeeId,
-            grabbed_at: grabbedAt,
-            expires_at: new Date(Date.now() + 90 * 1000),
-            review_status: 'pending_review',
-          } as any,
-        });
-
-        // 减少剩余额度
-        await tx.payee.update({
-          where: { id: payeeId },
-          data: {
-            remaining_limit: {
-              decrement: orderAmount,
-            },
           },
         });
+        if (count === 0) {
+          throw new GrabOrderError('订单已被其他收款人抢走或已过期');
+        }
+
+        // 减少剩余额度并记录额度流水
+        const remaining = await this.payeeLimitService.decrement(
+          tx,
+          payeeId,
+          orderAmount,
+          id,
+        );
+        if (remaining === null) {
+          throw new GrabOrderError('当日额度不足或已被禁止收款');
+        }
       });
     } catch (e) {
-      // ignore
-      console.log(e);
+      const message =
+        e instanceof GrabOrderError ? e.message : '抢单失败，请稍后重试';
+      if (e instanceof GrabOrderError) {
+        console.log(`⚠️ 收款人 ${payeeId} 抢单 ${id} 失败: ${e.message}`);
+      } else {
+        console.error(`❌ 收款人 ${payeeId} 抢单 ${id} 异常:`, e);
+      }
+      await this.orderEventsService.record({
+        orderId: id,
+        type: 'grab_failed',
+        actorType: 'payee',
+        actorId: payee.admin_id,
+        payeeId,
+        remark: message,
+      });
+      return { success: false, message };
     }
 
+    this.pendingOrders.delete(id);
+    this.withdrawOrderFromPayees(id);
+    await this.orderEventsService.record({
+      orderId: id,
+      type: 'grabbed',
+      actorType: 'payee',
+      actorId: payee.admin_id,
+      payeeId,
+      detail: { amount: orderAmount, payee_name: payee.username },
+    });
+
     // 获取订单的完整信息（包括expires_at和amount）
     const orderDetails = await this.prisma.order.findUnique({
       where: { id },
@@ -206,23 +483,22 @@ export class EventsService {
       },
     });
 
-    const connectionId = this.customerConnections.get(order.customer_id);
-    if (connectionId) {
-      this.sendToConnection(connectionId, {
-        type: 'order_grabbed',
-        data: {
-          id,
-          payeeId,
-          payeeName: payee.username,
-          amount: orderDetails?.amount
-            ? Number(orderDetails.amount)
-            : Number(order.amount),
-          expires_at:
-            orderDetails?.expires_at?.toISOString() ||
-            new Date(Date.now() + 90 * 1000).toISOString(),
-        },
-      });
-    }
+    const grabbedEvent = {
+      type: 'order_grabbed',
+      data: {
+        id,
+        payeeId,
+        payeeName: payee.username,
+        amount: orderDetails?.amount
+          ? Number(orderDetails.amount)
+          : Number(order.amount),
+        expires_at:
+          orderDetails?.expires_at?.toISOString() ||
+          new Date(Date.now() + 90 * 1000).toISOString(),
+      },
+    };
+    this.sendToCustomer(order.customer_id, grabbedEvent);
+    this.sendToCustomer(order.customer_id, grabbedEvent, 'order_grabbed');
 
     return {
       success: true,
@@ -233,97 +509,25 @@ export class EventsService {
   }
 
   private async calculatePayeePriority(orderData: OrderPayload) {
-    const { customer, amount, payment_method } = orderData;
     console.log(
-      `🔍 计算收款人优先级 - 订单: ${orderData.id}, 支付方式: ${payment_method}`,
+      `🔍 计算收款人优先级 - 订单: ${orderData.id}, 支付方式: ${orderData.payment_method}`,
     );
 
-    const payees = await this.prisma.payee.findMany({
-      where: {
-        is_disabled: false, // 过滤掉被禁收的收款人
-      },
-      include: {
-        qrcode: {
-          where: {
-            qrcode_type: payment_method,
-            active: true,
-          },
-        },
-      },
+    const ranking = await this.dispatchStrategyService.rankPayees({
+      customer_id: orderData.customer_id,
+      customer_address: orderData.customer?.address,
+      amount: Number(orderData.amount),
+      payment_method: orderData.payment_method,
     });
 
-    console.log(`👥 找到 ${payees.length} 个收款人`);
-
-    const payeePriorities: Array<{
-      payee: {
-        id: number;
-        username: string;
-        address?: string;
-        payment_limit: number;
-        remaining_limit: number;
-      };
-      priority: number;
-      delay: number;
-      remainingAmount: number;
-    }> = [];
-
-    for (const payee of payees) {
-      console.log(`🔍 检查收款人 ${payee.id} (${payee.username})`);
-
-      if (!payee.qrcode || payee.qrcode.length === 0) {
-        console.log(`❌ 收款人 ${payee.id} 没有匹配的二维码，跳过`);
-        continue;
-      }
-
-      let priority = 0;
-      let delay = 3_000;
-
-      const historyCount = await this.prisma.repaymentRecord.count({
-        where: {
-          actual_collector_id: payee.admin_id,
-          user_id: orderData.customer_id,
-        },
-      });
-      console.log(
-        `🔍 收款人 ${payee.id} 的历史还款记录: ${historyCount},orderData.customer_id: ${orderData.customer_id}`,
-      );
-      // 使用 remaining_limit 来判断是否足够
-      if (payee.remaining_limit < Number(amount)) {
-        continue;
-      }
-      if (
-        customer?.address &&
-        payee.address &&
-        customer.address === payee.address
-      ) {
-        priority += 500;
-        delay = 2_000;
-      }
-
-      if (historyCount > 0) {
-        priority += 1000;
-        delay = 1;
-      }
-
-      payeePriorities.push({
-        payee,
-        priority,
-        delay,
-        remainingAmount: payee.remaining_limit,
-      });
-
-      console.log(
-        `📊 收款人 ${payee.id} 优先级: ${priority}, 延迟: ${delay}ms, 剩余额度: ${payee.remaining_limit}`,
-      );
+    for (const entry of ranking.filter((e) => !e.eligible)) {
+      console.log(`❌ 收款人 ${entry.payeeId} 跳过: ${entry.reason}`);
     }
-
-    const sortedPriorities = payeePriorities.sort(
-      (a, b) => b.priority - a.priority,
-    );
+    const sortedPriorities = ranking.filter((e) => e.eligible);
     console.log(
       `📋 最终收款人优先级排序:`,
       sortedPriorities.map(
-        (p) => `${p.payee.id}(${p.payee.username}):${p.priority}:${p.delay}`,
+        (p) => `${p.payeeId}(${p.username}):${p.priority}:${p.delay}`,
       ),
     );
 
@@ -337,42 +541,30 @@ export class EventsService {
       select: { status: true },
     });
 
-    // 如果订单已被抢单，不进行广播
-    if (existingOrder && existingOrder.status === 'grabbed') {
-      console.log(`⚠️ 订单 ${orderData.id} 已被抢单，跳过广播`);
+    // 如果订单已不是待抢状态（被抢、过期或取消），不进行广播
+    if (!existingOrder || existingOrder.status !== 'pending') {
+      console.log(`⚠️ 订单 ${orderData.id} 已不是待抢状态，跳过广播`);
       return;
     }
 
     const priorities = await this.calculatePayeePriority(orderData);
 
-    // 打印当前所有收款人连接状态
-    console.log(
-      `📊 当前所有收款人连接:`,
-      Array.from(this.payeeConnections.entries()).map(
-        ([payeeId, connId]) => `${payeeId}:${connId}`,
-      ),
-    );
-
     // 使用 Promise.all 处理所有延迟发送的消息
     await Promise.all(
-      priorities.map(async ({ payee, delay }) => {
-        const connectionId = this.payeeConnections.get(payee.id);
-        console.log(
-          `🔍 查找收款人 ${payee.id} 的连接ID:`,
-          connectionId,
-          `(当前所有连接: ${Array.from(this.payeeConnections.keys()).join(', ')})`,
-        );
+      priorities.map(async ({ payeeId, delay, priority }) => {
+        // 在线状态由所有实例共享，收款人连接在任意实例上都能收到通知
+        const online = await this.isPayeeOnline(payeeId);
 
-        if (connectionId) {
+        if (online) {
           // 在发送前再次检查订单状态，防止延迟期间被抢单
           const orderStatus = await this.prisma.order.findUnique({
             where: { id: orderData.id },
             select: { status: true },
           });
 
-          if (orderStatus && orderStatus.status === 'grabbed') {
+          if (!orderStatus || orderStatus.status !== 'pending') {
             console.log(
-              `⚠️ 订单 ${orderData.id} 在延迟期间被抢单，跳过发送给收款人 ${payee.id}`,
+              `⚠️ 订单 ${orderData.id} 在延迟期间被抢单，跳过发送给收款人 ${payeeId}`,
             );
             return;
           }
@@ -395,17 +587,64 @@ export class EventsService {
           // 使用 setTimeout 实现延迟发送
           await new Promise((resolve) => setTimeout(resolve, delay));
           console.log(
-            `📨 发送订单通知给收款人 ${payee.id} (延迟 ${delay}ms):`,
+            `📨 发送订单通知给收款人 ${payeeId} (延迟 ${delay}ms):`,
             message,
           );
-          this.sendToConnection(connectionId, message);
+          this.sendToPayee(payeeId, message);
+          await this.orderEventsService.record({
+            orderId: orderData.id,
+            type: 'broadcast',
+            payeeId,
+            detail: { priority, delay },
+          });
         } else {
-          console.log(`❌ 收款人 ${payee.id} 没有活跃连接`);
+          console.log(`❌ 收款人 ${payeeId} 没有活跃连接`);
         }
       }),
     );
   }
 
+  /**
+   * 通知客户订单已过期，并通知所有在线收款人撤回该订单卡片
+   */
+  notifyOrderExpired(order: { id: string; customer_id: number }): void {
+    this.pendingOrders.delete(order.id);
+
+    this.sendToCustomer(order.customer_id, {
+      type: 'order_expired',
+      data: { id: order.id, timestamp: new Date().toISOString() },
+    });
+
+    this.withdrawOrderFromPayees(order.id);
+  }
+
+  /**
+   * 通知在线收款人撤回订单卡片
+   */
+  withdrawOrderFromPayees(orderId: string): void {
+    this.sendToRoom(PAYEES_ROOM, {
+      type: 'order_withdrawn',
+      data: { id: orderId, timestamp: new Date().toISOString() },
+    });
+  }
+
+  /**
+   * 通知收款人已抢订单审核超时，预留额度已释放
+   */
+  notifyReviewTimeout(
+    payeeId: number,
+    order: { id: string; amount: number },
+  ): void {
+    this.sendToPayee(payeeId, {
+      type: 'order_review_timeout',
+      data: {
+        id: order.id,
+        amount: order.amount,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
   async findPayeeIdByAdmin(adminId: number): Promise<number | null> {
     const payee = await this.prisma.payee.findFirst({
       where: { admin_id: adminId },
@@ -414,6 +653,18 @@ export class EventsService {
     return payee?.id ?? null;
   }
 
+  // 校验贷款是否属于该客户
+  async isLoanOwnedByCustomer(
+    loanId: string,
+    customerId: number,
+  ): Promise<boolean> {
+    const loan = await this.prisma.loanAccount.findUnique({
+      where: { id: loanId },
+      select: { user_id: true },
+    });
+    return loan?.user_id === customerId;
+  }
+
   async getOrderById(orderId: string) {
     return this.prisma.order.findUnique({
       where: { id: orderId },
@@ -0,0 +1,45 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class UpdateFineRuleDto {
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+
+  // 按未还本息计提的日利率，如 0.001 表示每日千分之一
+  @IsNumber({ maxDecimalPlaces: 6 })
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  daily_rate?: number;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @IsOptional()
+  fixed_per_day?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  grace_days?: number;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @IsOptional()
+  max_fines_per_schedule?: number;
+
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @IsOptional()
+  max_fines_per_loan?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  accrue_on_holidays?: boolean;
+}
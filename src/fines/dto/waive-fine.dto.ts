@@ -0,0 +1,21 @@
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class WaiveFineDto {
+  // 减免金额，不传时减免该期全部未收罚金
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @IsOptional()
+  amount?: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  reason: string;
+}
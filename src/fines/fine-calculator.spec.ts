@@ -0,0 +1,66 @@
+import { FineRuleInput, calculateDailyFine } from './fine-calculator';
+
+const rule: FineRuleInput = {
+  dailyRate: 0.001,
+  fixedPerDay: 5,
+  graceDays: 2,
+  maxPerSchedule: 0,
+  maxPerLoan: 0,
+};
+
+const input = {
+  overdueDays: 3,
+  outstanding: 1000,
+  scheduleFinesDue: 0,
+  loanFinesDue: 0,
+};
+
+describe('calculateDailyFine', () => {
+  it('accrues nothing within the grace days', () => {
+    expect(calculateDailyFine(rule, { ...input, overdueDays: 2 })).toBe(0);
+    expect(calculateDailyFine(rule, { ...input, overdueDays: 3 })).toBe(6);
+  });
+
+  it('accrues nothing when the period has no outstanding amount', () => {
+    expect(calculateDailyFine(rule, { ...input, outstanding: 0 })).toBe(0);
+  });
+
+  it('rounds the daily amount to cents', () => {
+    expect(
+      calculateDailyFine(
+        { ...rule, fixedPerDay: 0, dailyRate: 0.0005 },
+        { ...input, outstanding: 333.33 },
+      ),
+    ).toBe(0.17);
+  });
+
+  it('caps the amount at the remaining per-schedule allowance', () => {
+    expect(
+      calculateDailyFine(
+        { ...rule, maxPerSchedule: 20 },
+        { ...input, scheduleFinesDue: 17.5 },
+      ),
+    ).toBe(2.5);
+    expect(
+      calculateDailyFine(
+        { ...rule, maxPerSchedule: 20 },
+        { ...input, scheduleFinesDue: 20 },
+      ),
+    ).toBe(0);
+  });
+
+  it('caps the amount at the remaining per-loan allowance', () => {
+    expect(
+      calculateDailyFine(
+        { ...rule, maxPerSchedule: 100, maxPerLoan: 50 },
+        { ...input, scheduleFinesDue: 10, loanFinesDue: 46 },
+      ),
+    ).toBe(4);
+  });
+
+  it('ignores negative rates and fixed amounts', () => {
+    expect(
+      calculateDailyFine({ ...rule, dailyRate: -1, fixedPerDay: -5 }, input),
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * 罚金计提规则
+ *
+ * 每个逾期日按 未还本息 × 日利率 + 每日固定罚金 计提，
+ * 宽限期内不计提，单期与单笔贷款的累计罚金不超过上限（0 表示不限）。
+ * 纯函数实现，不访问数据库。
+ */
+
+export interface FineRuleInput {
+  dailyRate: number;
+  fixedPerDay: number;
+  graceDays: number;
+  maxPerSchedule: number;
+  maxPerLoan: number;
+}
+
+export interface DailyFineInput {
+  overdueDays: number;
+  outstanding: number; // 该期未还本息
+  scheduleFinesDue: number; // 该期已计提罚金
+  loanFinesDue: number; // 该笔贷款已计提罚金
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function calculateDailyFine(
+  rule: FineRuleInput,
+  input: DailyFineInput,
+): number {
+  if (input.overdueDays <= Math.max(0, rule.graceDays)) return 0;
+  if (input.outstanding <= 0) return 0;
+
+  let amount = round2(
+    input.outstanding * Math.max(0, rule.dailyRate) +
+      Math.max(0, rule.fixedPerDay),
+  );
+  if (rule.maxPerSchedule > 0) {
+    amount = Math.min(amount, rule.maxPerSchedule - input.scheduleFinesDue);
+  }
+  if (rule.maxPerLoan > 0) {
+    amount = Math.min(amount, rule.maxPerLoan - input.loanFinesDue);
+  }
+  return Math.max(0, round2(amount));
+}
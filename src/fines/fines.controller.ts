@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ManagementRoles } from '@prisma/client';
+import { FinesService } from './fines.service';
+import { UpdateFineRuleDto } from './dto/update-fine-rule.dto';
+import { WaiveFineDto } from './dto/waive-fine.dto';
+import { AuthGuard } from '../auth/auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { ApiResponseDto } from '../common/dto/api-response.dto';
+import { ResponseHelper } from '../common/response-helper';
+
+@Controller('fines')
+@UseGuards(AuthGuard, RolesGuard)
+export class FinesController {
+  constructor(private readonly finesService: FinesService) {}
+
+  @Get('rule')
+  @Roles(ManagementRoles.ADMIN)
+  async getRule(): Promise<ApiResponseDto> {
+    const rule = await this.finesService.getRule();
+    return ResponseHelper.success(rule, '获取罚金规则成功');
+  }
+
+  @Put('rule')
+  @Roles(ManagementRoles.ADMIN)
+  async updateRule(
+    @CurrentUser() user: { id: number },
+    @Body() body: UpdateFineRuleDto,
+  ): Promise<ApiResponseDto> {
+    const rule = await this.finesService.updateRule(body, user.id);
+    return ResponseHelper.success(rule, '更新罚金规则成功');
+  }
+
+  /**
+   * 查询贷款的罚金计提/减免流水
+   * GET /fines/loans/:loanId/accruals?scheduleId=&page=&pageSize=
+   */
+  @Get('loans/:loanId/accruals')
+  @Roles(
+    ManagementRoles.ADMIN,
+    ManagementRoles.FINANCIAL,
+    ManagementRoles.COLLECTOR,
+    ManagementRoles.RISK_CONTROLLER,
+  )
+  async getAccruals(
+    @Param('loanId') loanId: string,
+    @Query('scheduleId') scheduleId?: string,
+    @Query('page') page?: string,
+    @Query('pageSize') pageSize?: string,
+  ): Promise<ApiResponseDto> {
+    const result = await this.finesService.getAccruals(loanId, {
+      scheduleId: scheduleId ? parseInt(scheduleId, 10) : undefined,
+      page: page ? parseInt(page, 10) : undefined,
+      pageSize: pageSize ? parseInt(pageSize, 10) : undefined,
+    });
+    return ResponseHelper.success(result, '获取罚金流水成功');
+  }
+
+  /**
+   * 减免某期已计提的罚金
+   * POST /fines/schedules/:scheduleId/waive
+   */
+  @Post('schedules/:scheduleId/waive')
+  @Roles(ManagementRoles.ADMIN, ManagementRoles.COLLECTOR)
+  async waive(
+    @CurrentUser() user: { id: number; role: string },
+    @Param('scheduleId', ParseIntPipe) scheduleId: number,
+    @Body() body: WaiveFineDto,
+  ): Promise<ApiResponseDto> {
+    const entry = await this.finesService.waive(scheduleId, body, user);
+    return ResponseHelper.success(entry, '减免罚金成功');
+  }
+}
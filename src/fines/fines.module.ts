@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { BusinessCalendarModule } from '../business-calendar/business-calendar.module';
+import { FinesController } from './fines.controller';
+import { FinesService } from './fines.service';
+
+@Module({
+  imports: [PrismaModule, BusinessCalendarModule],
+  controllers: [FinesController],
+  providers: [FinesService],
+  exports: [FinesService],
+})
+export class FinesModule {}
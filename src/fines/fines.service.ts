@@ -0,0 +1,343 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { FineRule, ManagementRoles, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { BusinessCalendarService } from '../business-calendar/business-calendar.service';
+import { UpdateFineRuleDto } from './dto/update-fine-rule.dto';
+import { WaiveFineDto } from './dto/waive-fine.dto';
+import { FineRuleInput, calculateDailyFine } from './fine-calculator';
+
+export interface FineAccrualSummary {
+  skipped?: string;
+  accrualDate: Date;
+  schedules: number;
+  accrued: number;
+  totalAmount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 停机后补计罚金的最大天数
+const MAX_BACKFILL_DAYS = 31;
+
+@Injectable()
+export class FinesService {
+  private readonly logger = new Logger(FinesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly businessCalendarService: BusinessCalendarService,
+  ) {}
+
+  /**
+   * 获取当前罚金规则，不存在时按默认值创建（默认不启用）
+   */
+  async getRule(): Promise<FineRule> {
+    const rule = await this.prisma.fineRule.findFirst({
+      orderBy: { id: 'asc' },
+    });
+    if (rule) return rule;
+    return this.prisma.fineRule.create({ data: {} });
+  }
+
+  async updateRule(
+    data: UpdateFineRuleDto,
+    adminId: number,
+  ): Promise<FineRule> {
+    const rule = await this.getRule();
+    return this.prisma.fineRule.update({
+      where: { id: rule.id },
+      data: { ...data, updated_by: adminId },
+    });
+  }
+
+  private toRuleInput(rule: FineRule): FineRuleInput {
+    return {
+      dailyRate: Number(rule.daily_rate),
+      fixedPerDay: Number(rule.fixed_per_day),
+      graceDays: rule.grace_days,
+      maxPerSchedule: Number(rule.max_fines_per_schedule),
+      maxPerLoan: Number(rule.max_fines_per_loan),
+    };
+  }
+
+  /**
+   * 计提上次计提之后至今的罚金，补齐停机期间漏掉的日期
+   * 最多补计 MAX_BACKFILL_DAYS 天，且不早于罚金规则最近一次修改的日期
+   * @param today 当天日期（UTC 零点）
+   */
+  async accrueSinceLastRun(today: Date): Promise<FineAccrualSummary[]> {
+    const rule = await this.getRule();
+    const last = await this.prisma.fineAccrual.findFirst({
+      where: { type: 'accrued' },
+      orderBy: { accrual_date: 'desc' },
+      select: { accrual_date: true },
+    });
+    const ruleDay = Date.UTC(
+      rule.updated_at.getUTCFullYear(),
+      rule.updated_at.getUTCMonth(),
+      rule.updated_at.getUTCDate(),
+    );
+    const start = last?.accrual_date
+      ? Math.max(
+          last.accrual_date.getTime() + DAY_MS,
+          ruleDay,
+          today.getTime() - (MAX_BACKFILL_DAYS - 1) * DAY_MS,
+        )
+      : today.getTime();
+
+    const summaries: FineAccrualSummary[] = [];
+    for (let time = start; time <= today.getTime(); time += DAY_MS) {
+      summaries.push(await this.accrueDailyFines(new Date(time)));
+    }
+    return summaries;
+  }
+
+  /**
+   * 为逾期还款计划计提指定日期的罚金，同一期同一天只计提一次
+   * @param accrualDate 计提日期（UTC 零点）
+   */
+  async accrueDailyFines(accrualDate: Date): Promise<FineAccrualSummary> {
+    const summary: FineAccrualSummary = {
+      accrualDate,
+      schedules: 0,
+      accrued: 0,
+      totalAmount: 0,
+    };
+
+    const rule = await this.getRule();
+    if (!rule.enabled) {
+      return { ...summary, skipped: 'disabled' };
+    }
+    if (
+      !rule.accrue_on_holidays &&
+      !(await this.businessCalendarService.isBusinessDay(accrualDate))
+    ) {
+      return { ...summary, skipped: 'holiday' };
+    }
+    const ruleInput = this.toRuleInput(rule);
+
+    const schedules = await this.prisma.repaymentSchedule.findMany({
+      where: {
+        status: 'overdue',
+        due_start_date: { lt: accrualDate },
+        loan_account: { status: { notIn: ['settled', 'blacklist'] } },
+      },
+      select: {
+        id: true,
+        loan_id: true,
+        due_start_date: true,
+        capital: true,
+        interest: true,
+        paid_capital: true,
+        paid_interest: true,
+        fines_due: true,
+      },
+      orderBy: [{ loan_id: 'asc' }, { due_start_date: 'asc' }],
+    });
+    summary.schedules = schedules.length;
+    if (schedules.length === 0) return summary;
+
+    const existing = await this.prisma.fineAccrual.findMany({
+      where: { type: 'accrued', accrual_date: accrualDate },
+      select: { schedule_id: true },
+    });
+    const accruedSet = new Set(existing.map((row) => row.schedule_id));
+
+    // 单笔贷款累计罚金（含未逾期的期数），用于判断贷款上限
+    const loanIds = [...new Set(schedules.map((s) => s.loan_id))];
+    const loanTotals = await this.prisma.repaymentSchedule.groupBy({
+      by: ['loan_id'],
+      where: { loan_id: { in: loanIds } },
+      _sum: { fines_due: true },
+    });
+    const loanFinesDue = new Map(
+      loanTotals.map((row) => [row.loan_id, Number(row._sum.fines_due ?? 0)]),
+    );
+
+    for (const schedule of schedules) {
+      if (accruedSet.has(schedule.id)) continue;
+
+      const overdueDays = Math.floor(
+        (accrualDate.getTime() - schedule.due_start_date.getTime()) / DAY_MS,
+      );
+      const outstanding =
+        Number(schedule.capital ?? 0) -
+        Number(schedule.paid_capital ?? 0) +
+        Number(schedule.interest ?? 0) -
+        Number(schedule.paid_interest ?? 0);
+      const scheduleFinesDue = Number(schedule.fines_due);
+      const loanTotal = loanFinesDue.get(schedule.loan_id) ?? 0;
+
+      const amount = calculateDailyFine(ruleInput, {
+        overdueDays,
+        outstanding,
+        scheduleFinesDue,
+        loanFinesDue: loanTotal,
+      });
+      if (amount <= 0) continue;
+
+      try {
+        await this.prisma.$transaction(async (tx) => {
+          const updated = await tx.repaymentSchedule.update({
+            where: { id: schedule.id },
+            data: { fines_due: { increment: amount } },
+            select: { fines_due: true },
+          });
+          await tx.fineAccrual.create({
+            data: {
+              schedule_id: schedule.id,
+              loan_id: schedule.loan_id,
+              type: 'accrued',
+              accrual_date: accrualDate,
+              amount,
+              overdue_days: overdueDays,
+              fines_due: updated.fines_due,
+            },
+          });
+        });
+      } catch (error) {
+        // 唯一约束冲突：其他实例或重启时已计提过当天罚金
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        ) {
+          continue;
+        }
+        this.logger.error(
+          `罚金计提失败 schedule=${schedule.id}: ${(error as Error).message}`,
+        );
+        continue;
+      }
+
+      loanFinesDue.set(schedule.loan_id, loanTotal + amount);
+      summary.accrued += 1;
+      summary.totalAmount += amount;
+    }
+
+    summary.totalAmount = Math.round(summary.totalAmount * 100) / 100;
+    return summary;
+  }
+
+  /**
+   * 减免罚金：只能减免已计提且尚未收取的部分，催收员只能减免自己负责的贷款
+   */
+  async waive(
+    scheduleId: number,
+    data: WaiveFineDto,
+    operator: { id: number; role: string },
+  ) {
+    return this.prisma.$transaction(async (tx) => {
+      const schedule = await tx.repaymentSchedule.findUnique({
+        where: { id: scheduleId },
+        select: {
+          id: true,
+          loan_id: true,
+          fines: true,
+          fines_due: true,
+          loan_account: { select: { collector_id: true } },
+        },
+      });
+      if (!schedule) {
+        throw new NotFoundException('还款计划不存在');
+      }
+      if (
+        operator.role === ManagementRoles.COLLECTOR &&
+        schedule.loan_account.collector_id !== operator.id
+      ) {
+        throw new ForbiddenException('只能减免自己负责的贷款罚金');
+      }
+
+      const outstanding =
+        Math.round(
+          (Number(schedule.fines_due) - Number(schedule.fines ?? 0)) * 100,
+        ) / 100;
+      if (outstanding <= 0) {
+        throw new BadRequestException('该期没有可减免的罚金');
+      }
+      const amount = data.amount ?? outstanding;
+      if (amount > outstanding) {
+        throw new BadRequestException(
+          `减免金额不能超过未收罚金 ${outstanding}`,
+        );
+      }
+
+      const updated = await tx.repaymentSchedule.update({
+        where: { id: scheduleId },
+        data: { fines_due: { decrement: amount } },
+        select: { fines_due: true },
+      });
+      return tx.fineAccrual.create({
+        data: {
+          schedule_id: schedule.id,
+          loan_id: schedule.loan_id,
+          type: 'waived',
+          amount: -amount,
+          fines_due: updated.fines_due,
+          operator_id: operator.id,
+          reason: data.reason,
+        },
+      });
+    });
+  }
+
+  /**
+   * 查询贷款的罚金计提/减免流水
+   */
+  async getAccruals(
+    loanId: string,
+    options: { scheduleId?: number; page?: number; pageSize?: number } = {},
+  ) {
+    const loan = await this.prisma.loanAccount.findUnique({
+      where: { id: loanId },
+      select: { id: true },
+    });
+    if (!loan) {
+      throw new NotFoundException('贷款账户不存在');
+    }
+
+    const page = options.page && options.page > 0 ? options.page : 1;
+    const pageSize =
+      options.pageSize && options.pageSize > 0 ? options.pageSize : 50;
+    const where: Prisma.FineAccrualWhereInput = {
+      loan_id: loanId,
+      ...(options.scheduleId ? { schedule_id: options.scheduleId } : {}),
+    };
+
+    const [total, rows, totals] = await Promise.all([
+      this.prisma.fineAccrual.count({ where }),
+      this.prisma.fineAccrual.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: { schedule: { select: { period: true } } },
+      }),
+      this.prisma.repaymentSchedule.aggregate({
+        where: { loan_id: loanId },
+        _sum: { fines_due: true, fines: true },
+      }),
+    ]);
+
+    const totalPages = Math.ceil(total / pageSize);
+    return {
+      summary: {
+        finesDue: Number(totals._sum.fines_due ?? 0),
+        finesCollected: Number(totals._sum.fines ?? 0),
+      },
+      data: rows,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+}
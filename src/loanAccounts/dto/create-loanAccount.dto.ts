@@ -8,8 +8,13 @@ import {
   Max,
   Length,
   IsPositive,
+  IsBoolean,
 } from 'class-validator';
-import { RepaymentScheduleStatus } from '@prisma/client';
+import {
+  RepaymentScheduleStatus,
+  ScheduleFrequency,
+  ScheduleMethod,
+} from '@prisma/client';
 
 export class CreateLoanAccountDto {
   @IsNumber()
@@ -93,4 +98,34 @@ export class CreateLoanAccountDto {
   @IsOptional()
   @Length(0, 2)
   ownership?: string;
+
+  @IsEnum(ScheduleFrequency)
+  @IsOptional()
+  schedule_frequency?: ScheduleFrequency;
+
+  @IsEnum(ScheduleMethod)
+  @IsOptional()
+  schedule_method?: ScheduleMethod;
+
+  // 每期利率（等额本息使用），未传时按 interest / loan_amount 推算
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  period_rate?: number;
+
+  // 生成还款计划时跳过节假日（非收款日）
+  @IsBoolean()
+  @IsOptional()
+  skip_holidays?: boolean;
+
+  // 续贷：从本次放款中抵扣结清该贷款的未还部分
+  @IsString()
+  @IsOptional()
+  parent_loan_id?: string;
+
+  // 贷前检查未通过时由管理员确认放行（仅 ADMIN 有效）
+  @IsBoolean()
+  @IsOptional()
+  override_precheck?: boolean;
 }
@@ -0,0 +1,25 @@
+import {
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class PrecheckLoanAccountDto {
+  @IsNumber()
+  @IsPositive()
+  user_id: number;
+
+  @IsNumber()
+  @IsPositive()
+  @Min(100)
+  @Max(1000000)
+  loan_amount: number;
+
+  // 续贷时被结清的原贷款
+  @IsString()
+  @IsOptional()
+  parent_loan_id?: string;
+}
@@ -0,0 +1,17 @@
+import { PickType } from '@nestjs/mapped-types';
+import { CreateLoanAccountDto } from './create-loanAccount.dto';
+
+export class PreviewLoanAccountDto extends PickType(CreateLoanAccountDto, [
+  'loan_amount',
+  'to_hand_ratio',
+  'capital',
+  'interest',
+  'due_start_date',
+  'total_periods',
+  'handling_fee',
+  'company_cost',
+  'schedule_frequency',
+  'schedule_method',
+  'period_rate',
+  'skip_holidays',
+] as const) {}
@@ -0,0 +1,59 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  LoanRestructureType,
+  ScheduleFrequency,
+  ScheduleMethod,
+} from '@prisma/client';
+
+export class RestructureLoanAccountDto {
+  @IsEnum(LoanRestructureType)
+  type: LoanRestructureType;
+
+  // 新计划期数：延长期限时须大于剩余期数，停息时默认沿用剩余期数
+  @IsInt()
+  @Min(1)
+  @Max(3650)
+  @IsOptional()
+  periods?: number;
+
+  // 新计划第一期日期，默认今天
+  @IsDateString()
+  @IsOptional()
+  start_date?: string;
+
+  // 新计划每期利息，默认沿用原每期利息（停息时固定为 0）
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @IsOptional()
+  interest?: number;
+
+  @IsEnum(ScheduleFrequency)
+  @IsOptional()
+  schedule_frequency?: ScheduleFrequency;
+
+  @IsEnum(ScheduleMethod)
+  @IsOptional()
+  schedule_method?: ScheduleMethod;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  period_rate?: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  reason: string;
+}
@@ -1,4 +1,5 @@
 import {
+  IsBoolean,
   IsDateString,
   IsNumber,
   IsOptional,
@@ -7,7 +8,11 @@ import {
   Max,
   IsPositive,
 } from 'class-validator';
-import { LoanAccountStatus } from '@prisma/client';
+import {
+  LoanAccountStatus,
+  ScheduleFrequency,
+  ScheduleMethod,
+} from '@prisma/client';
 
 export class UpdateLoanAccountDto {
   @IsNumber()
@@ -98,4 +103,24 @@ export class UpdateLoanAccountDto {
 
   @IsOptional()
   note?: string;
+
+  @IsEnum(ScheduleFrequency)
+  @IsOptional()
+  schedule_frequency?: ScheduleFrequency;
+
+  @IsEnum(ScheduleMethod)
+  @IsOptional()
+  schedule_method?: ScheduleMethod;
+
+  // 每期利率（等额本息使用），未传时按 interest / loan_amount 推算
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  period_rate?: number;
+
+  // 生成还款计划时跳过节假日（非收款日）
+  @IsBoolean()
+  @IsOptional()
+  skip_holidays?: boolean;
 }
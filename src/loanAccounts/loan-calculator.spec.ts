@@ -0,0 +1,120 @@
+import { calculateCashToHand, calculateLoanPreview } from './loan-calculator';
+
+const startDate = new Date(Date.UTC(2026, 0, 31));
+
+describe('calculateLoanPreview', () => {
+  it('generates daily flat schedules with the remainder in the last period', () => {
+    const { schedules, summary } = calculateLoanPreview({
+      loanAmount: 1000,
+      capital: 300,
+      interest: 10,
+      startDate,
+      totalPeriods: 4,
+      toHandRatio: 0.1,
+      handlingFee: 50,
+    });
+
+    expect(schedules.map((s) => s.capital)).toEqual([300, 300, 300, 100]);
+    expect(schedules.map((s) => s.due_amount)).toEqual([310, 310, 310, 110]);
+    expect(schedules[3].due_start_date).toEqual(new Date(Date.UTC(2026, 1, 3)));
+    expect(summary).toMatchObject({
+      totalCapital: 1000,
+      totalInterest: 40,
+      totalRepayment: 1040,
+      commission: 100,
+      handlingRate: 0.05,
+      expectedProfit: 140,
+    });
+  });
+
+  it('clamps monthly due dates to the end of shorter months', () => {
+    const { schedules } = calculateLoanPreview({
+      loanAmount: 1000,
+      capital: 250,
+      interest: 10,
+      startDate,
+      totalPeriods: 3,
+      frequency: 'monthly',
+    });
+
+    expect(schedules.map((s) => s.due_start_date)).toEqual([
+      new Date(Date.UTC(2026, 0, 31)),
+      new Date(Date.UTC(2026, 1, 28)),
+      new Date(Date.UTC(2026, 2, 31)),
+    ]);
+  });
+
+  it('keeps equal installments level and repays the full principal', () => {
+    const { schedules, summary } = calculateLoanPreview({
+      loanAmount: 1000,
+      capital: 0,
+      interest: 10,
+      startDate,
+      totalPeriods: 4,
+      frequency: 'weekly',
+      method: 'equal_installment',
+    });
+
+    const amounts = schedules.map((s) => s.due_amount);
+    expect(Math.max(...amounts) - Math.min(...amounts)).toBeLessThanOrEqual(
+      0.02,
+    );
+    expect(summary.totalCapital).toBe(1000);
+    expect(schedules[1].due_start_date).toEqual(new Date(Date.UTC(2026, 1, 7)));
+  });
+
+  it('charges only interest until the final balloon period', () => {
+    const { schedules } = calculateLoanPreview({
+      loanAmount: 1000,
+      capital: 0,
+      interest: 10,
+      startDate,
+      totalPeriods: 3,
+      method: 'interest_first',
+    });
+
+    expect(schedules.map((s) => s.due_amount)).toEqual([10, 10, 1010]);
+  });
+
+  it('moves due dates off holidays when a calendar is given', () => {
+    const { schedules } = calculateLoanPreview({
+      loanAmount: 300,
+      capital: 100,
+      interest: 5,
+      startDate,
+      totalPeriods: 3,
+      holidays: new Set(['2026-01-31', '2026-02-02']),
+    });
+
+    expect(schedules.map((s) => s.due_start_date)).toEqual([
+      new Date(Date.UTC(2026, 1, 1)),
+      new Date(Date.UTC(2026, 1, 3)),
+      new Date(Date.UTC(2026, 1, 4)),
+    ]);
+  });
+});
+
+describe('calculateCashToHand', () => {
+  it('deducts commission, handling fee and the renewal payoff', () => {
+    expect(
+      calculateCashToHand({
+        loanAmount: 10000,
+        toHandRatio: 0.1,
+        handlingFee: 500,
+        payoffAmount: 3200.5,
+      }),
+    ).toEqual({ grossToHand: 8500, payoffAmount: 3200.5, netToHand: 5299.5 });
+  });
+
+  it('prefers the entered receiving amount over the derived one', () => {
+    expect(
+      calculateCashToHand({
+        loanAmount: 10000,
+        toHandRatio: 0.1,
+        handlingFee: 500,
+        receivingAmount: 9000,
+        payoffAmount: 1000,
+      }).netToHand,
+    ).toBe(8000);
+  });
+});
@@ -0,0 +1,126 @@
+import { ScheduleFrequency, ScheduleMethod } from '@prisma/client';
+import { GeneratedPeriod, generateSchedule } from './schedule-generator';
+
+export interface LoanCalculatorInput {
+  loanAmount: number;
+  toHandRatio?: number;
+  capital: number;
+  interest: number;
+  startDate: Date;
+  totalPeriods: number;
+  handlingFee?: number;
+  companyCost?: number;
+  frequency?: ScheduleFrequency;
+  method?: ScheduleMethod;
+  periodRate?: number | null;
+  holidays?: Set<string>; // 需要跳过的节假日（YYYY-MM-DD）
+}
+
+export interface LoanPreview {
+  schedules: GeneratedPeriod[];
+  summary: {
+    loanAmount: number;
+    totalPeriods: number;
+    frequency: ScheduleFrequency;
+    method: ScheduleMethod;
+    firstDueDate: Date | null;
+    lastDueDate: Date | null;
+    totalCapital: number;
+    totalInterest: number;
+    totalRepayment: number; // 应收本息合计
+    toHandRatio: number; // 成数
+    commission: number; // 回佣 = 放款金额 × 成数
+    handlingFee: number; // 后扣
+    handlingRate: number; // 后扣比例 = 后扣 / 放款金额
+    companyCost: number; // 实际成本
+    expectedProfit: number; // 全部按期还清时的盈亏，与业务导出报表口径一致
+  };
+}
+
+const round2 = (value: number) => Number(value.toFixed(2));
+
+/**
+ * 贷款试算：与创建贷款使用同一套还款计划生成逻辑，不访问数据库
+ */
+export function calculateLoanPreview(input: LoanCalculatorInput): LoanPreview {
+  const frequency = input.frequency ?? 'daily';
+  const method = input.method ?? 'flat';
+  const schedules = generateSchedule({
+    startDate: input.startDate,
+    principal: input.loanAmount,
+    periods: input.totalPeriods,
+    capital: input.capital,
+    interest: input.interest,
+    periodRate: input.periodRate,
+    frequency,
+    method,
+    holidays: input.holidays,
+  });
+
+  const totalCapital = round2(
+    schedules.reduce((sum, item) => sum + item.capital, 0),
+  );
+  const totalInterest = round2(
+    schedules.reduce((sum, item) => sum + item.interest, 0),
+  );
+  const totalRepayment = round2(totalCapital + totalInterest);
+  const toHandRatio = input.toHandRatio ?? 0;
+  const commission = round2(input.loanAmount * toHandRatio);
+  const handlingFee = input.handlingFee ?? 0;
+
+  return {
+    schedules,
+    summary: {
+      loanAmount: input.loanAmount,
+      totalPeriods: schedules.length,
+      frequency,
+      method,
+      firstDueDate: schedules[0]?.due_start_date ?? null,
+      lastDueDate: schedules[schedules.length - 1]?.due_start_date ?? null,
+      totalCapital,
+      totalInterest,
+      totalRepayment,
+      toHandRatio,
+      commission,
+      handlingFee,
+      handlingRate:
+        input.loanAmount !== 0
+          ? Number((handlingFee / input.loanAmount).toFixed(4))
+          : 0,
+      companyCost: input.companyCost ?? 0,
+      expectedProfit: round2(totalRepayment - input.loanAmount + commission),
+    },
+  };
+}
+
+export interface CashToHandInput {
+  loanAmount: number;
+  toHandRatio?: number;
+  handlingFee?: number;
+  receivingAmount?: number | null; // 录入的到手金额，为空时按放款金额扣除回佣和后扣计算
+  payoffAmount?: number; // 续贷从放款中抵扣的原贷款结清金额
+}
+
+/**
+ * 客户实际到手金额：到手金额 − 续贷结清金额
+ */
+export function calculateCashToHand(input: CashToHandInput): {
+  grossToHand: number;
+  payoffAmount: number;
+  netToHand: number;
+} {
+  const grossToHand =
+    input.receivingAmount !== null && input.receivingAmount !== undefined
+      ? round2(input.receivingAmount)
+      : round2(
+          input.loanAmount -
+            input.loanAmount * (input.toHandRatio ?? 0) -
+            (input.handlingFee ?? 0),
+        );
+  const payoffAmount = round2(input.payoffAmount ?? 0);
+  return {
+    grossToHand,
+    payoffAmount,
+    netToHand: round2(grossToHand - payoffAmount),
+  };
+}
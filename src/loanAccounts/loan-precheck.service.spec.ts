@@ -0,0 +1,58 @@
+import { PrismaService } from '../../prisma/prisma.service';
+import { LoanPrecheckService } from './loan-precheck.service';
+
+describe('LoanPrecheckService.check', () => {
+  const prisma = {
+    user: { findUnique: jest.fn() },
+    loanAccount: { findMany: jest.fn() },
+    repaymentSchedule: { count: jest.fn() },
+    overdueRecord: { count: jest.fn() },
+  };
+  const service = new LoanPrecheckService(prisma as unknown as PrismaService);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.user.findUnique.mockResolvedValue({ id: 1, is_high_risk: false });
+    prisma.loanAccount.findMany.mockResolvedValue([
+      { status: 'active', loan_amount: 1000, paid_capital: 400 },
+    ]);
+    prisma.overdueRecord.count.mockResolvedValue(0);
+  });
+
+  it('rejects while an open loan has overdue schedules', async () => {
+    prisma.repaymentSchedule.count.mockResolvedValue(2);
+
+    const result = await service.check(1, 500, 'old-loan');
+
+    expect(result.decision).toBe('reject');
+    expect(result.summary.currentOverdueCount).toBe(2);
+    expect(prisma.repaymentSchedule.count).toHaveBeenCalledWith({
+      where: {
+        status: 'overdue',
+        loan_account: {
+          user_id: 1,
+          status: {
+            in: [
+              'pending',
+              'active',
+              'overdue',
+              'unsettled',
+              'negotiated',
+              'to_be_processed',
+            ],
+          },
+          id: { not: 'old-loan' },
+        },
+      },
+    });
+  });
+
+  it('does not block a customer whose overdue periods are paid up', async () => {
+    prisma.repaymentSchedule.count.mockResolvedValue(0);
+
+    const result = await service.check(1, 500);
+
+    expect(result.decision).toBe('warn');
+    expect(result.reasons.map((reason) => reason.code)).toEqual(['open_loans']);
+  });
+});
@@ -0,0 +1,195 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { LoanAccountStatus } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+
+export type PrecheckDecision = 'approve' | 'warn' | 'reject';
+
+export interface PrecheckReason {
+  code:
+    | 'open_loans'
+    | 'blacklist'
+    | 'current_overdue'
+    | 'overdue_history'
+    | 'high_risk'
+    | 'exposure_cap';
+  level: 'warn' | 'reject';
+  message: string;
+}
+
+export interface PrecheckResult {
+  decision: PrecheckDecision;
+  reasons: PrecheckReason[];
+  summary: {
+    userId: number;
+    openLoanCount: number;
+    blacklistCount: number;
+    currentOverdueCount: number;
+    overdueRecordCount: number;
+    isHighRisk: boolean;
+    outstandingPrincipal: number;
+    requestedAmount: number;
+    exposureAfter: number;
+    exposureCap: number | null;
+  };
+}
+
+// 未结清的贷款状态
+const OPEN_LOAN_STATUSES: LoanAccountStatus[] = [
+  'pending',
+  'active',
+  'overdue',
+  'unsettled',
+  'negotiated',
+  'to_be_processed',
+];
+
+/**
+ * 贷前风险检查
+ * 单客户敞口上限：LOAN_MAX_EXPOSURE_PER_CUSTOMER（0 或未配置表示不限）
+ * 历史逾期提醒阈值：LOAN_PRECHECK_OVERDUE_WARN（默认 3）
+ */
+@Injectable()
+export class LoanPrecheckService {
+  private readonly exposureCap = Number(
+    process.env.LOAN_MAX_EXPOSURE_PER_CUSTOMER ?? 0,
+  );
+  private readonly overdueWarnThreshold = Number(
+    process.env.LOAN_PRECHECK_OVERDUE_WARN ?? 3,
+  );
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 创建贷款时是否强制执行贷前检查（LOAN_PRECHECK_ENFORCE=true）
+   */
+  get enforced(): boolean {
+    return process.env.LOAN_PRECHECK_ENFORCE === 'true';
+  }
+
+  /**
+   * @param excludeLoanId 续贷时被结清的原贷款，不计入未结清贷款与敞口
+   */
+  async check(
+    userId: number,
+    loanAmount: number,
+    excludeLoanId?: string,
+  ): Promise<PrecheckResult> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, is_high_risk: true },
+    });
+    if (!user) {
+      throw new NotFoundException('客户不存在');
+    }
+
+    const excludeLoan = excludeLoanId ? { id: { not: excludeLoanId } } : {};
+    const [loans, currentOverdueCount, overdueRecordCount] = await Promise.all([
+      this.prisma.loanAccount.findMany({
+        where: { user_id: userId, ...excludeLoan },
+        select: {
+          status: true,
+          loan_amount: true,
+          paid_capital: true,
+        },
+      }),
+      // 直接统计逾期的还款计划：loanAccount.overdue_count 仅由定时任务刷新，还清后也不会归零
+      this.prisma.repaymentSchedule.count({
+        where: {
+          status: 'overdue',
+          loan_account: {
+            user_id: userId,
+            status: { in: OPEN_LOAN_STATUSES },
+            ...excludeLoan,
+          },
+        },
+      }),
+      this.prisma.overdueRecord.count({ where: { user_id: userId } }),
+    ]);
+
+    const openLoans = loans.filter((loan) =>
+      OPEN_LOAN_STATUSES.includes(loan.status),
+    );
+    const blacklistCount = loans.filter(
+      (loan) => loan.status === 'blacklist',
+    ).length;
+    const outstandingPrincipal = openLoans.reduce(
+      (sum, loan) =>
+        sum +
+        Math.max(0, Number(loan.loan_amount) - Number(loan.paid_capital ?? 0)),
+      0,
+    );
+    const exposureAfter = outstandingPrincipal + loanAmount;
+    const exposureCap = this.exposureCap > 0 ? this.exposureCap : null;
+
+    const reasons: PrecheckReason[] = [];
+    if (blacklistCount > 0) {
+      reasons.push({
+        code: 'blacklist',
+        level: 'reject',
+        message: `客户有 ${blacklistCount} 笔贷款曾被拉黑`,
+      });
+    }
+    if (currentOverdueCount > 0) {
+      reasons.push({
+        code: 'current_overdue',
+        level: 'reject',
+        message: `客户当前有 ${currentOverdueCount} 期逾期未还`,
+      });
+    }
+    if (exposureCap !== null && exposureAfter > exposureCap) {
+      reasons.push({
+        code: 'exposure_cap',
+        level: 'reject',
+        message: `放款后未还本金 ${exposureAfter} 超过单客户上限 ${exposureCap}`,
+      });
+    }
+    if (openLoans.length > 0) {
+      reasons.push({
+        code: 'open_loans',
+        level: 'warn',
+        message: `客户有 ${openLoans.length} 笔贷款尚未结清，未还本金 ${outstandingPrincipal}`,
+      });
+    }
+    if (
+      this.overdueWarnThreshold > 0 &&
+      overdueRecordCount >= this.overdueWarnThreshold
+    ) {
+      reasons.push({
+        code: 'overdue_history',
+        level: 'warn',
+        message: `客户历史逾期 ${overdueRecordCount} 次`,
+      });
+    }
+    if (user.is_high_risk) {
+      reasons.push({
+        code: 'high_risk',
+        level: 'warn',
+        message: '客户已被标记为高风险',
+      });
+    }
+
+    let decision: PrecheckDecision = 'approve';
+    if (reasons.some((reason) => reason.level === 'reject')) {
+      decision = 'reject';
+    } else if (reasons.length > 0) {
+      decision = 'warn';
+    }
+
+    return {
+      decision,
+      reasons,
+      summary: {
+        userId,
+        openLoanCount: openLoans.length,
+        blacklistCount,
+        currentOverdueCount,
+        overdueRecordCount,
+        isHighRisk: user.is_high_risk ?? false,
+        outstandingPrincipal,
+        requestedAmount: loanAmount,
+        exposureAfter,
+        exposureCap,
+      },
+    };
+  }
+}
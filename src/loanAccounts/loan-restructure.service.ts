@@ -0,0 +1,221 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { LoanRestructure } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { BusinessCalendarService } from '../business-calendar/business-calendar.service';
+import { CustomerScoringService } from '../customer-scoring/customer-scoring.service';
+import { LoanAccountsService } from './loanAccounts.service';
+import { RestructureLoanAccountDto } from './dto/restructure-loanAccount.dto';
+import { assertLoanStatusTransition } from './loan-status-machine';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * 贷款重组（协商还款）
+ *
+ * 终止未还的原还款计划（pending / overdue），将剩余本金按新的期数、利息重新生成还款计划，
+ * 贷款状态改为 negotiated；原计划与条款以快照形式保存在 LoanRestructure 中。
+ */
+@Injectable()
+export class LoanRestructureService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loanAccountsService: LoanAccountsService,
+    private readonly businessCalendarService: BusinessCalendarService,
+    private readonly customerScoringService: CustomerScoringService,
+  ) {}
+
+  private today(): Date {
+    const now = new Date();
+    return new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+    );
+  }
+
+  private parseDate(value: string): Date {
+    const [y, m, d] = value.split('T')[0].split('-').map(Number);
+    return new Date(Date.UTC(y, m - 1, d));
+  }
+
+  async restructure(
+    loanId: string,
+    data: RestructureLoanAccountDto,
+    operatorId: number,
+  ): Promise<LoanRestructure> {
+    const startDate = data.start_date
+      ? this.parseDate(data.start_date)
+      : this.today();
+    if (isNaN(startDate.getTime()) || startDate < this.today()) {
+      throw new BadRequestException('新计划开始日期不能早于今天');
+    }
+
+    const { record, userId } = await this.prisma.$transaction(async (tx) => {
+      const loan = await tx.loanAccount.findUnique({
+        where: { id: loanId },
+        include: {
+          repaymentSchedules: { orderBy: { period: 'asc' } },
+        },
+      });
+      if (!loan) {
+        throw new NotFoundException('贷款记录不存在');
+      }
+      if (loan.status === 'settled' || loan.status === 'blacklist') {
+        throw new BadRequestException('已结清或已拉黑的贷款不能重组');
+      }
+      if (loan.status !== 'negotiated') {
+        assertLoanStatusTransition(loan.status, 'negotiated', {
+          reason: data.reason,
+        });
+      }
+
+      const replaced = loan.repaymentSchedules.filter(
+        (s) => s.status === 'pending' || s.status === 'overdue',
+      );
+      if (replaced.length === 0) {
+        throw new BadRequestException('没有可重组的未还还款计划');
+      }
+
+      const remainingCapital = round2(
+        replaced.reduce(
+          (sum, s) =>
+            sum + Math.max(0, Number(s.capital ?? 0) - Number(s.paid_capital)),
+          0,
+        ),
+      );
+      const periods = data.periods ?? replaced.length;
+      if (data.type === 'extension' && periods <= replaced.length) {
+        throw new BadRequestException(
+          `延长期限的新期数必须大于剩余期数 ${replaced.length}`,
+        );
+      }
+      if (data.type === 'respread' && data.periods === undefined) {
+        throw new BadRequestException('重新分摊需指定新期数');
+      }
+
+      const capital = round2(remainingCapital / periods);
+      const interest =
+        data.type === 'interest_freeze'
+          ? 0
+          : (data.interest ?? Number(loan.interest));
+      const frequency = data.schedule_frequency ?? loan.schedule_frequency;
+      const method = data.schedule_method ?? loan.schedule_method;
+      const periodRate =
+        data.type === 'interest_freeze'
+          ? 0
+          : (data.period_rate ??
+            (loan.period_rate !== null ? Number(loan.period_rate) : null));
+
+      const plan = this.loanAccountsService.buildSchedulePlan({
+        startDate,
+        loanAmount: remainingCapital,
+        totalPeriods: periods,
+        capital,
+        interest,
+        frequency,
+        method,
+        periodRate,
+        holidays: loan.skip_holidays
+          ? await this.businessCalendarService.getHolidayKeys(startDate)
+          : undefined,
+      });
+
+      // 终止原计划（保留原记录用于审计），新计划期数接在原计划之后
+      await tx.repaymentSchedule.updateMany({
+        where: { id: { in: replaced.map((s) => s.id) } },
+        data: { status: 'terminated' },
+      });
+      const lastPeriod = Math.max(
+        ...loan.repaymentSchedules.map((s) => s.period),
+      );
+      await tx.repaymentSchedule.createMany({
+        data: plan.map((item) => ({
+          loan_id: loanId,
+          period: lastPeriod + item.period,
+          due_start_date: item.due_start_date,
+          due_amount: item.due_amount,
+          capital: item.capital,
+          interest: item.interest || null,
+          paid_capital: 0,
+          paid_interest: 0,
+          status: 'pending' as const,
+        })),
+      });
+
+      const keptCount = loan.repaymentSchedules.length - replaced.length;
+      const newEndDate = plan[plan.length - 1].due_start_date;
+      await tx.loanAccount.update({
+        where: { id: loanId },
+        data: {
+          status: 'negotiated',
+          // 已是协商状态时不重复记录状态变更时间，避免统计重复计入当日协商
+          ...(loan.status !== 'negotiated'
+            ? { status_changed_at: new Date() }
+            : {}),
+          total_periods: keptCount + plan.length,
+          capital,
+          interest,
+          daily_repayment: Math.round(capital + interest),
+          due_end_date: newEndDate,
+          schedule_frequency: frequency,
+          schedule_method: method,
+          period_rate: periodRate,
+          overdue_count: 0,
+        },
+      });
+
+      const record = await tx.loanRestructure.create({
+        data: {
+          loan_id: loanId,
+          type: data.type,
+          reason: data.reason,
+          previous_status: loan.status,
+          previous_terms: JSON.stringify({
+            total_periods: loan.total_periods,
+            capital: Number(loan.capital),
+            interest: Number(loan.interest),
+            daily_repayment: Number(loan.daily_repayment),
+            due_end_date: loan.due_end_date,
+            schedule_frequency: loan.schedule_frequency,
+            schedule_method: loan.schedule_method,
+            period_rate:
+              loan.period_rate !== null ? Number(loan.period_rate) : null,
+            overdue_count: loan.overdue_count,
+          }),
+          original_schedules: JSON.stringify(replaced),
+          remaining_capital: remainingCapital,
+          new_periods: plan.length,
+          new_capital: capital,
+          new_interest: interest,
+          new_start_date: startDate,
+          new_end_date: newEndDate,
+          terminated_schedules: replaced.length,
+          operator_id: operatorId,
+        },
+      });
+      if (loan.status !== 'negotiated') {
+        await this.loanAccountsService.recordStatusChange(tx, {
+          loanId,
+          from: loan.status,
+          to: 'negotiated',
+          source: 'restructure',
+          operatorId,
+          reason: data.reason,
+        });
+      }
+      return { record, userId: loan.user_id };
+    });
+
+    await this.customerScoringService.refreshUser(userId);
+    return record;
+  }
+
+  async findByLoan(loanId: string): Promise<LoanRestructure[]> {
+    return this.prisma.loanRestructure.findMany({
+      where: { loan_id: loanId },
+      orderBy: { id: 'desc' },
+    });
+  }
+}
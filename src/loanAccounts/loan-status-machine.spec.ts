@@ -0,0 +1,146 @@
+import { HttpStatus } from '@nestjs/common';
+import {
+  LoanStatusTransitionException,
+  TransitionContext,
+  allowedTransitions,
+  assertLoanStatusTransition,
+  repaymentTargetStatus,
+} from './loan-status-machine';
+
+const failure = (
+  from: Parameters<typeof assertLoanStatusTransition>[0],
+  to: Parameters<typeof assertLoanStatusTransition>[1],
+  context?: TransitionContext,
+) => {
+  try {
+    assertLoanStatusTransition(from, to, context);
+  } catch (error) {
+    if (error instanceof LoanStatusTransitionException) {
+      return { status: error.getStatus(), body: error.getResponse() };
+    }
+    throw error;
+  }
+  throw new Error('expected the transition to be rejected');
+};
+
+describe('allowedTransitions', () => {
+  it('lets open statuses move between each other and close', () => {
+    expect(allowedTransitions('overdue')).toEqual([
+      'pending',
+      'active',
+      'unsettled',
+      'negotiated',
+      'to_be_processed',
+      'settled',
+      'blacklist',
+    ]);
+  });
+
+  it('only lets settled and blacklisted loans be settled', () => {
+    expect(allowedTransitions('settled')).toEqual(['settled']);
+    expect(allowedTransitions('blacklist')).toEqual(['settled']);
+  });
+});
+
+describe('assertLoanStatusTransition', () => {
+  it('accepts a listed transition', () => {
+    expect(
+      assertLoanStatusTransition('pending', 'overdue', { role: 'COLLECTOR' }),
+    ).toMatchObject({ to: 'overdue' });
+  });
+
+  it('rejects transitions missing from the table', () => {
+    expect(failure('settled', 'active')).toEqual({
+      status: HttpStatus.BAD_REQUEST,
+      body: expect.objectContaining({
+        code: 'ILLEGAL_TRANSITION',
+        from: 'settled',
+        to: 'active',
+        allowed: ['settled'],
+      }) as unknown,
+    });
+    expect(failure('pending', 'pending').body).toMatchObject({
+      code: 'ILLEGAL_TRANSITION',
+    });
+  });
+
+  it('rejects roles outside the rule', () => {
+    expect(failure('active', 'overdue', { role: 'FINANCIAL' })).toEqual({
+      status: HttpStatus.FORBIDDEN,
+      body: expect.objectContaining({
+        code: 'TRANSITION_FORBIDDEN',
+      }) as unknown,
+    });
+  });
+
+  it('keeps re-settling and lifting a blacklist for admins', () => {
+    const context = { settlementDate: '2026-05-10', reason: '协商结清' };
+
+    expect(
+      failure('settled', 'settled', { ...context, role: 'COLLECTOR' }).status,
+    ).toBe(HttpStatus.FORBIDDEN);
+    expect(
+      failure('blacklist', 'settled', { ...context, role: 'RISK_CONTROLLER' })
+        .status,
+    ).toBe(HttpStatus.FORBIDDEN);
+    expect(
+      assertLoanStatusTransition('blacklist', 'settled', {
+        ...context,
+        role: 'ADMIN',
+      }),
+    ).toMatchObject({ to: 'settled' });
+  });
+
+  it('skips the role check for internal transitions', () => {
+    expect(
+      assertLoanStatusTransition('active', 'settled', {
+        settlementDate: '2026-05-10',
+      }),
+    ).toMatchObject({ to: 'settled' });
+  });
+
+  it('requires the fields listed on the rule', () => {
+    expect(failure('active', 'settled', { role: 'ADMIN' }).body).toMatchObject({
+      code: 'TRANSITION_FIELDS_REQUIRED',
+      missing: ['settlement_date'],
+    });
+    expect(
+      failure('blacklist', 'settled', { role: 'ADMIN' }).body,
+    ).toMatchObject({ missing: ['settlement_date', 'reason'] });
+  });
+
+  it('treats a blank reason as missing', () => {
+    expect(
+      failure('active', 'negotiated', { role: 'ADMIN', reason: '  ' }),
+    ).toEqual({
+      status: HttpStatus.BAD_REQUEST,
+      body: expect.objectContaining({ missing: ['reason'] }) as unknown,
+    });
+    expect(
+      assertLoanStatusTransition('active', 'blacklist', {
+        role: 'ADMIN',
+        reason: '恶意逾期',
+      }),
+    ).toMatchObject({ to: 'blacklist' });
+  });
+});
+
+describe('repaymentTargetStatus', () => {
+  it('settles the loan once every period is paid', () => {
+    expect(repaymentTargetStatus('negotiated', true)).toBe('settled');
+  });
+
+  it('returns normal repayment statuses to pending', () => {
+    expect(repaymentTargetStatus('active', false)).toBe('pending');
+    expect(repaymentTargetStatus('overdue', false)).toBe('pending');
+    expect(repaymentTargetStatus('unsettled', false)).toBe('pending');
+  });
+
+  it('keeps negotiated, pending-review and blacklisted loans as they are', () => {
+    expect(repaymentTargetStatus('negotiated', false)).toBe('negotiated');
+    expect(repaymentTargetStatus('to_be_processed', false)).toBe(
+      'to_be_processed',
+    );
+    expect(repaymentTargetStatus('blacklist', false)).toBe('blacklist');
+  });
+});
@@ -0,0 +1,165 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { LoanAccountStatus, ManagementRoles } from '@prisma/client';
+
+/**
+ * 贷款状态机
+ *
+ * 每个状态只能流转到表中列出的目标状态，不同流转要求的字段与允许的角色不同。
+ * settled 为终态（仅管理员可重新结清以修正结清金额），blacklist 只能由管理员转为 settled。
+ */
+
+export type TransitionField = 'settlement_date' | 'reason';
+
+export interface TransitionRule {
+  to: LoanAccountStatus;
+  roles: ManagementRoles[];
+  requires?: TransitionField[];
+}
+
+export interface TransitionContext {
+  role?: string | null;
+  settlementDate?: string | null;
+  reason?: string | null;
+}
+
+export type TransitionErrorCode =
+  | 'ILLEGAL_TRANSITION'
+  | 'TRANSITION_FORBIDDEN'
+  | 'TRANSITION_FIELDS_REQUIRED';
+
+const STAFF: ManagementRoles[] = [
+  ManagementRoles.ADMIN,
+  ManagementRoles.COLLECTOR,
+  ManagementRoles.RISK_CONTROLLER,
+];
+
+// 未结清状态之间可以互相流转
+const OPEN_STATUSES: LoanAccountStatus[] = [
+  'pending',
+  'active',
+  'overdue',
+  'unsettled',
+  'negotiated',
+  'to_be_processed',
+];
+
+const openTransitions = (from: LoanAccountStatus): TransitionRule[] => [
+  ...OPEN_STATUSES.filter((to) => to !== from).map((to) => ({
+    to,
+    roles: STAFF,
+    ...(to === 'negotiated' ? { requires: ['reason' as const] } : {}),
+  })),
+  { to: 'settled', roles: STAFF, requires: ['settlement_date'] },
+  { to: 'blacklist', roles: STAFF, requires: ['reason'] },
+];
+
+export const LOAN_STATUS_TRANSITIONS: Record<
+  LoanAccountStatus,
+  TransitionRule[]
+> = {
+  pending: openTransitions('pending'),
+  active: openTransitions('active'),
+  overdue: openTransitions('overdue'),
+  unsettled: openTransitions('unsettled'),
+  negotiated: openTransitions('negotiated'),
+  to_be_processed: openTransitions('to_be_processed'),
+  settled: [
+    {
+      to: 'settled',
+      roles: [ManagementRoles.ADMIN],
+      requires: ['settlement_date'],
+    },
+  ],
+  blacklist: [
+    {
+      to: 'settled',
+      roles: [ManagementRoles.ADMIN],
+      requires: ['settlement_date', 'reason'],
+    },
+  ],
+};
+
+export class LoanStatusTransitionException extends HttpException {
+  constructor(
+    code: TransitionErrorCode,
+    message: string,
+    detail: {
+      from: LoanAccountStatus;
+      to: LoanAccountStatus;
+      allowed?: LoanAccountStatus[];
+      missing?: TransitionField[];
+    },
+  ) {
+    super(
+      { code, message, ...detail },
+      code === 'TRANSITION_FORBIDDEN'
+        ? HttpStatus.FORBIDDEN
+        : HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+export function allowedTransitions(
+  from: LoanAccountStatus,
+): LoanAccountStatus[] {
+  return LOAN_STATUS_TRANSITIONS[from].map((rule) => rule.to);
+}
+
+/**
+ * 校验状态流转，不合法时抛出 LoanStatusTransitionException
+ * role 为空表示系统内部流转（如续贷、重组），不校验角色
+ */
+export function assertLoanStatusTransition(
+  from: LoanAccountStatus,
+  to: LoanAccountStatus,
+  context: TransitionContext = {},
+): TransitionRule {
+  const rule = LOAN_STATUS_TRANSITIONS[from].find((item) => item.to === to);
+  if (!rule) {
+    throw new LoanStatusTransitionException(
+      'ILLEGAL_TRANSITION',
+      `贷款状态不能从 ${from} 变更为 ${to}`,
+      { from, to, allowed: allowedTransitions(from) },
+    );
+  }
+  if (context.role && !rule.roles.includes(context.role as ManagementRoles)) {
+    throw new LoanStatusTransitionException(
+      'TRANSITION_FORBIDDEN',
+      `当前角色无权将贷款状态从 ${from} 变更为 ${to}`,
+      { from, to },
+    );
+  }
+  const missing = (rule.requires ?? []).filter((field) =>
+    field === 'settlement_date'
+      ? !context.settlementDate
+      : !context.reason?.trim(),
+  );
+  if (missing.length > 0) {
+    throw new LoanStatusTransitionException(
+      'TRANSITION_FIELDS_REQUIRED',
+      `变更为 ${to} 需要填写：${missing.join('、')}`,
+      { from, to, missing },
+    );
+  }
+  return rule;
+}
+
+// 还款后仍按正常还款中（pending）处理的状态；协商、待处理、拉黑等状态不因还款改变
+const REPAYMENT_RESET_STATUSES: LoanAccountStatus[] = [
+  'active',
+  'overdue',
+  'unsettled',
+];
+
+/**
+ * 还款入账后的贷款状态：全部期数已还清时结清，否则仅普通还款状态回到 pending
+ */
+export function repaymentTargetStatus(
+  from: LoanAccountStatus,
+  allPeriodsPaid: boolean,
+): LoanAccountStatus {
+  if (allPeriodsPaid) {
+    return 'settled';
+  }
+  return REPAYMENT_RESET_STATUSES.includes(from) ? 'pending' : from;
+}
@@ -3,6 +3,7 @@ import {
   Controller,
   Delete,
   Get,
+  HttpException,
   Param,
   ParseIntPipe,
   Post,
@@ -14,6 +15,11 @@ import {
 } from '@nestjs/common';
 import { LoanAccountsService } from './loanAccounts.service';
 import { CreateLoanAccountDto } from './dto/create-loanAccount.dto';
+import { PrecheckLoanAccountDto } from './dto/precheck-loanAccount.dto';
+import { PreviewLoanAccountDto } from './dto/preview-loanAccount.dto';
+import { LoanPrecheckService } from './loan-precheck.service';
+import { LoanRestructureService } from './loan-restructure.service';
+import { RestructureLoanAccountDto } from './dto/restructure-loanAccount.dto';
 import { UpdateLoanAccountDto } from './dto/update-loanAccount.dto';
 import { AuthGuard } from '../auth/auth.guard';
 import { RolesGuard } from '../auth/roles.guard';
@@ -28,7 +34,11 @@ import type { Response } from 'express';
 @Controller('loan-accounts')
 @UseInterceptors(OperationLogsInterceptor)
 export class LoanAccountsController {
-  constructor(private readonly loanAccountsService: LoanAccountsService) {}
+  constructor(
+    private readonly loanAccountsService: LoanAccountsService,
+    private readonly loanPrecheckService: LoanPrecheckService,
+    private readonly loanRestructureService: LoanRestructureService,
+  ) {}
   @UseGuards(AuthGuard, RolesGuard)
   @Roles(ManagementRoles.ADMIN)
   @Get()
@@ -151,6 +161,26 @@ export class LoanAccountsController {
     }
   }
 
+  /**
+   * 提前结清报价
+   * GET /loan-accounts/:id/settlement-quote?date=YYYY-MM-DD
+   */
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(
+    ManagementRoles.ADMIN,
+    ManagementRoles.COLLECTOR,
+    ManagementRoles.RISK_CONTROLLER,
+    ManagementRoles.FINANCIAL,
+  )
+  @Get(':id/settlement-quote')
+  async getSettlementQuote(
+    @Param('id') id: string,
+    @Query('date') date?: string,
+  ): Promise<ApiResponseDto> {
+    const quote = await this.loanAccountsService.getSettlementQuote(id, date);
+    return ResponseHelper.success(quote, '获取结清报价成功');
+  }
+
   @Get(':id')
   async findById(@Param('id') id: string): Promise<ApiResponseDto> {
     const loan = await this.loanAccountsService.findById(id);
@@ -160,12 +190,46 @@ export class LoanAccountsController {
     return ResponseHelper.success(loan, '获取贷款记录成功');
   }
 
+  /**
+   * 贷款试算：预览还款计划与汇总数据（不落库）
+   * POST /loan-accounts/preview
+   */
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(
+    ManagementRoles.ADMIN,
+    ManagementRoles.RISK_CONTROLLER,
+    ManagementRoles.COLLECTOR,
+  )
+  @Post('preview')
+  async preview(@Body() body: PreviewLoanAccountDto): Promise<ApiResponseDto> {
+    const result = await this.loanAccountsService.preview(body);
+    return ResponseHelper.success(result, '贷款试算成功');
+  }
+
+  /**
+   * 贷前风险检查
+   * POST /loan-accounts/precheck
+   */
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(ManagementRoles.ADMIN, ManagementRoles.RISK_CONTROLLER)
+  @Post('precheck')
+  async precheck(
+    @Body() body: PrecheckLoanAccountDto,
+  ): Promise<ApiResponseDto> {
+    const result = await this.loanPrecheckService.check(
+      body.user_id,
+      body.loan_amount,
+      body.parent_loan_id,
+    );
+    return ResponseHelper.success(result, '贷前检查完成');
+  }
+
   @UseGuards(AuthGuard, RolesGuard)
   @Roles(ManagementRoles.ADMIN, ManagementRoles.RISK_CONTROLLER)
   @Post()
   async create(
     @Body() body: CreateLoanAccountDto,
-    @CurrentUser() user: { id: number },
+    @CurrentUser() user: { id: number; role: string },
   ): Promise<ApiResponseDto> {
     try {
       const { due_start_date, total_periods, collector_id } = body;
@@ -176,10 +240,18 @@ export class LoanAccountsController {
 
       const createdBy = user.id;
 
-      const loan = await this.loanAccountsService.create(body, createdBy);
+      const loan = await this.loanAccountsService.create(
+        body,
+        createdBy,
+        user.role,
+      );
 
       return ResponseHelper.success(loan, '创建贷款记录成功');
     } catch (error: any) {
+      // 贷前检查未通过等业务异常保留原有状态码
+      if (error instanceof HttpException) {
+        throw error;
+      }
       console.error('创建贷款记录错误:', error);
 
       return ResponseHelper.error(`创建贷款记录失败: ${error.message}`, 500);
@@ -196,11 +268,15 @@ export class LoanAccountsController {
   async update(
     @Param('id') id: string,
     @Body() body: UpdateLoanAccountDto,
+    @CurrentUser() user: { id: number; role: string },
   ): Promise<ApiResponseDto> {
     try {
-      const updated = await this.loanAccountsService.update(id, body);
+      const updated = await this.loanAccountsService.update(id, body, user);
       return ResponseHelper.success(updated, '更新贷款记录成功');
     } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       console.error('更新贷款记录错误:', error);
       return ResponseHelper.error(`更新贷款记录失败: ${error.message}`, 500);
     }
@@ -221,6 +297,7 @@ export class LoanAccountsController {
       settlement_capital?: number;
       order_id?: string;
       settlement_date?: string;
+      reason?: string;
     },
     @CurrentUser() user: { id: number; role: string },
   ): Promise<ApiResponseDto> {
@@ -236,16 +313,65 @@ export class LoanAccountsController {
           settlementCapital: Number(body.settlement_capital ?? 0),
           orderId: body.order_id ?? undefined,
           settlementDate: body.settlement_date,
+          reason: body.reason,
         },
         user.id,
+        user.role,
       );
       return ResponseHelper.success(updated, '更新贷款状态成功');
     } catch (error: any) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       console.error('更新贷款状态错误:', error);
       return ResponseHelper.error(`更新贷款状态失败: ${error.message}`, 500);
     }
   }
 
+  /**
+   * 贷款重组：延长期限 / 剩余本金重新分摊 / 停息
+   * POST /loan-accounts/:id/restructure
+   */
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(ManagementRoles.ADMIN, ManagementRoles.COLLECTOR)
+  @Post(':id/restructure')
+  async restructure(
+    @Param('id') id: string,
+    @Body() body: RestructureLoanAccountDto,
+    @CurrentUser() user: { id: number },
+  ): Promise<ApiResponseDto> {
+    const record = await this.loanRestructureService.restructure(
+      id,
+      body,
+      user.id,
+    );
+    return ResponseHelper.success(record, '贷款重组成功');
+  }
+
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(
+    ManagementRoles.ADMIN,
+    ManagementRoles.COLLECTOR,
+    ManagementRoles.RISK_CONTROLLER,
+  )
+  @Get(':id/status-history')
+  async getStatusHistory(@Param('id') id: string): Promise<ApiResponseDto> {
+    const history = await this.loanAccountsService.getStatusHistory(id);
+    return ResponseHelper.success(history, '获取状态变更记录成功');
+  }
+
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(
+    ManagementRoles.ADMIN,
+    ManagementRoles.COLLECTOR,
+    ManagementRoles.RISK_CONTROLLER,
+  )
+  @Get(':id/restructures')
+  async getRestructures(@Param('id') id: string): Promise<ApiResponseDto> {
+    const records = await this.loanRestructureService.findByLoan(id);
+    return ResponseHelper.success(records, '获取重组记录成功');
+  }
+
   @UseGuards(AuthGuard, RolesGuard)
   @Roles(ManagementRoles.ADMIN)
   @Delete(':id')
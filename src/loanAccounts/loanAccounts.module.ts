@@ -1,11 +1,16 @@
 import { Module } from '@nestjs/common';
 import { LoanAccountsService } from './loanAccounts.service';
 import { LoanAccountsController } from './loanAccounts.controller';
+import { LoanPrecheckService } from './loan-precheck.service';
+import { LoanRestructureService } from './loan-restructure.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { OperationLogsModule } from '../operation-logs/operation-logs.module';
 import { ExcelExportService } from '../common/excel-export.service';
 import { LoanPredictionModule } from '../loan-prediction/loan-prediction.module';
 import { AssetManagementModule } from '../asset-management/asset-management.module';
+import { CustomerScoringModule } from '../customer-scoring/customer-scoring.module';
+import { BusinessCalendarModule } from '../business-calendar/business-calendar.module';
+import { CustomerCreditModule } from '../customer-credit/customer-credit.module';
 
 @Module({
   imports: [
@@ -13,8 +18,16 @@ import { AssetManagementModule } from '../asset-management/asset-management.modu
     OperationLogsModule,
     LoanPredictionModule,
     AssetManagementModule,
+    CustomerScoringModule,
+    BusinessCalendarModule,
+    CustomerCreditModule,
+  ],
+  providers: [
+    LoanAccountsService,
+    LoanPrecheckService,
+    LoanRestructureService,
+    ExcelExportService,
   ],
-  providers: [LoanAccountsService, ExcelExportService],
   controllers: [LoanAccountsController],
   exports: [LoanAccountsService],
 })
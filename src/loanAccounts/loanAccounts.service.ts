@@ -1,4 +1,9 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import {
   LoanAccount,
@@ -8,6 +13,9 @@ import {
   PaymentMethod,
   User,
   ManagementRoles,
+  ScheduleFrequency,
+  ScheduleMethod,
+  Prisma,
 } from '@prisma/client';
 import { CreateLoanAccountDto } from './dto/create-loanAccount.dto';
 import { UpdateLoanAccountDto } from './dto/update-loanAccount.dto';
@@ -18,13 +26,48 @@ import {
 } from '../common/excel-export.service';
 import { LoanPredictionService } from '../loan-prediction/loan-prediction.service';
 import { AssetManagementService } from '../asset-management/asset-management.service';
+import { CustomerScoringService } from '../customer-scoring/customer-scoring.service';
+import { CustomerCreditService } from '../customer-credit/customer-credit.service';
+import { BusinessCalendarService } from '../business-calendar/business-calendar.service';
+import { LoanPrecheckService } from './loan-precheck.service';
+import { PreviewLoanAccountDto } from './dto/preview-loanAccount.dto';
+import {
+  LoanPreview,
+  calculateCashToHand,
+  calculateLoanPreview,
+} from './loan-calculator';
+import {
+  GeneratedPeriod,
+  generateSchedule,
+  scheduleDates,
+} from './schedule-generator';
+import { SettlementQuote, calculateSettlementQuote } from './settlement-quote';
+import {
+  assertLoanStatusTransition,
+  repaymentTargetStatus,
+} from './loan-status-machine';
 @Injectable()
 export class LoanAccountsService {
+  // 提前结清优惠比例（按结清本金计算），默认不优惠
+  private readonly settlementDiscountRate = Number(
+    process.env.SETTLEMENT_DISCOUNT_RATE ?? 0,
+  );
+  // 为 true 时结清金额与报价相差超过容差将被拒绝，否则仅记录差额
+  private readonly settlementQuoteStrict =
+    process.env.SETTLEMENT_QUOTE_STRICT === 'true';
+  private readonly settlementQuoteTolerance = Number(
+    process.env.SETTLEMENT_QUOTE_TOLERANCE ?? 0,
+  );
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly excelExportService: ExcelExportService,
     private readonly loanPredictionService: LoanPredictionService,
     private readonly assetManagementService: AssetManagementService,
+    private readonly customerScoringService: CustomerScoringService,
+    private readonly loanPrecheckService: LoanPrecheckService,
+    private readonly businessCalendarService: BusinessCalendarService,
+    private readonly customerCreditService: CustomerCreditService,
   ) {}
 
   /**
@@ -257,6 +300,334 @@ export class LoanAccountsService {
     return 'pending';
   }
 
+  /**
+   * 解析日期字符串（YYYY-MM-DD 格式）
+   * 使用 UTC 时间创建日期，避免时区转换导致的日期偏移
+   */
+  private parseDateOnly(dateStr: string): Date {
+    const match = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (match) {
+      const [, year, month, day] = match;
+      // 使用 UTC 时间创建日期，确保日期部分不会因时区转换而改变
+      return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    }
+    // 如果格式不匹配，尝试直接解析
+    const date = new Date(dateStr);
+    // 如果解析成功，转换为 UTC 时间的午夜
+    if (!isNaN(date.getTime())) {
+      return new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+      );
+    }
+    return date;
+  }
+
+  /**
+   * 贷款试算：返回每期还款计划与汇总数据，不落库
+   */
+  async preview(data: PreviewLoanAccountDto): Promise<LoanPreview> {
+    const startDate = this.parseDateOnly(data.due_start_date);
+    return calculateLoanPreview({
+      loanAmount: Number(data.loan_amount),
+      toHandRatio: Number(data.to_hand_ratio ?? 0),
+      capital: Number(data.capital),
+      interest: Number(data.interest),
+      startDate,
+      totalPeriods: Number(data.total_periods),
+      handlingFee: Number(data.handling_fee ?? 0),
+      companyCost: Number(data.company_cost ?? 0),
+      frequency: data.schedule_frequency,
+      method: data.schedule_method,
+      periodRate: data.period_rate,
+      holidays: data.skip_holidays
+        ? await this.businessCalendarService.getHolidayKeys(startDate)
+        : undefined,
+    });
+  }
+
+  /**
+   * 按还款周期与还款方式计算每期日期、本金和利息（不落库）
+   */
+  buildSchedulePlan(params: {
+    startDate: Date;
+    loanAmount: number;
+    totalPeriods: number;
+    capital: number;
+    interest: number;
+    frequency?: ScheduleFrequency;
+    method?: ScheduleMethod;
+    periodRate?: number | null;
+    holidays?: Set<string>; // 需要跳过的节假日（YYYY-MM-DD）
+  }): GeneratedPeriod[] {
+    return generateSchedule({
+      startDate: params.startDate,
+      principal: params.loanAmount,
+      periods: params.totalPeriods,
+      capital: params.capital,
+      interest: params.interest,
+      periodRate: params.periodRate,
+      frequency: params.frequency ?? 'daily',
+      method: params.method ?? 'flat',
+      holidays: params.holidays,
+    });
+  }
+
+  /**
+   * 提前结清报价：按指定日期（默认今天）计算结清金额与结清日前的欠款
+   */
+  async getSettlementQuote(
+    id: string,
+    dateStr?: string,
+  ): Promise<SettlementQuote & { loanId: string }> {
+    const loan = await this.prisma.loanAccount.findUnique({
+      where: { id },
+      include: { repaymentSchedules: true },
+    });
+    if (!loan) {
+      throw new NotFoundException('贷款记录不存在');
+    }
+    if (loan.status === 'settled' || loan.status === 'blacklist') {
+      throw new BadRequestException('贷款已结清或已拉黑');
+    }
+
+    const now = new Date();
+    const date = dateStr
+      ? this.parseDateOnly(dateStr)
+      : new Date(
+          Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+        );
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException('无效的结清日期');
+    }
+
+    const quote = calculateSettlementQuote(loan.repaymentSchedules, date, {
+      discountRate: this.settlementDiscountRate,
+      creditBalance: loan.credit_balance,
+    });
+    return { loanId: id, ...quote };
+  }
+
+  /**
+   * 校验续贷的原贷款并按今天计算结清金额，客户到手金额须足以结清原贷款
+   */
+  private async prepareRenewal(
+    tx: Prisma.TransactionClient,
+    parentLoanId: string,
+    userId: number,
+    grossToHand: number,
+  ) {
+    const parent = await tx.loanAccount.findUnique({
+      where: { id: parentLoanId },
+      include: { repaymentSchedules: true },
+    });
+    if (!parent) {
+      throw new NotFoundException('续贷的原贷款不存在');
+    }
+    if (parent.user_id !== userId) {
+      throw new BadRequestException('续贷的原贷款不属于该客户');
+    }
+    if (parent.status === 'settled' || parent.status === 'blacklist') {
+      throw new BadRequestException('原贷款已结清或已拉黑，不能续贷');
+    }
+
+    const now = new Date();
+    const today = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+    );
+    assertLoanStatusTransition(parent.status, 'settled', {
+      settlementDate: today.toISOString(),
+    });
+    // 续贷结清原贷款全部未还部分（含结清日前的欠款），溢缴余额优先抵扣
+    const quote = calculateSettlementQuote(parent.repaymentSchedules, today, {
+      discountRate: this.settlementDiscountRate,
+      creditBalance: parent.credit_balance,
+    });
+    if (quote.totalPayoff >= grossToHand) {
+      throw new BadRequestException(
+        `到手金额 ${grossToHand} 不足以结清原贷款，需结清 ${quote.totalPayoff}`,
+      );
+    }
+    return { parent, quote, today };
+  }
+
+  /**
+   * 续贷结清原贷款：终止未还计划、记录还款、抵扣溢缴余额，原贷款状态改为 settled
+   */
+  private async settleRenewedLoan(
+    tx: Prisma.TransactionClient,
+    renewal: {
+      parent: LoanAccount & {
+        repaymentSchedules: { id: number; status: RepaymentScheduleStatus }[];
+      };
+      quote: SettlementQuote;
+      today: Date;
+    },
+    childLoanId: string,
+    operatorId: number,
+  ) {
+    const { parent, quote, today } = renewal;
+    const capital = quote.settlementCapital + quote.arrearsCapital;
+    const interest = quote.accruedInterest + quote.arrearsInterest;
+    const fines = quote.settlementFines + quote.arrearsFines;
+    const gross = quote.settlementAmount + quote.arrearsAmount;
+    const creditUsed = Math.round((gross - quote.totalPayoff) * 100) / 100;
+
+    // 仅未结清、未拉黑的原贷款可被结清，避免并发续贷重复结清同一笔贷款
+    const settled = await tx.loanAccount.updateMany({
+      where: { id: parent.id, status: { notIn: ['settled', 'blacklist'] } },
+      data: {
+        status: 'settled',
+        status_changed_at: new Date(),
+        due_end_date: today,
+        receiving_amount: { increment: gross },
+        paid_capital: { increment: capital },
+        paid_interest: { increment: interest },
+        total_fines: { increment: fines },
+        early_settlement_capital: capital,
+        settlement_quote_amount: gross,
+        settlement_deviation: 0,
+        overdue_count: 0,
+      },
+    });
+    if (settled.count === 0) {
+      throw new BadRequestException('原贷款已结清或已拉黑，不能续贷');
+    }
+
+    const unpaidIds = parent.repaymentSchedules
+      .filter((s) => s.status !== 'paid' && s.status !== 'terminated')
+      .map((s) => s.id);
+    if (unpaidIds.length > 0) {
+      await tx.repaymentSchedule.updateMany({
+        where: { id: { in: unpaidIds } },
+        data: { status: 'terminated' as RepaymentScheduleStatus },
+      });
+    }
+
+    // 从新贷款放款中抵扣，非实际收款：标记为续贷抵扣，收款统计不计入
+    const record = await tx.repaymentRecord.create({
+      data: {
+        loan_id: parent.id,
+        user_id: parent.user_id,
+        paid_amount: Math.round(quote.totalPayoff),
+        paid_amount_decimal: quote.totalPayoff,
+        paid_at: new Date(),
+        payment_method: PaymentMethod.wechat_pay,
+        collected_by_type: 'renewal',
+        actual_collector_id: operatorId,
+        remark: `来源：续贷抵扣结清（新贷款 ${childLoanId}）`,
+        paid_capital: capital,
+        paid_interest: interest,
+        paid_fines: fines > 0 ? fines : null,
+      },
+    });
+    await this.customerCreditService.settleRepayment(tx, {
+      loanId: parent.id,
+      userId: parent.user_id,
+      creditUsed,
+      overpayment: 0,
+      repaymentRecordId: record.id,
+    });
+
+    await this.recordStatusChange(tx, {
+      loanId: parent.id,
+      from: parent.status,
+      to: 'settled',
+      source: 'renewal',
+      operatorId,
+      reason: `续贷结清（新贷款 ${childLoanId}）`,
+      settlementDate: today,
+    });
+  }
+
+  /**
+   * 还款入账后按状态机更新贷款状态并记录变更（需在调用方事务中执行）
+   * 全部期数已还清时结清，状态未变化时不写历史
+   */
+  async applyRepaymentStatus(
+    tx: Prisma.TransactionClient,
+    data: { loanId: string; operatorId?: number | null },
+  ): Promise<LoanAccountStatus | null> {
+    const loan = await tx.loanAccount.findUnique({
+      where: { id: data.loanId },
+      select: { status: true, total_periods: true },
+    });
+    if (!loan) {
+      return null;
+    }
+    const repaidPeriods = await tx.repaymentSchedule.count({
+      where: { loan_id: data.loanId, status: 'paid' },
+    });
+    const to = repaymentTargetStatus(
+      loan.status,
+      repaidPeriods >= loan.total_periods,
+    );
+    if (to === loan.status) {
+      return to;
+    }
+
+    const now = new Date();
+    const today = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+    );
+    const settlementDate = to === 'settled' ? today : null;
+    const reason = to === 'settled' ? '还款结清' : '还款入账';
+    assertLoanStatusTransition(loan.status, to, {
+      settlementDate: settlementDate?.toISOString(),
+      reason,
+    });
+    await tx.loanAccount.update({
+      where: { id: data.loanId },
+      data: { status: to, status_changed_at: now },
+    });
+    await this.recordStatusChange(tx, {
+      loanId: data.loanId,
+      from: loan.status,
+      to,
+      source: 'repayment',
+      operatorId: data.operatorId,
+      reason,
+      settlementDate,
+    });
+    return to;
+  }
+
+  /**
+   * 记录贷款状态变更（需在调用方事务中执行）
+   */
+  async recordStatusChange(
+    tx: Prisma.TransactionClient,
+    data: {
+      loanId: string;
+      from: LoanAccountStatus;
+      to: LoanAccountStatus;
+      source: 'status' | 'update' | 'restructure' | 'renewal' | 'repayment';
+      operatorId?: number | null;
+      operatorRole?: string | null;
+      reason?: string | null;
+      settlementDate?: Date | null;
+    },
+  ) {
+    return tx.loanStatusHistory.create({
+      data: {
+        loan_id: data.loanId,
+        from_status: data.from,
+        to_status: data.to,
+        source: data.source,
+        operator_id: data.operatorId ?? null,
+        operator_role: data.operatorRole ?? null,
+        reason: data.reason ?? null,
+        settlement_date: data.settlementDate ?? null,
+      },
+    });
+  }
+
+  async getStatusHistory(id: string) {
+    return this.prisma.loanStatusHistory.findMany({
+      where: { loan_id: id },
+      orderBy: { id: 'desc' },
+    });
+  }
+
   findAll(): Promise<LoanAccount[]> {
     return this.prisma.loanAccount.findMany({ include: { user: true } });
   }
@@ -264,7 +635,26 @@ export class LoanAccountsService {
   async create(
     data: CreateLoanAccountDto,
     createdBy: number,
+    creatorRole?: string,
   ): Promise<LoanAccount> {
+    // 贷前检查：开启强制后，未通过检查的贷款需管理员确认放行
+    if (this.loanPrecheckService.enforced) {
+      const precheck = await this.loanPrecheckService.check(
+        data.user_id,
+        Number(data.loan_amount),
+        data.parent_loan_id,
+      );
+      const overridden =
+        data.override_precheck === true &&
+        creatorRole === ManagementRoles.ADMIN;
+      if (precheck.decision === 'reject' && !overridden) {
+        const messages = precheck.reasons
+          .filter((reason) => reason.level === 'reject')
+          .map((reason) => reason.message);
+        throw new ForbiddenException(`贷前检查未通过：${messages.join('；')}`);
+      }
+    }
+
     const {
       due_start_date,
       total_periods,
@@ -273,33 +663,11 @@ export class LoanAccountsService {
       interest,
     } = data;
 
-    // 设置时间
-    // 解析日期字符串（YYYY-MM-DD 格式）
-    // 使用 UTC 时间创建日期，避免时区转换导致的日期偏移
-    const parseDate = (dateStr: string): Date => {
-      const match = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-      if (match) {
-        const [, year, month, day] = match;
-        // 使用 UTC 时间创建日期，确保日期部分不会因时区转换而改变
-        return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
-      }
-      // 如果格式不匹配，尝试直接解析
-      const date = new Date(dateStr);
-      // 如果解析成功，转换为 UTC 时间的午夜
-      if (!isNaN(date.getTime())) {
-        return new Date(
-          Date.UTC(
-            date.getUTCFullYear(),
-            date.getUTCMonth(),
-            date.getUTCDate(),
-          ),
-        );
-      }
-      return date;
-    };
-
-    const startDate = parseDate(due_start_date);
-    const endDate = parseDate(data.due_end_date);
+    const startDate = this.parseDateOnly(due_start_date);
+    const endDate = this.parseDateOnly(data.due_end_date);
+    const holidays = data.skip_holidays
+      ? await this.businessCalendarService.getHolidayKeys(startDate)
+      : undefined;
 
     // 使用事务：创建贷款记录并批量创建还款计划
     const loan = await this.prisma.$transaction(async (tx) => {
@@ -309,11 +677,33 @@ export class LoanAccountsService {
 
       const applyTimes = existingCount;
 
+      // 续贷：从客户到手金额中抵扣结清原贷款
+      const toHand = {
+        loanAmount: Number(data.loan_amount),
+        toHandRatio: Number(data.to_hand_ratio ?? 0),
+        handlingFee: Number(data.handling_fee ?? 0),
+        receivingAmount: data.receiving_amount ?? null,
+      };
+      const renewal = data.parent_loan_id
+        ? await this.prepareRenewal(
+            tx,
+            data.parent_loan_id,
+            data.user_id,
+            calculateCashToHand(toHand).grossToHand,
+          )
+        : null;
+      const cashToHand = calculateCashToHand({
+        ...toHand,
+        payoffAmount: renewal?.quote.totalPayoff,
+      });
+
       const created = await tx.loanAccount.create({
         data: {
           user_id: data.user_id,
           loan_amount: data.loan_amount,
-          receiving_amount: data.receiving_amount,
+          receiving_amount: renewal
+            ? cashToHand.netToHand
+            : data.receiving_amount,
           risk_controller_id: data.risk_controller_id,
           collector_id: data.collector_id,
           lender_id: data.lender_id,
@@ -332,58 +722,39 @@ export class LoanAccountsService {
           created_by: createdBy,
           note: data.remark || '',
           ownership: data.ownership || null,
+          schedule_frequency: data.schedule_frequency,
+          schedule_method: data.schedule_method,
+          period_rate: data.period_rate ?? null,
+          skip_holidays: data.skip_holidays ?? false,
+          parent_loan_id: renewal?.parent.id ?? null,
+          payoff_amount: renewal?.quote.totalPayoff ?? null,
+          cash_to_hand: cashToHand.netToHand,
         },
       });
 
-      const periods = Number(total_periods) || 0;
-      const perCapital = Number(capital) || 0; // 每期本金（除最后一期）
-      const perInterest = Number(interest) || 0; // 每期利息（固定不变）
-      // 生成还款计划：最后一期本金为剩余本金；应还金额 = 本金 + 利息
-      let remainingPrincipal = Number(data.loan_amount) || 0; // 假定 loan_amount 为总本金
-      const rows = Array.from({ length: periods }).map((_, idx) => {
-        // 计算每期的开始日期：第一期使用 due_start_date，后续每期依次往后延
-        // 使用 UTC 时间计算，避免时区转换问题
-        // 周期是一天，所以每期的due_start_date就是开始日期
-        const baseDate = new Date(created.due_start_date);
-        const d = new Date(
-          Date.UTC(
-            baseDate.getUTCFullYear(),
-            baseDate.getUTCMonth(),
-            baseDate.getUTCDate() + idx,
-          ),
-        );
-
-        // 计算本期本金：前 n-1 期使用固定每期本金，最后一期取剩余本金
-        let curCapital = 0;
-        if (idx < periods - 1) {
-          curCapital = Math.min(perCapital, Math.max(0, remainingPrincipal));
-        } else {
-          curCapital = Math.max(0, remainingPrincipal);
-        }
-        curCapital = Number(curCapital.toFixed(2));
-
-        const curInterest = Number(perInterest.toFixed(2));
-        const dueAmount = Number((curCapital + curInterest).toFixed(2));
-
-        remainingPrincipal = Number(
-          Math.max(0, remainingPrincipal - curCapital).toFixed(2),
-        );
-
-        let scheduleStatus: RepaymentScheduleStatus = 'pending';
-        scheduleStatus = this.determineScheduleStatus(d, 'pending');
-
-        return {
-          loan_id: created.id,
-          period: idx + 1,
-          due_start_date: d,
-          due_amount: dueAmount,
-          capital: curCapital,
-          interest: perInterest || null,
-          paid_capital: 0,
-          paid_interest: 0,
-          status: scheduleStatus,
-        };
+      // 按还款周期与还款方式生成还款计划
+      const plan = this.buildSchedulePlan({
+        startDate: created.due_start_date,
+        loanAmount: Number(data.loan_amount) || 0,
+        totalPeriods: Number(total_periods) || 0,
+        capital: Number(capital) || 0,
+        interest: Number(interest) || 0,
+        frequency: created.schedule_frequency,
+        method: created.schedule_method,
+        periodRate: data.period_rate,
+        holidays,
       });
+      const rows = plan.map((item) => ({
+        loan_id: created.id,
+        period: item.period,
+        due_start_date: item.due_start_date,
+        due_amount: item.due_amount,
+        capital: item.capital,
+        interest: item.interest || null,
+        paid_capital: 0,
+        paid_interest: 0,
+        status: this.determineScheduleStatus(item.due_start_date, 'pending'),
+      }));
 
       if (rows.length > 0) {
         await tx.repaymentSchedule.createMany({ data: rows });
@@ -419,9 +790,17 @@ export class LoanAccountsService {
         ],
         skipDuplicates: true,
       });
+
+      if (renewal) {
+        await this.settleRenewedLoan(tx, renewal, created.id, createdBy);
+      }
       return created;
     });
 
+    if (data.parent_loan_id) {
+      await this.customerScoringService.refreshUser(data.user_id);
+    }
+
     // 更新预测数据
     try {
       await this.loanPredictionService.updatePredictions(loan);
@@ -494,6 +873,7 @@ export class LoanAccountsService {
       const paidCapital = Number(loan.paid_capital || 0);
       const paidInterest = Number(loan.paid_interest || 0);
       const totalFines = Number(loan.total_fines || 0);
+      const creditBalance = Number(loan.credit_balance || 0);
 
       return {
         ...loan,
@@ -505,6 +885,7 @@ export class LoanAccountsService {
           unpaidCapital: 0, // 未还本金 = 0
           remainingCapital: 0, // 还需还款本金 = 0
           remainingInterest: 0, // 还需还款利息 = 0
+          creditBalance, // 溢缴余额 = loanAccount.credit_balance
         },
       };
     }
@@ -561,6 +942,7 @@ export class LoanAccountsService {
         unpaidCapital, // 未还本金
         remainingCapital, // 还需还款本金
         remainingInterest, // 还需还款利息
+        creditBalance: Number(loan.credit_balance || 0), // 溢缴余额
       },
     };
   }
@@ -1310,18 +1692,31 @@ export class LoanAccountsService {
     return loan;
   }
 
-  async update(id: string, data: UpdateLoanAccountDto): Promise<LoanAccount> {
-    return await this.prisma.$transaction(async (tx) => {
+  async update(
+    id: string,
+    data: UpdateLoanAccountDto,
+    operator?: { id: number; role: string },
+  ): Promise<LoanAccount> {
+    const updatedLoan = await this.prisma.$transaction(async (tx) => {
       // 获取更新前的数据，用于判断 due_start_date 是否改变
       const oldLoan = await tx.loanAccount.findUnique({
         where: { id },
-        select: { due_start_date: true },
+        select: { due_start_date: true, status: true },
       });
 
       if (!oldLoan) {
         throw new Error('贷款记录不存在');
       }
 
+      // 直接修改状态只允许不需要额外字段的流转，结清/拉黑需走状态接口
+      const statusChanged =
+        data.status !== undefined && data.status !== oldLoan.status;
+      if (statusChanged) {
+        assertLoanStatusTransition(oldLoan.status, data.status!, {
+          role: operator?.role,
+        });
+      }
+
       const updateData: any = {};
       let newDueStartDate: Date | null = null;
 
@@ -1379,6 +1774,14 @@ export class LoanAccountsService {
         updateData.company_cost = data.company_cost;
       if (data.apply_times !== undefined)
         updateData.apply_times = data.apply_times;
+      if (data.schedule_frequency !== undefined)
+        updateData.schedule_frequency = data.schedule_frequency;
+      if (data.schedule_method !== undefined)
+        updateData.schedule_method = data.schedule_method;
+      if (data.period_rate !== undefined)
+        updateData.period_rate = data.period_rate;
+      if (data.skip_holidays !== undefined)
+        updateData.skip_holidays = data.skip_holidays;
 
       // 处理管理员ID字段
       if (data.risk_controller_id !== undefined) {
@@ -1424,8 +1827,90 @@ export class LoanAccountsService {
         },
       });
 
+      if (statusChanged) {
+        await this.recordStatusChange(tx, {
+          loanId: id,
+          from: oldLoan.status,
+          to: updated.status,
+          source: 'update',
+          operatorId: operator?.id,
+          operatorRole: operator?.role,
+        });
+      }
+
+      const scheduleSettingsChanged =
+        data.schedule_frequency !== undefined ||
+        data.schedule_method !== undefined ||
+        data.period_rate !== undefined ||
+        data.skip_holidays !== undefined;
+
+      // 修改还款周期或还款方式：尚未发生还款时按新规则重新生成还款计划
+      if (scheduleSettingsChanged) {
+        const paidCount = await tx.repaymentSchedule.count({
+          where: {
+            loan_id: id,
+            OR: [{ status: 'paid' }, { paid_amount: { gt: 0 } }],
+          },
+        });
+        if (paidCount > 0) {
+          throw new Error('已有还款记录，不能修改还款周期或还款方式');
+        }
+
+        const plan = this.buildSchedulePlan({
+          startDate: updated.due_start_date,
+          loanAmount: Number(updated.loan_amount),
+          totalPeriods: updated.total_periods,
+          capital: Number(updated.capital),
+          interest: Number(updated.interest),
+          frequency: updated.schedule_frequency,
+          method: updated.schedule_method,
+          periodRate:
+            updated.period_rate !== null ? Number(updated.period_rate) : null,
+          holidays: updated.skip_holidays
+            ? await this.businessCalendarService.getHolidayKeys(
+                updated.due_start_date,
+              )
+            : undefined,
+        });
+        await tx.repaymentSchedule.deleteMany({ where: { loan_id: id } });
+        if (plan.length > 0) {
+          await tx.repaymentSchedule.createMany({
+            data: plan.map((item) => ({
+              loan_id: id,
+              period: item.period,
+              due_start_date: item.due_start_date,
+              due_amount: item.due_amount,
+              capital: item.capital,
+              interest: item.interest || null,
+              paid_capital: 0,
+              paid_interest: 0,
+              status: this.determineScheduleStatus(
+                item.due_start_date,
+                'pending',
+              ),
+            })),
+          });
+        }
+        const overdueCount = await tx.repaymentSchedule.count({
+          where: { loan_id: id, status: 'overdue' },
+        });
+        await tx.loanAccount.update({
+          where: { id },
+          data: {
+            overdue_count: overdueCount,
+            ...(plan.length > 0
+              ? { due_end_date: plan[plan.length - 1].due_start_date }
+              : {}),
+          },
+        });
+      }
+
       // 如果 due_start_date 改变了，同步更新所有相关的 RepaymentSchedule
-      if (newDueStartDate && oldLoan.due_start_date) {
+      if (
+        newDueStartDate &&
+        oldLoan.due_start_date &&
+        !scheduleSettingsChanged
+      ) {
         const oldStartDate = new Date(oldLoan.due_start_date);
 
         // 比较日期（只比较年月日，忽略时间）
@@ -1447,21 +1932,22 @@ export class LoanAccountsService {
             select: { id: true, period: true },
           });
 
+          // 计算新的开始日期：第一期使用新的 due_start_date，后续每期按还款周期依次往后延
+          // 使用 UTC 时间计算，避免时区转换问题；开启跳过节假日时顺延到收款日
+          const newDates = scheduleDates(
+            newDueStartDate,
+            Math.max(0, ...schedules.map((schedule) => schedule.period)),
+            updated.schedule_frequency,
+            updated.skip_holidays
+              ? await this.businessCalendarService.getHolidayKeys(
+                  newDueStartDate,
+                )
+              : undefined,
+          );
+
           // 更新每个还款计划的日期和状态
           for (const schedule of schedules) {
-            // 计算新的开始日期：第一期使用新的 due_start_date，后续每期依次往后延
-            // 第一期：period = 1，所以加 0 天
-            // 第二期：period = 2，所以加 1 天
-            // 第三期：period = 3，所以加 2 天
-            // 使用 UTC 时间计算，避免时区转换问题
-            const baseDate = new Date(newDueStartDate);
-            const newStartDate = new Date(
-              Date.UTC(
-                baseDate.getUTCFullYear(),
-                baseDate.getUTCMonth(),
-                baseDate.getUTCDate() + (schedule.period - 1),
-              ),
-            );
+            const newStartDate = newDates[schedule.period - 1];
 
             // 获取当前还款计划的状态，用于判断新状态
             const currentSchedule = await tx.repaymentSchedule.findUnique({
@@ -1581,6 +2067,12 @@ export class LoanAccountsService {
 
       return finalUpdated!;
     });
+
+    // 状态或借款次数变化后刷新客户等级与高风险标记
+    if (data.status !== undefined || data.apply_times !== undefined) {
+      await this.customerScoringService.refreshUser(updatedLoan.user_id);
+    }
+    return updatedLoan;
   }
 
   async updateStatus(
@@ -1590,8 +2082,10 @@ export class LoanAccountsService {
       settlementCapital?: number;
       orderId?: string;
       settlementDate?: string;
+      reason?: string;
     },
     userId?: number | null,
+    role?: string | null,
   ): Promise<LoanAccount> {
     // 检查贷款记录是否存在
     const loan = await this.prisma.loanAccount.findUnique({
@@ -1605,6 +2099,13 @@ export class LoanAccountsService {
       throw new Error('贷款记录不存在');
     }
 
+    // 按状态机校验流转、角色与必填字段
+    assertLoanStatusTransition(loan.status, newStatus, {
+      role,
+      settlementDate: options?.settlementDate,
+      reason: options?.reason,
+    });
+
     // 如果新状态是 settled（已结清）或 blacklist（黑名单），
     // 需要：
     // 1. 以前端传入的 settlementDate 为分界线
@@ -1712,6 +2213,36 @@ export class LoanAccountsService {
         const manualCapital = options?.settlementCapital ?? 0;
         const hasManualSettlement = manualCapital > 0;
 
+        // 结清时与系统报价比对，严格模式下超出容差直接拒绝，否则记录差额
+        let quoteData: {
+          settlement_quote_amount?: number;
+          settlement_deviation?: number;
+        } = {};
+        if (newStatus === 'settled') {
+          const quote = calculateSettlementQuote(
+            schedules,
+            settlementDateStart,
+            {
+              discountRate: this.settlementDiscountRate,
+              creditBalance: loan.credit_balance,
+            },
+          );
+          const deviation =
+            Math.round((manualCapital - quote.settlementAmount) * 100) / 100;
+          if (
+            this.settlementQuoteStrict &&
+            Math.abs(deviation) > this.settlementQuoteTolerance
+          ) {
+            throw new BadRequestException(
+              `结清金额 ${manualCapital} 与系统报价 ${quote.settlementAmount} 相差 ${deviation}，超出允许范围`,
+            );
+          }
+          quoteData = {
+            settlement_quote_amount: quote.settlementAmount,
+            settlement_deviation: deviation,
+          };
+        }
+
         let settlementAmount: number;
         let receivingAmount: number;
 
@@ -1789,6 +2320,7 @@ export class LoanAccountsService {
           status: newStatus,
           receiving_amount: receivingAmount,
           due_end_date: settlementDateEnd,
+          ...quoteData,
         };
 
         updateData.status_changed_at = new Date();
@@ -1842,9 +2374,21 @@ export class LoanAccountsService {
           },
         });
 
+        await this.recordStatusChange(tx, {
+          loanId: id,
+          from: loan.status,
+          to: newStatus,
+          source: 'status',
+          operatorId: userId,
+          operatorRole: role,
+          reason: options?.reason,
+          settlementDate: settlementDateStart,
+        });
+
         return updated;
       });
 
+      await this.customerScoringService.refreshUser(loan.user_id);
       return updated;
     } else {
       // 对于其他状态，直接更新
@@ -1855,37 +2399,50 @@ export class LoanAccountsService {
       if (newStatus === 'negotiated') {
         updateData.status_changed_at = new Date();
       }
-      const updated = await this.prisma.loanAccount.update({
-        where: { id },
-        data: updateData,
-        include: {
-          user: true,
-          repaymentSchedules: {
-            orderBy: {
-              period: 'asc',
+      const updated = await this.prisma.$transaction(async (tx) => {
+        const result = await tx.loanAccount.update({
+          where: { id },
+          data: updateData,
+          include: {
+            user: true,
+            repaymentSchedules: {
+              orderBy: {
+                period: 'asc',
+              },
             },
-          },
-          risk_controller: {
-            select: {
-              id: true,
-              username: true,
+            risk_controller: {
+              select: {
+                id: true,
+                username: true,
+              },
             },
-          },
-          collector: {
-            select: {
-              id: true,
-              username: true,
+            collector: {
+              select: {
+                id: true,
+                username: true,
+              },
             },
-          },
-          lender: {
-            select: {
-              id: true,
-              username: true,
+            lender: {
+              select: {
+                id: true,
+                username: true,
+              },
             },
           },
-        },
+        });
+        await this.recordStatusChange(tx, {
+          loanId: id,
+          from: loan.status,
+          to: newStatus,
+          source: 'status',
+          operatorId: userId,
+          operatorRole: role,
+          reason: options?.reason,
+        });
+        return result;
       });
 
+      await this.customerScoringService.refreshUser(loan.user_id);
       return updated;
     }
   }
@@ -2047,6 +2604,17 @@ export class LoanAccountsService {
         riskControllerName,
         paidPeriods: repaidPeriods,
         totalPeriods: loan.total_periods ?? repaymentSchedules.length,
+        creditBalance: this.toNumber(loan.credit_balance),
+        payoffAmount: this.toNumber(loan.payoff_amount),
+        cashToHand:
+          loan.cash_to_hand !== null
+            ? this.toNumber(loan.cash_to_hand)
+            : calculateCashToHand({
+                loanAmount,
+                toHandRatio,
+                handlingFee,
+                payoffAmount: this.toNumber(loan.payoff_amount),
+              }).netToHand,
         repaymentSchedules,
       };
 
@@ -0,0 +1,171 @@
+import {
+  addPeriods,
+  generateSchedule,
+  getScheduleGenerator,
+  scheduleDates,
+  toDateKey,
+} from './schedule-generator';
+
+const utc = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month - 1, day));
+
+const keys = (dates: Date[]) => dates.map(toDateKey);
+
+describe('schedule generators', () => {
+  it('flat: fixed capital with the remainder in the last period', () => {
+    const amounts = getScheduleGenerator('flat').generate({
+      principal: 1000,
+      periods: 4,
+      capital: 300,
+      interest: 12.5,
+    });
+
+    expect(amounts.map((a) => a.capital)).toEqual([300, 300, 300, 100]);
+    expect(amounts.every((a) => a.interest === 12.5)).toBe(true);
+  });
+
+  it('flat: stops collecting capital once the principal is repaid', () => {
+    const amounts = getScheduleGenerator('flat').generate({
+      principal: 500,
+      periods: 3,
+      capital: 300,
+      interest: 0,
+    });
+
+    expect(amounts.map((a) => a.capital)).toEqual([300, 200, 0]);
+  });
+
+  it('equal installment: level payments that repay the full principal', () => {
+    const amounts = getScheduleGenerator('equal_installment').generate({
+      principal: 1000,
+      periods: 3,
+      capital: 0,
+      interest: 0,
+      periodRate: 0.1,
+    });
+
+    expect(amounts[0]).toEqual({ capital: 302.11, interest: 100 });
+    expect(amounts[1]).toEqual({ capital: 332.32, interest: 69.79 });
+    const totalCapital = amounts.reduce((sum, a) => sum + a.capital, 0);
+    expect(Number(totalCapital.toFixed(2))).toBe(1000);
+  });
+
+  it('equal installment: derives the rate from interest when none is set', () => {
+    const amounts = getScheduleGenerator('equal_installment').generate({
+      principal: 1000,
+      periods: 2,
+      capital: 0,
+      interest: 0,
+    });
+
+    expect(amounts).toEqual([
+      { capital: 500, interest: 0 },
+      { capital: 500, interest: 0 },
+    ]);
+  });
+
+  it('interest first: repays all capital in the last period', () => {
+    const amounts = getScheduleGenerator('interest_first').generate({
+      principal: 1000,
+      periods: 3,
+      capital: 0,
+      interest: 20,
+    });
+
+    expect(amounts).toEqual([
+      { capital: 0, interest: 20 },
+      { capital: 0, interest: 20 },
+      { capital: 1000, interest: 20 },
+    ]);
+  });
+
+  it('rejects unknown methods', () => {
+    expect(() => getScheduleGenerator('unknown' as never)).toThrow(
+      '不支持的还款方式',
+    );
+  });
+});
+
+describe('addPeriods', () => {
+  it('steps by day, week and month', () => {
+    const start = utc(2026, 1, 31);
+
+    expect(toDateKey(addPeriods(start, 2, 'daily'))).toBe('2026-02-02');
+    expect(toDateKey(addPeriods(start, 1, 'weekly'))).toBe('2026-02-07');
+    expect(toDateKey(addPeriods(start, 1, 'monthly'))).toBe('2026-02-28');
+    expect(toDateKey(addPeriods(start, 2, 'monthly'))).toBe('2026-03-31');
+  });
+});
+
+describe('scheduleDates', () => {
+  const holidays = new Set(['2026-01-02', '2026-01-03', '2026-01-12']);
+
+  it('keeps daily periods on consecutive business days', () => {
+    expect(keys(scheduleDates(utc(2026, 1, 1), 3, 'daily', holidays))).toEqual([
+      '2026-01-01',
+      '2026-01-04',
+      '2026-01-05',
+    ]);
+  });
+
+  it('moves a start date that falls on a holiday', () => {
+    expect(keys(scheduleDates(utc(2026, 1, 2), 2, 'daily', holidays))).toEqual([
+      '2026-01-04',
+      '2026-01-05',
+    ]);
+  });
+
+  it('shifts weekly periods that fall on a holiday without moving later ones', () => {
+    expect(keys(scheduleDates(utc(2026, 1, 5), 3, 'weekly', holidays))).toEqual(
+      ['2026-01-05', '2026-01-13', '2026-01-19'],
+    );
+  });
+
+  it('ignores holidays when none are given', () => {
+    expect(keys(scheduleDates(utc(2026, 1, 1), 3, 'daily'))).toEqual([
+      '2026-01-01',
+      '2026-01-02',
+      '2026-01-03',
+    ]);
+  });
+});
+
+describe('generateSchedule', () => {
+  it('numbers periods and sums the due amount', () => {
+    const schedule = generateSchedule({
+      startDate: utc(2026, 1, 1),
+      principal: 200,
+      periods: 2,
+      capital: 100,
+      interest: 5.5,
+      frequency: 'daily',
+      method: 'flat',
+      holidays: new Set(['2026-01-02']),
+    });
+
+    expect(
+      schedule.map((p) => [
+        p.period,
+        toDateKey(p.due_start_date),
+        p.due_amount,
+      ]),
+    ).toEqual([
+      [1, '2026-01-01', 105.5],
+      [2, '2026-01-03', 105.5],
+    ]);
+  });
+
+  it('returns no periods for a non-positive period count', () => {
+    expect(
+      generateSchedule({
+        startDate: utc(2026, 1, 1),
+        principal: 100,
+        periods: 0,
+        capital: 100,
+        interest: 0,
+        frequency: 'daily',
+        method: 'flat',
+      }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,205 @@
+import { ScheduleFrequency, ScheduleMethod } from '@prisma/client';
+
+/**
+ * 还款计划生成器
+ *
+ * frequency 决定每期的日期间隔（按天 / 按周 / 按月），
+ * method 决定每期本金与利息的拆分方式，新增方式只需注册新的生成器。
+ */
+
+export interface ScheduleGeneratorInput {
+  principal: number; // 总本金（loan_amount）
+  periods: number;
+  capital: number; // 每期本金（等本等息使用）
+  interest: number; // 每期利息（等本等息、先息后本使用）
+  periodRate?: number | null; // 每期利率（等额本息使用）
+}
+
+export interface GeneratedAmount {
+  capital: number;
+  interest: number;
+}
+
+export interface GeneratedPeriod extends GeneratedAmount {
+  period: number;
+  due_start_date: Date;
+  due_amount: number;
+}
+
+export interface ScheduleGenerator {
+  method: ScheduleMethod;
+  generate(input: ScheduleGeneratorInput): GeneratedAmount[];
+}
+
+const round2 = (value: number) => Number(value.toFixed(2));
+
+/**
+ * 等本等息：前 n-1 期使用固定每期本金，最后一期取剩余本金；每期利息固定
+ */
+const flatGenerator: ScheduleGenerator = {
+  method: 'flat',
+  generate({ principal, periods, capital, interest }) {
+    let remaining = principal;
+    return Array.from({ length: periods }).map((_, idx) => {
+      const cur =
+        idx < periods - 1
+          ? Math.min(capital, Math.max(0, remaining))
+          : Math.max(0, remaining);
+      remaining = round2(Math.max(0, remaining - round2(cur)));
+      return { capital: round2(cur), interest: round2(interest) };
+    });
+  },
+};
+
+/**
+ * 等额本息：每期应还金额相同，利息按剩余本金计算
+ * 未配置每期利率时按 每期利息 / 总本金 推算
+ */
+const equalInstallmentGenerator: ScheduleGenerator = {
+  method: 'equal_installment',
+  generate({ principal, periods, interest, periodRate }) {
+    const rate =
+      periodRate ?? (principal > 0 ? Math.max(0, interest) / principal : 0);
+    const payment =
+      rate > 0
+        ? (principal * rate) / (1 - Math.pow(1 + rate, -periods))
+        : principal / periods;
+
+    let remaining = principal;
+    return Array.from({ length: periods }).map((_, idx) => {
+      const curInterest = round2(remaining * rate);
+      const curCapital =
+        idx < periods - 1
+          ? round2(Math.min(Math.max(0, payment - curInterest), remaining))
+          : round2(remaining);
+      remaining = round2(Math.max(0, remaining - curCapital));
+      return { capital: curCapital, interest: curInterest };
+    });
+  },
+};
+
+/**
+ * 先息后本：每期只收利息，最后一期归还全部本金
+ */
+const interestFirstGenerator: ScheduleGenerator = {
+  method: 'interest_first',
+  generate({ principal, periods, interest }) {
+    return Array.from({ length: periods }).map((_, idx) => ({
+      capital: idx === periods - 1 ? round2(principal) : 0,
+      interest: round2(interest),
+    }));
+  },
+};
+
+const generators = new Map<ScheduleMethod, ScheduleGenerator>(
+  [flatGenerator, equalInstallmentGenerator, interestFirstGenerator].map(
+    (generator) => [generator.method, generator],
+  ),
+);
+
+export function getScheduleGenerator(
+  method: ScheduleMethod,
+): ScheduleGenerator {
+  const generator = generators.get(method);
+  if (!generator) {
+    throw new Error(`不支持的还款方式: ${method}`);
+  }
+  return generator;
+}
+
+/**
+ * 计算第 idx 期（从 0 开始）的开始日期，使用 UTC 日期避免时区偏移
+ * 按月时超出月末的日期取当月最后一天
+ */
+export function addPeriods(
+  start: Date,
+  idx: number,
+  frequency: ScheduleFrequency,
+): Date {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+
+  switch (frequency) {
+    case 'weekly':
+      return new Date(Date.UTC(year, month, day + idx * 7));
+    case 'monthly': {
+      const lastDay = new Date(Date.UTC(year, month + idx + 1, 0)).getUTCDate();
+      return new Date(Date.UTC(year, month + idx, Math.min(day, lastDay)));
+    }
+    default:
+      return new Date(Date.UTC(year, month, day + idx));
+  }
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function nextDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1),
+  );
+}
+
+/**
+ * 计算每期开始日期；传入节假日集合（YYYY-MM-DD）时跳过非收款日：
+ * 按天顺延为连续的收款日，按周/按月将落在节假日的日期顺延到下一个收款日
+ */
+export function scheduleDates(
+  start: Date,
+  count: number,
+  frequency: ScheduleFrequency,
+  holidays?: Set<string>,
+): Date[] {
+  const dates: Date[] = [];
+  for (let idx = 0; idx < count; idx++) {
+    let date =
+      holidays && frequency === 'daily' && idx > 0
+        ? nextDay(dates[idx - 1])
+        : addPeriods(start, idx, frequency);
+    if (holidays) {
+      while (
+        holidays.has(toDateKey(date)) ||
+        (idx > 0 && date <= dates[idx - 1])
+      ) {
+        date = nextDay(date);
+      }
+    }
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * 生成完整还款计划（日期 + 本金/利息拆分）
+ */
+export function generateSchedule(
+  input: ScheduleGeneratorInput & {
+    startDate: Date;
+    frequency: ScheduleFrequency;
+    method: ScheduleMethod;
+    holidays?: Set<string>;
+  },
+): GeneratedPeriod[] {
+  const periods = Math.max(0, Math.floor(input.periods));
+  if (periods === 0) return [];
+
+  const amounts = getScheduleGenerator(input.method).generate({
+    ...input,
+    periods,
+  });
+  const dates = scheduleDates(
+    input.startDate,
+    periods,
+    input.frequency,
+    input.holidays,
+  );
+  return amounts.map((amount, idx) => ({
+    period: idx + 1,
+    due_start_date: dates[idx],
+    capital: amount.capital,
+    interest: amount.interest,
+    due_amount: round2(amount.capital + amount.interest),
+  }));
+}
@@ -0,0 +1,126 @@
+import {
+  QuoteScheduleInput,
+  calculateSettlementQuote,
+} from './settlement-quote';
+
+const date = new Date(Date.UTC(2026, 4, 10));
+
+const schedule = (
+  period: number,
+  day: number,
+  overrides: Partial<QuoteScheduleInput> = {},
+): QuoteScheduleInput => ({
+  period,
+  due_start_date: new Date(Date.UTC(2026, 4, day)),
+  status: 'pending',
+  capital: 100,
+  interest: 10,
+  ...overrides,
+});
+
+const schedules = [
+  schedule(1, 8, { status: 'overdue', fines_due: 5 }),
+  schedule(2, 9, { status: 'paid' }),
+  schedule(3, 10),
+  schedule(4, 11),
+  schedule(5, 12, { status: 'terminated' }),
+];
+
+describe('calculateSettlementQuote', () => {
+  it('splits periods into settlement and arrears around the date', () => {
+    expect(calculateSettlementQuote(schedules, date)).toMatchObject({
+      settlementPeriods: 2,
+      settlementCapital: 200,
+      settlementAmount: 210,
+      arrearsPeriods: 1,
+      arrearsCapital: 100,
+      arrearsInterest: 10,
+      arrearsFines: 5,
+      arrearsAmount: 115,
+      totalPayoff: 325,
+    });
+  });
+
+  it('only charges interest on periods starting by the settlement date', () => {
+    expect(calculateSettlementQuote(schedules, date).accruedInterest).toBe(10);
+  });
+
+  it('keeps the active period out of the settlement', () => {
+    const quote = calculateSettlementQuote(
+      [
+        schedule(1, 10, { status: 'active', paid_capital: 40 }),
+        schedule(2, 11),
+      ],
+      date,
+    );
+
+    expect(quote).toMatchObject({
+      settlementPeriods: 1,
+      settlementCapital: 100,
+      arrearsPeriods: 1,
+      arrearsCapital: 60,
+      arrearsInterest: 10,
+    });
+  });
+
+  it('leaves fully paid past periods out of the arrears', () => {
+    const quote = calculateSettlementQuote(
+      [schedule(1, 8, { paid_capital: 100, paid_interest: 10 })],
+      date,
+    );
+
+    expect(quote).toMatchObject({ arrearsPeriods: 0, arrearsAmount: 0 });
+  });
+
+  it('adds unpaid fines of terminated periods to the settlement', () => {
+    const quote = calculateSettlementQuote(
+      [schedule(1, 11, { status: 'overdue', fines_due: 8, fines: 3 })],
+      date,
+    );
+
+    expect(quote).toMatchObject({
+      settlementFines: 5,
+      settlementAmount: 105,
+    });
+  });
+
+  it('discounts the settlement capital and clamps the rate', () => {
+    expect(
+      calculateSettlementQuote(schedules, date, { discountRate: 0.1 }),
+    ).toMatchObject({ discount: 20, settlementAmount: 190, totalPayoff: 305 });
+    expect(
+      calculateSettlementQuote(schedules, date, { discountRate: 2 }),
+    ).toMatchObject({ discount: 200, settlementAmount: 10 });
+    expect(
+      calculateSettlementQuote(schedules, date, { discountRate: -1 }).discount,
+    ).toBe(0);
+  });
+
+  it('nets the credit balance and never goes below zero', () => {
+    expect(
+      calculateSettlementQuote(schedules, date, { creditBalance: '50.5' }),
+    ).toMatchObject({ creditBalance: 50.5, totalPayoff: 274.5 });
+    expect(
+      calculateSettlementQuote(schedules, date, { creditBalance: 1000 })
+        .totalPayoff,
+    ).toBe(0);
+  });
+
+  it('works in cents with decimal inputs', () => {
+    const quote = calculateSettlementQuote(
+      [
+        schedule(1, 10, { capital: '33.33', interest: '0.1' }),
+        schedule(2, 11, { capital: '33.34', interest: '0.2' }),
+      ],
+      date,
+      { discountRate: 0.005 },
+    );
+
+    expect(quote).toMatchObject({
+      settlementCapital: 66.67,
+      accruedInterest: 0.1,
+      discount: 0.33,
+      settlementAmount: 66.44,
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { RepaymentScheduleStatus } from '@prisma/client';
+
+/**
+ * 提前结清报价
+ *
+ * 与 updateStatus 结清逻辑保持一致：结清日当天及以后、未开始还款的计划（pending / overdue）被终止，
+ * 结清金额 = 这些计划的未还本金 + 截至结清日已产生的利息 + 未收罚金 - 优惠；
+ * 结清日之前的计划保持不变，其未还部分作为欠款单独列出。
+ * 纯函数实现，不访问数据库。
+ */
+
+type NumericLike = number | string | { toString(): string } | null | undefined;
+
+export interface QuoteScheduleInput {
+  period: number;
+  due_start_date: Date;
+  status: RepaymentScheduleStatus;
+  capital: NumericLike;
+  interest: NumericLike;
+  paid_capital?: NumericLike;
+  paid_interest?: NumericLike;
+  fines_due?: NumericLike;
+  fines?: NumericLike;
+}
+
+export interface SettlementQuote {
+  date: Date;
+  settlementPeriods: number; // 结清后将被终止的期数
+  settlementCapital: number;
+  accruedInterest: number;
+  settlementFines: number;
+  discount: number;
+  settlementAmount: number; // 与 updateStatus 的 settlementCapital 对应
+  arrearsPeriods: number; // 结清日之前尚未还清的期数
+  arrearsCapital: number;
+  arrearsInterest: number;
+  arrearsFines: number;
+  arrearsAmount: number;
+  creditBalance: number;
+  totalPayoff: number; // 结清金额 + 欠款 - 溢缴余额
+}
+
+function toCents(value: NumericLike): number {
+  const n = Number(value ?? 0);
+  return Number.isFinite(n) ? Math.round(n * 100) : 0;
+}
+
+const fromCents = (cents: number) => cents / 100;
+
+export function calculateSettlementQuote(
+  schedules: QuoteScheduleInput[],
+  date: Date,
+  options: { discountRate?: number; creditBalance?: NumericLike } = {},
+): SettlementQuote {
+  const settle = { periods: 0, capital: 0, interest: 0, fines: 0 };
+  const arrears = { periods: 0, capital: 0, interest: 0, fines: 0 };
+
+  for (const schedule of schedules) {
+    if (schedule.status === 'terminated' || schedule.status === 'paid') {
+      continue;
+    }
+    const capital = Math.max(
+      0,
+      toCents(schedule.capital) - toCents(schedule.paid_capital),
+    );
+    const interest = Math.max(
+      0,
+      toCents(schedule.interest) - toCents(schedule.paid_interest),
+    );
+    const fines = Math.max(
+      0,
+      toCents(schedule.fines_due) - toCents(schedule.fines),
+    );
+
+    const terminated =
+      schedule.status !== 'active' && schedule.due_start_date >= date;
+    if (terminated) {
+      settle.periods += 1;
+      settle.capital += capital;
+      // 结清日之后的利息不再收取
+      if (schedule.due_start_date <= date) settle.interest += interest;
+      settle.fines += fines;
+    } else if (capital + interest + fines > 0) {
+      arrears.periods += 1;
+      arrears.capital += capital;
+      arrears.interest += interest;
+      arrears.fines += fines;
+    }
+  }
+
+  const discountRate = Math.min(1, Math.max(0, options.discountRate ?? 0));
+  const discount = Math.round(settle.capital * discountRate);
+  const settlementAmount =
+    settle.capital + settle.interest + settle.fines - discount;
+  const arrearsAmount = arrears.capital + arrears.interest + arrears.fines;
+  const creditBalance = Math.max(0, toCents(options.creditBalance));
+
+  return {
+    date,
+    settlementPeriods: settle.periods,
+    settlementCapital: fromCents(settle.capital),
+    accruedInterest: fromCents(settle.interest),
+    settlementFines: fromCents(settle.fines),
+    discount: fromCents(discount),
+    settlementAmount: fromCents(settlementAmount),
+    arrearsPeriods: arrears.periods,
+    arrearsCapital: fromCents(arrears.capital),
+    arrearsInterest: fromCents(arrears.interest),
+    arrearsFines: fromCents(arrears.fines),
+    arrearsAmount: fromCents(arrearsAmount),
+    creditBalance: fromCents(creditBalance),
+    totalPayoff: fromCents(
+      Math.max(0, settlementAmount + arrearsAmount - creditBalance),
+    ),
+  };
+}
@@ -9,6 +9,7 @@ import { ManagementRoles } from '@prisma/client';
 import { RepaymentRecordsService } from '../repayment-records/repayment-records.service';
 import { PaginationQueryDto } from '../repayment-records/dto/pagination-query.dto';
 import { CurrentUser } from '../auth/current-user.decorator';
+import { EventsService } from '../events/events.service';
 
 @Controller('mobile-terminal')
 @UseGuards(AuthGuard, RolesGuard)
@@ -17,6 +18,7 @@ export class MobileTerminalController {
   constructor(
     private readonly mobileTerminalService: MobileTerminalService,
     private readonly repaymentRecordsService: RepaymentRecordsService,
+    private readonly eventsService: EventsService,
   ) {}
 
   /**
@@ -37,6 +39,15 @@ export class MobileTerminalController {
     return ResponseHelper.success(data, '获取收款用户列表成功');
   }
 
+  /**
+   * 获取收款人在线状态（在线时间、最近心跳、启用的二维码类型）
+   */
+  @Get('presence')
+  async getPresence(): Promise<ApiResponseDto> {
+    const presence = await this.eventsService.getPresenceOverview();
+    return ResponseHelper.success(presence, '获取在线状态成功');
+  }
+
   /**
    * 获取收款记录
    * 支持日期筛选
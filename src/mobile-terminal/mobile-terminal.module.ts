@@ -3,9 +3,10 @@ import { MobileTerminalService } from './mobile-terminal.service';
 import { MobileTerminalController } from './mobile-terminal.controller';
 import { PayeeDailyStatisticsModule } from '../payee-daily-statistics/payee-daily-statistics.module';
 import { RepaymentRecordsModule } from '../repayment-records/repayment-records.module';
+import { EventsModule } from '../events/events.module';
 
 @Module({
-  imports: [PayeeDailyStatisticsModule, RepaymentRecordsModule],
+  imports: [PayeeDailyStatisticsModule, RepaymentRecordsModule, EventsModule],
   controllers: [MobileTerminalController],
   providers: [MobileTerminalService],
   exports: [MobileTerminalService],
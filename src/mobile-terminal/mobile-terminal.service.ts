@@ -238,6 +238,8 @@ export class MobileTerminalService {
           gte: monthStartUTC,
           lte: monthEndUTC,
         },
+        // 续贷抵扣结清不是实际收款
+        collected_by_type: { not: 'renewal' },
       },
       _sum: {
         paid_amount: true,
@@ -257,6 +259,7 @@ export class MobileTerminalService {
           gte: todayStartUTC,
           lte: todayEndUTC,
         },
+        collected_by_type: { not: 'renewal' },
       },
       _sum: {
         paid_amount: true,
@@ -273,6 +276,7 @@ export class MobileTerminalService {
           gte: yesterdayStartUTC,
           lte: yesterdayEndUTC,
         },
+        collected_by_type: { not: 'renewal' },
       },
       _sum: {
         paid_amount: true,
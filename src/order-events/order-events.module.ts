@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { OrderEventsService } from './order-events.service';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [OrderEventsService],
+  exports: [OrderEventsService],
+})
+export class OrderEventsModule {}
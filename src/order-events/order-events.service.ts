@@ -0,0 +1,65 @@
+import { Injectable } from '@nestjs/common';
+import { OrderEventActor, OrderEventType } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+
+export interface RecordOrderEventInput {
+  orderId: string;
+  type: OrderEventType;
+  actorType?: OrderEventActor;
+  actorId?: number | null;
+  payeeId?: number | null;
+  detail?: Record<string, unknown>;
+  remark?: string;
+}
+
+@Injectable()
+export class OrderEventsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 记录订单事件（记录失败不影响主流程）
+   */
+  async record(input: RecordOrderEventInput): Promise<void> {
+    try {
+      await this.prisma.orderEvent.create({
+        data: {
+          order_id: input.orderId,
+          event_type: input.type,
+          actor_type: input.actorType ?? OrderEventActor.system,
+          actor_id: input.actorId ?? null,
+          payee_id: input.payeeId ?? null,
+          detail: input.detail ? JSON.stringify(input.detail) : null,
+          remark: input.remark ?? null,
+        },
+      });
+    } catch (error) {
+      console.error(
+        `❌ 记录订单事件失败: ${input.type} ${input.orderId}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * 订单事件时间线（按发生时间升序）
+   */
+  async findByOrder(orderId: string) {
+    const events = await this.prisma.orderEvent.findMany({
+      where: { order_id: orderId },
+      orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+    });
+
+    return events.map((event) => ({
+      ...event,
+      detail: event.detail ? this.parseDetail(event.detail) : null,
+    }));
+  }
+
+  private parseDetail(detail: string): unknown {
+    try {
+      return JSON.parse(detail);
+    } catch {
+      return detail;
+    }
+  }
+}
@@ -117,6 +117,34 @@ export class OrdersController {
     );
     return ResponseHelper.success(updated, '审核成功');
   }
+
+  /**
+   * 预览实付金额在各期还款计划上的分配结果
+   * POST /orders/review/preview
+   */
+  @Post('review/preview')
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(ManagementRoles.PAYEE, ManagementRoles.ADMIN)
+  async previewReviewAllocation(
+    @CurrentUser() user: { id: number },
+    @Body() body: { order_id: string; actual_paid_amount: number },
+  ): Promise<ApiResponseDto> {
+    if (!body.order_id || !body.actual_paid_amount) {
+      return ResponseHelper.error('缺少必要参数', 400);
+    }
+
+    if (body.actual_paid_amount <= 0) {
+      return ResponseHelper.error('实付金额必须大于0', 400);
+    }
+
+    const preview = await this.ordersService.previewAllocation(
+      user.id,
+      body.order_id,
+      body.actual_paid_amount,
+    );
+    return ResponseHelper.success(preview, '获取分配预览成功');
+  }
+
   @UseGuards(AuthGuard, RolesGuard)
   @Roles(ManagementRoles.COLLECTOR)
   @Get('manual-processing')
@@ -159,6 +187,26 @@ export class OrdersController {
     return ResponseHelper.success(updated, '处理订单成功');
   }
 
+  /**
+   * 订单事件时间线
+   * GET /orders/:id/timeline
+   */
+  @Get(':id/timeline')
+  @UseGuards(AuthGuard, RolesGuard)
+  @Roles(
+    ManagementRoles.ADMIN,
+    ManagementRoles.FINANCIAL,
+    ManagementRoles.COLLECTOR,
+    ManagementRoles.PAYEE,
+  )
+  async getOrderTimeline(
+    @CurrentUser() user: { id: number },
+    @Param('id') id: string,
+  ): Promise<ApiResponseDto> {
+    const timeline = await this.ordersService.getOrderTimeline(user.id, id);
+    return ResponseHelper.success(timeline, '获取订单时间线成功');
+  }
+
   @Delete(':id')
   @UseGuards(AuthGuard, RolesGuard)
   async deleteOrder(
@@ -5,6 +5,10 @@ import { PrismaModule } from '../../prisma/prisma.module';
 import { PayeeRankingModule } from '../payee-ranking/payee-ranking.module';
 import { PayeeDailyStatisticsModule } from '../payee-daily-statistics/payee-daily-statistics.module';
 import { EmailModule } from '../email/email.module';
+import { PayeeLimitModule } from '../payee-limit/payee-limit.module';
+import { OrderEventsModule } from '../order-events/order-events.module';
+import { CustomerCreditModule } from '../customer-credit/customer-credit.module';
+import { LoanAccountsModule } from '../loanAccounts/loanAccounts.module';
 
 @Module({
   imports: [
@@ -12,6 +16,10 @@ import { EmailModule } from '../email/email.module';
     PayeeRankingModule,
     PayeeDailyStatisticsModule,
     EmailModule,
+    PayeeLimitModule,
+    OrderEventsModule,
+    CustomerCreditModule,
+    LoanAccountsModule,
   ],
   controllers: [OrdersController],
   providers: [OrdersService],
@@ -0,0 +1,125 @@
+import { PrismaService } from '../../prisma/prisma.service';
+import { CustomerCreditService } from '../customer-credit/customer-credit.service';
+import { EmailService } from '../email/email.service';
+import { LoanAccountsService } from '../loanAccounts/loanAccounts.service';
+import { OrderEventsService } from '../order-events/order-events.service';
+import { PayeeDailyStatisticsService } from '../payee-daily-statistics/payee-daily-statistics.service';
+import { PayeeLimitService } from '../payee-limit/payee-limit.service';
+import { PayeeRankingService } from '../payee-ranking/payee-ranking.service';
+import { OrdersService } from './orders.service';
+
+describe('OrdersService.reviewOrder', () => {
+  const tx = {
+    repaymentSchedule: { findMany: jest.fn(), update: jest.fn() },
+    repaymentRecord: { create: jest.fn() },
+    loanAccount: { findUnique: jest.fn() },
+    order: { update: jest.fn() },
+  };
+  const prisma = {
+    order: { findUnique: jest.fn() },
+    $transaction: jest.fn((fn: (client: unknown) => unknown) => fn(tx)),
+  };
+  const customerCreditService = {
+    getBalance: jest.fn(),
+    settleRepayment: jest.fn(),
+  };
+  const service = new OrdersService(
+    prisma as unknown as PrismaService,
+    { updateDecimalSum: jest.fn() } as unknown as PayeeRankingService,
+    {
+      updateDailyStatistics: jest.fn(),
+    } as unknown as PayeeDailyStatisticsService,
+    {} as EmailService,
+    { restore: jest.fn() } as unknown as PayeeLimitService,
+    { record: jest.fn() } as unknown as OrderEventsService,
+    customerCreditService as unknown as CustomerCreditService,
+    { applyRepaymentStatus: jest.fn() } as unknown as LoanAccountsService,
+  );
+
+  const order = (overrides: Record<string, unknown> = {}) => ({
+    id: 'o1',
+    loan_id: 'loan-1',
+    customer_id: 3,
+    amount: 110,
+    payment_method: 'cash',
+    status: 'grabbed',
+    review_status: 'pending_review',
+    payee_id: 7,
+    grabbed_at: new Date(Date.now() - 2 * 60 * 60 * 1000),
+    limit_released_at: null,
+    payee: { id: 7, admin_id: 70, username: 'payee' },
+    customer: { username: 'customer' },
+    ...overrides,
+  });
+
+  const schedule = {
+    id: 11,
+    period: 1,
+    due_start_date: new Date(Date.UTC(2026, 0, 1)),
+    status: 'active',
+    capital: 100,
+    interest: 10,
+    fines_due: 0,
+    fines: 0,
+    paid_capital: 0,
+    paid_interest: 0,
+    paid_amount: 0,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tx.repaymentSchedule.findMany.mockResolvedValue([schedule]);
+    tx.repaymentRecord.create.mockResolvedValue({ id: 1 });
+    tx.loanAccount.findUnique.mockResolvedValue(null);
+    tx.order.update.mockImplementation(
+      ({ data }: { data: Record<string, unknown> }) => ({ id: 'o1', ...data }),
+    );
+    customerCreditService.getBalance.mockResolvedValue(0);
+  });
+
+  it('books an order whose limit was released after the review timeout', async () => {
+    prisma.order.findUnique.mockResolvedValue(
+      order({ limit_released_at: new Date() }),
+    );
+
+    const result = await service.reviewOrder(70, 'o1', 110);
+
+    expect(result).toMatchObject({
+      status: 'completed',
+      needs_manual_processing: false,
+    });
+    expect(result.allocation.allocated).toBe(110);
+    expect(tx.repaymentSchedule.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 11 } }),
+    );
+  });
+
+  it('writes paid amounts onto schedules whose paid columns are NULL', async () => {
+    prisma.order.findUnique.mockResolvedValue(order());
+    tx.repaymentSchedule.findMany.mockResolvedValue([
+      { ...schedule, paid_amount: null, fines: null, paid_interest: null },
+      { ...schedule, id: 12, period: 2, paid_amount: '20.5', paid_capital: 20 },
+    ]);
+
+    await service.reviewOrder(70, 'o1', 150);
+
+    const data = tx.repaymentSchedule.update.mock.calls.map(
+      ([args]: [{ data: Record<string, unknown> }]) => args.data,
+    );
+    expect(data[0]).toMatchObject({
+      paid_amount: 110,
+      paid_capital: 100,
+      paid_interest: 10,
+      fines: 0,
+    });
+    expect(data[1]).toMatchObject({ paid_amount: 60.5, paid_capital: 50 });
+  });
+
+  it('rejects orders that are no longer grabbed', async () => {
+    prisma.order.findUnique.mockResolvedValue(order({ status: 'expired' }));
+
+    await expect(service.reviewOrder(70, 'o1', 110)).rejects.toThrow(
+      '只能审核已抢单的订单',
+    );
+  });
+});
@@ -11,10 +11,19 @@ import { CreateOrderDto } from './dto/create-order.dto';
 import { PayeeRankingService } from '../payee-ranking/payee-ranking.service';
 import { PayeeDailyStatisticsService } from '../payee-daily-statistics/payee-daily-statistics.service';
 import { EmailService } from '../email/email.service';
+import { PayeeLimitService } from '../payee-limit/payee-limit.service';
+import { OrderEventsService } from '../order-events/order-events.service';
+import { CustomerCreditService } from '../customer-credit/customer-credit.service';
+import { LoanAccountsService } from '../loanAccounts/loanAccounts.service';
+import {
+  AllocationComponent,
+  allocatePayment,
+  parseAllocationOrder,
+  partialPaymentStatus,
+  settleCredit,
+} from './payment-allocation';
 import * as crypto from 'crypto';
 
-type LoanAccountStatus = 'pending' | 'settled';
-
 interface GetOrdersQuery {
   status?: OrderStatus;
   today?: boolean;
@@ -23,11 +32,19 @@ interface GetOrdersQuery {
 
 @Injectable()
 export class OrdersService {
+  // 实付金额分配顺序，默认：罚金 → 利息 → 本金
+  private readonly allocationOrder: AllocationComponent[] =
+    parseAllocationOrder(process.env.REPAYMENT_ALLOCATION_ORDER);
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly payeeRankingService: PayeeRankingService,
     private readonly payeeDailyStatisticsService: PayeeDailyStatisticsService,
     private readonly emailService: EmailService,
+    private readonly payeeLimitService: PayeeLimitService,
+    private readonly orderEventsService: OrderEventsService,
+    private readonly customerCreditService: CustomerCreditService,
+    private readonly loanAccountsService: LoanAccountsService,
   ) {}
 
   private async getAdminRole(adminId: number): Promise<string> {
@@ -141,6 +158,18 @@ export class OrdersService {
       data: updateData,
     });
 
+    await this.orderEventsService.record({
+      orderId: id,
+      type: 'payment_feedback',
+      actorType: 'customer',
+      actorId: order.customer_id,
+      payeeId: order.payee_id,
+      detail: {
+        payment_feedback: paymentFeedback,
+        previous: order.payment_feedback,
+      },
+    });
+
     // 如果支付反馈为成功，发送邮件给收款人
     if (paymentFeedback === 'success' && order.payee?.admin?.email) {
       const customerName = order.customer?.username || '未知客户';
@@ -291,87 +320,63 @@ export class OrdersService {
     const actualPaidAmountInt = Math.floor(actualPaidAmount);
     const decimalPart = actualPaidAmount % 1;
 
-    return await this.prisma.$transaction(async (tx) => {
-      // 获取前两个还款计划
-      const schedules = await tx.repaymentSchedule.findMany({
-        where: {
-          loan_id: order.loan_id,
-          status: { in: ['pending'] },
-        },
-        orderBy: {
-          due_start_date: 'asc',
-        },
-        take: 2,
-      });
+    const {
+      updatedOrder: reviewedOrder,
+      allocation,
+      credit,
+    } = await this.prisma.$transaction(async (tx) => {
+      // 获取所有未结清的还款计划
+      const schedules = await this.findOpenSchedules(tx, order.loan_id);
 
       if (schedules.length === 0) {
         throw new BadRequestException('还款计划不存在');
       }
 
-      // 计算第一期的金额 = 本金 + 利息
-      const firstPeriodAmount =
-        Number(schedules[0].capital || 0) + Number(schedules[0].interest || 0);
-
-      if (firstPeriodAmount <= 0) {
-        throw new BadRequestException('第一期的本金和利息不能为0');
-      }
-
-      // 计算前两期的总金额
-      let firstTwoPeriodsAmount = firstPeriodAmount;
-      if (schedules.length >= 2) {
-        const secondPeriodAmount =
-          Number(schedules[1].capital || 0) +
-          Number(schedules[1].interest || 0);
-        firstTwoPeriodsAmount = firstPeriodAmount + secondPeriodAmount;
+      // 实付金额连同历史溢缴余额，按配置的科目顺序分配
+      const creditBefore = await this.customerCreditService.getBalance(
+        tx,
+        order.loan_id,
+      );
+      const allocation = allocatePayment(
+        actualPaidAmountInt + creditBefore,
+        schedules,
+        this.allocationOrder,
+      );
+      const credit = settleCredit(
+        actualPaidAmountInt,
+        creditBefore,
+        allocation.allocated,
+      );
+
+      // 仅当金额无法分配时才需要手动处理，超出待还部分转入溢缴余额
+      const canAutoProcess = allocation.allocated > 0;
+
+      if (!order.payee_id || !order.payee) {
+        throw new BadRequestException('订单未关联收款人');
       }
 
-      // 判断实付金额是否等于第一期金额，或者是否等于前两期总金额
-      const canAutoProcess =
-        actualPaidAmountInt === firstPeriodAmount ||
-        (schedules.length >= 2 &&
-          actualPaidAmountInt === firstTwoPeriodsAmount);
-
-      // 如果可以自动处理，正常处理；否则需要手动处理
       if (!canAutoProcess) {
         // 需要手动处理
-        // 1. 获取第一个还款计划用于创建还款记录
-        const schedules = await tx.repaymentSchedule.findMany({
-          where: {
+        // 1. 创建还款记录（绑定到第一期未结清的还款计划）
+        await tx.repaymentRecord.create({
+          data: {
             loan_id: order.loan_id,
-            status: { in: ['pending'] },
-          },
-          orderBy: {
-            due_start_date: 'asc',
+            user_id: order.customer_id,
+            paid_amount: actualPaidAmountInt,
+            paid_amount_decimal: actualPaidAmount,
+            paid_at: new Date(),
+            payment_method: order.payment_method,
+            actual_collector_id: order.payee.admin_id,
+            remark: '客户还款',
+            order_id: orderId,
+            collected_by_type: 'grabbed',
+            paid_capital: 0, // 手动处理时，暂时设为0，后续手动处理时再更新
+            paid_interest: 0,
+            repayment_schedule_id: schedules[0].id,
           },
-          take: 1, // 只需要第一个
         });
 
-        // 2. 创建还款记录（绑定到 schedules[0]，如果存在）
-        if (!order.payee_id || !order.payee) {
-          throw new BadRequestException('订单未关联收款人');
-        }
-
-        if (schedules.length > 0) {
-          await tx.repaymentRecord.create({
-            data: {
-              loan_id: order.loan_id,
-              user_id: order.customer_id,
-              paid_amount: actualPaidAmountInt,
-              paid_amount_decimal: actualPaidAmount,
-              paid_at: new Date(),
-              payment_method: order.payment_method,
-              actual_collector_id: order.payee.admin_id,
-              remark: '客户还款',
-              order_id: orderId,
-              collected_by_type: 'grabbed',
-              paid_capital: 0, // 手动处理时，暂时设为0，后续手动处理时再更新
-              paid_interest: 0,
-              repayment_schedule_id: schedules[0].id,
-            },
-          });
-        }
-
-        // 3. 更新订单状态为需要手动处理
+        // 2. 更新订单状态为需要手动处理
         const updatedOrder = await tx.order.update({
           where: { id: orderId },
           data: {
@@ -383,7 +388,7 @@ export class OrdersService {
           } as any,
         });
 
-        // 4. 更新排行榜（累加小数部分）
+        // 3. 更新排行榜（累加小数部分）
         if (decimalPart > 0 && order.payee_id) {
           await this.payeeRankingService.updateDecimalSum(
             order.payee_id,
@@ -391,7 +396,7 @@ export class OrdersService {
           );
         }
 
-        // 5. 更新每日收款统计
+        // 4. 更新每日收款统计
         if (order.payee_id) {
           await this.payeeDailyStatisticsService.updateDailyStatistics(
             order.payee_id,
@@ -399,7 +404,7 @@ export class OrdersService {
           );
         }
 
-        // 6. 发送手动处理通知邮件给负责人
+        // 5. 发送手动处理通知邮件给负责人
         // 在事务外发送邮件，避免影响事务
         const loanAccount = await this.prisma.loanAccount.findUnique({
           where: { id: order.loan_id },
@@ -428,159 +433,228 @@ export class OrdersService {
             });
         }
 
-        return updatedOrder;
-      } else {
-        // 可以自动处理：实付金额等于第一期金额，或者等于前两期总金额
-        // schedules 已经在上面获取了（前两个）
-        // 重新获取所有需要更新的还款计划（可能只需要前1个或前2个）
-        const allSchedules = await tx.repaymentSchedule.findMany({
-          where: {
-            loan_id: order.loan_id,
-            status: { in: ['pending'] },
-          },
-          orderBy: {
-            due_start_date: 'asc',
-          },
-        });
+        return { updatedOrder, allocation, credit: null };
+      }
 
-        if (allSchedules.length === 0) {
-          throw new BadRequestException('还款计划不存在');
-        }
+      // 可以自动处理：逐期写入分配结果，最后一期允许部分还款
+      const now = new Date();
+      const today = new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+      );
+      const scheduleById = new Map(schedules.map((s) => [s.id, s]));
+      // 已还列可为 NULL（NULL + 数值仍为 NULL），按读取到的值写入累计后的绝对值
+      const addPaid = (current: unknown, amount: number) =>
+        Number((Number(current ?? 0) + amount).toFixed(2));
+      for (const item of allocation.allocations) {
+        const schedule = scheduleById.get(item.scheduleId);
+        if (!schedule) continue;
+
+        // 部分还款：仅当期或已到期的期数改为 active，未到期的保持 pending
+        const status: RepaymentScheduleStatus = item.settled
+          ? 'paid'
+          : partialPaymentStatus(
+              schedule.status as 'pending' | 'active' | 'overdue',
+              schedule.due_start_date,
+              today,
+            );
 
-        // 判断需要更新几期
-        let periodsToUpdate: number;
-        if (actualPaidAmountInt === firstPeriodAmount) {
-          // 实付金额等于第一期，只更新第一期
-          periodsToUpdate = 1;
-        } else if (
-          allSchedules.length >= 2 &&
-          actualPaidAmountInt === firstTwoPeriodsAmount
-        ) {
-          // 实付金额等于前两期总金额，更新前两期
-          periodsToUpdate = 2;
-        } else {
-          // 这种情况理论上不应该发生（因为 canAutoProcess 已经判断过了）
-          throw new BadRequestException('无法自动处理，请手动处理');
-        }
+        await tx.repaymentSchedule.update({
+          where: { id: schedule.id },
+          data: {
+            status,
+            paid_capital: addPaid(schedule.paid_capital, item.capital),
+            paid_interest: addPaid(schedule.paid_interest, item.interest),
+            fines: addPaid(schedule.fines, item.fines),
+            paid_amount: addPaid(schedule.paid_amount, item.amount),
+            paid_at: now,
+            operator_admin_id: order.payee_id,
+            operator_admin_name: order.payee.username,
+            collected_by_type: 'grabbed',
+          },
+        });
+      }
 
-        if (allSchedules.length < periodsToUpdate) {
-          throw new BadRequestException(
-            `还款计划数量不足，需要 ${periodsToUpdate} 期`,
-          );
-        }
+      const repaymentRecord = await tx.repaymentRecord.create({
+        data: {
+          loan_id: order.loan_id,
+          user_id: order.customer_id,
+          paid_amount: actualPaidAmountInt,
+          paid_amount_decimal: actualPaidAmount,
+          paid_at: now,
+          payment_method: order.payment_method,
+          actual_collector_id: order.payee.admin_id,
+          remark: '客户还款',
+          order_id: orderId,
+          collected_by_type: 'grabbed',
+          paid_capital: allocation.totalCapital,
+          paid_interest: allocation.totalInterest,
+          paid_fines: allocation.totalFines > 0 ? allocation.totalFines : null,
+          repayment_schedule_id: allocation.allocations[0].scheduleId,
+        },
+      });
 
-        let totalPaidCapital = 0;
-        let totalPaidInterest = 0;
+      // 抵扣历史溢缴余额 / 溢缴部分转入余额
+      await this.customerCreditService.settleRepayment(tx, {
+        loanId: order.loan_id,
+        userId: order.customer_id,
+        creditUsed: credit.used,
+        overpayment: credit.overpayment,
+        repaymentRecordId: repaymentRecord.id,
+        orderId,
+      });
 
-        // 2. 创建还款记录（绑定到 allSchedules[0]）
-        if (!order.payee_id || !order.payee) {
-          throw new BadRequestException('订单未关联收款人');
-        }
-        const actualCollectorIdForAuto = order.payee.admin_id;
-        // 3. 更新对应期数的还款计划
-        for (let i = 0; i < periodsToUpdate; i++) {
-          const schedule = allSchedules[i];
-          const scheduleCapital = Number(schedule.capital || 0);
-          const scheduleInterest = Number(schedule.interest || 0);
-
-          await tx.repaymentSchedule.update({
-            where: { id: schedule.id },
-            data: {
-              status: 'paid',
-              paid_capital: scheduleCapital,
-              paid_interest: scheduleInterest,
-              paid_amount: scheduleCapital + scheduleInterest,
-              paid_at: new Date(),
-              operator_admin_id: order.payee_id,
-              operator_admin_name: order.payee.username,
-              collected_by_type: 'grabbed',
-            },
-          });
-          totalPaidCapital += scheduleCapital;
-          totalPaidInterest += scheduleInterest;
-        }
+      // 更新 LoanAccount
+      const loanAccount = await tx.loanAccount.findUnique({
+        where: { id: order.loan_id },
+      });
 
-        const repaymentRecord = await tx.repaymentRecord.create({
-          data: {
+      if (loanAccount) {
+        const currentRepaidPeriods = await tx.repaymentSchedule.count({
+          where: {
             loan_id: order.loan_id,
-            user_id: order.customer_id,
-            paid_amount: actualPaidAmountInt,
-            paid_amount_decimal: actualPaidAmount,
-            paid_at: new Date(),
-            payment_method: order.payment_method,
-            actual_collector_id: actualCollectorIdForAuto,
-            remark: '客户还款',
-            order_id: orderId,
-            collected_by_type: 'grabbed',
-            paid_capital: totalPaidCapital,
-            paid_interest: totalPaidInterest,
-            repayment_schedule_id: allSchedules[0].id,
+            status: 'paid',
           },
         });
-
-        // 4. 更新 LoanAccount
-        const loanAccount = await tx.loanAccount.findUnique({
+        await tx.loanAccount.update({
           where: { id: order.loan_id },
+          data: {
+            receiving_amount: {
+              increment: actualPaidAmountInt,
+            },
+            paid_capital: {
+              increment: allocation.totalCapital,
+            },
+            paid_interest: {
+              increment: allocation.totalInterest,
+            },
+            total_fines: {
+              increment: allocation.totalFines,
+            },
+            repaid_periods: currentRepaidPeriods,
+          },
+        });
+        // 贷款状态按状态机流转（还清时结清）并记录变更
+        await this.loanAccountsService.applyRepaymentStatus(tx, {
+          loanId: order.loan_id,
+          operatorId: order.payee.admin_id,
         });
+      }
 
-        if (loanAccount) {
-          const currentRepaidPeriods = await tx.repaymentSchedule.count({
-            where: {
-              loan_id: order.loan_id,
-              status: 'paid',
-            },
-          });
-          let status: LoanAccountStatus = 'pending';
-          if (currentRepaidPeriods == loanAccount.total_periods) {
-            status = 'settled' as LoanAccountStatus;
-          }
-          await tx.loanAccount.update({
-            where: { id: order.loan_id },
-            data: {
-              receiving_amount: {
-                increment: actualPaidAmountInt,
-              },
-              paid_capital: {
-                increment: totalPaidCapital,
-              },
-              paid_interest: {
-                increment: totalPaidInterest,
-              },
-              repaid_periods: currentRepaidPeriods,
-              status: status,
-            } as any,
-          });
-        }
+      // 更新订单状态
+      const updatedOrder = await tx.order.update({
+        where: { id: orderId },
+        data: {
+          status: 'completed',
+          actual_paid_amount: actualPaidAmount,
+          needs_manual_processing: false,
+          updated_at: new Date(),
+        } as any,
+      });
 
-        // 5. 更新订单状态
-        const updatedOrder = await tx.order.update({
-          where: { id: orderId },
-          data: {
-            status: 'completed',
-            actual_paid_amount: actualPaidAmount,
-            needs_manual_processing: false,
-            updated_at: new Date(),
-          } as any,
-        });
+      // 更新排行榜（累加小数部分）
+      if (decimalPart > 0 && order.payee_id) {
+        await this.payeeRankingService.updateDecimalSum(
+          order.payee_id,
+          decimalPart,
+        );
+      }
 
-        // 6. 更新排行榜（累加小数部分）
-        if (decimalPart > 0 && order.payee_id) {
-          await this.payeeRankingService.updateDecimalSum(
-            order.payee_id,
-            decimalPart,
-          );
-        }
+      // 更新每日收款统计
+      if (order.payee_id) {
+        await this.payeeDailyStatisticsService.updateDailyStatistics(
+          order.payee_id,
+          actualPaidAmountInt,
+        );
+      }
 
-        // 7. 更新每日收款统计
-        if (order.payee_id) {
-          await this.payeeDailyStatisticsService.updateDailyStatistics(
-            order.payee_id,
-            actualPaidAmountInt,
-          );
-        }
+      return { updatedOrder, allocation, credit };
+    });
+
+    await this.orderEventsService.record({
+      orderId,
+      type: reviewedOrder.needs_manual_processing
+        ? 'manual_processing_required'
+        : 'reviewed',
+      actorType: 'payee',
+      actorId: adminId,
+      payeeId: order.payee_id,
+      detail: {
+        amount: Number(order.amount),
+        actual_paid_amount: actualPaidAmount,
+        allocation,
+        credit,
+      },
+      remark: reviewedOrder.needs_manual_processing
+        ? '实付金额无法分配，转手动处理'
+        : undefined,
+    });
+
+    return { ...reviewedOrder, allocation, credit };
+  }
+
+  /**
+   * 预览实付金额的分配结果（不落库）
+   */
+  async previewAllocation(
+    adminId: number,
+    orderId: string,
+    actualPaidAmount: number,
+  ) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { id: true, loan_id: true, payee_id: true, amount: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('订单不存在');
+    }
 
-        return updatedOrder;
+    const role = await this.getAdminRole(adminId);
+    // 收款人只能预览自己的订单
+    if (role === 'PAYEE') {
+      const payeeId = await this.getPayeeIdByAdmin(adminId);
+      if (!payeeId || order.payee_id !== payeeId) {
+        throw new ForbiddenException('无权限查看此订单');
       }
+    }
+
+    const paidAmountInt = Math.floor(actualPaidAmount);
+    const [schedules, creditBefore] = await Promise.all([
+      this.findOpenSchedules(this.prisma, order.loan_id),
+      this.customerCreditService.getBalance(this.prisma, order.loan_id),
+    ]);
+    const allocation = allocatePayment(
+      paidAmountInt + creditBefore,
+      schedules,
+      this.allocationOrder,
+    );
+
+    return {
+      order_id: order.id,
+      loan_id: order.loan_id,
+      amount: Number(order.amount),
+      actual_paid_amount: actualPaidAmount,
+      needs_manual_processing: allocation.allocated <= 0,
+      allocation,
+      credit: settleCredit(paidAmountInt, creditBefore, allocation.allocated),
+    };
+  }
+
+  /**
+   * 获取未结清的还款计划（按到期日升序）
+   */
+  private findOpenSchedules(
+    client: Prisma.TransactionClient | PrismaService,
+    loanId: string,
+  ) {
+    return client.repaymentSchedule.findMany({
+      where: {
+        loan_id: loanId,
+        status: { in: ['pending', 'active', 'overdue'] },
+      },
+      orderBy: {
+        due_start_date: 'asc',
+      },
     });
   }
 
@@ -679,7 +753,7 @@ export class OrdersService {
       throw new ForbiddenException('管理员不存在');
     }
 
-    return await this.prisma.$transaction(async (tx) => {
+    const processedOrder = await this.prisma.$transaction(async (tx) => {
       // 1. 验证订单状态
       const order = await tx.order.findUnique({
         where: { id: orderId },
@@ -801,13 +875,17 @@ export class OrdersService {
           status = 'paid';
         }
         // 4. 更新 repaymentSchedule
+        // 罚金在已收基础上累加，不覆盖之前收取的罚金；应收罚金不低于已收罚金
+        const collectedFines =
+          Number(schedule.fines ?? 0) + (paidFines > 0 ? paidFines : 0);
         await tx.repaymentSchedule.update({
           where: { id: schedule.id },
           data: {
             status: status,
             paid_capital: paidCapital,
             paid_interest: paidInterest,
-            fines: paidFines > 0 ? paidFines : 0,
+            fines: collectedFines,
+            fines_due: Math.max(Number(schedule.fines_due), collectedFines),
             paid_amount: periodPaidAmount,
             paid_at: new Date(),
             operator_admin_id: adminId,
@@ -820,7 +898,7 @@ export class OrdersService {
       if (!order.payee_id) {
         throw new BadRequestException('订单未关联收款人');
       }
-      await tx.repaymentRecord.create({
+      const repaymentRecord = await tx.repaymentRecord.create({
         data: {
           loan_id: order.loan_id,
           user_id: loanAccount.user_id,
@@ -838,6 +916,20 @@ export class OrdersService {
           repayment_schedule_id: schedules[data.periodCount - 1].id,
         },
       });
+      // 处理金额超出实付部分从溢缴余额抵扣，实付多出部分转入溢缴余额
+      const credit = settleCredit(
+        Math.floor(Number(order.actual_paid_amount ?? 0)),
+        Number(loanAccount.credit_balance),
+        totalPaidAmount,
+      );
+      await this.customerCreditService.settleRepayment(tx, {
+        loanId: order.loan_id,
+        userId: loanAccount.user_id,
+        creditUsed: credit.used,
+        overpayment: credit.overpayment,
+        repaymentRecordId: repaymentRecord.id,
+        orderId,
+      });
       // 更新每日收款统计
       if (order.payee_id) {
         await this.payeeDailyStatisticsService.updateDailyStatistics(
@@ -871,6 +963,10 @@ export class OrdersService {
           repaid_periods: currentRepaidPeriods,
         },
       });
+      await this.loanAccountsService.applyRepaymentStatus(tx, {
+        loanId: order.loan_id,
+        operatorId: adminId,
+      });
 
       // 7. 更新订单状态
       const updatedOrder = await tx.order.update({
@@ -883,6 +979,18 @@ export class OrdersService {
 
       return updatedOrder;
     });
+
+    await this.orderEventsService.record({
+      orderId,
+      type: 'manual_processed',
+      actorType: 'admin',
+      actorId: adminId,
+      payeeId: processedOrder.payee_id,
+      detail: { ...data },
+      remark: `处理人：${admin.username}`,
+    });
+
+    return processedOrder;
   }
 
   /**
@@ -896,6 +1004,9 @@ export class OrdersService {
         payee_id: true,
         amount: true,
         status: true,
+        grabbed_at: true,
+        review_status: true,
+        limit_released_at: true,
       },
     });
 
@@ -919,20 +1030,70 @@ export class OrdersService {
         where: { id: orderId },
       });
 
-      // 如果订单已被抢单（状态为 grabbed），恢复收款人的剩余额度
-      if (order.status === 'grabbed' && order.payee_id) {
+      // 如果订单已被抢单（状态为 grabbed）且额度未因审核超时释放，恢复收款人的剩余额度
+      if (
+        order.status === 'grabbed' &&
+        order.payee_id &&
+        !order.limit_released_at
+      ) {
         const orderAmount = Number(order.amount);
-        await tx.payee.update({
-          where: { id: order.payee_id },
-          data: {
-            remaining_limit: {
-              increment: orderAmount,
-            },
-          },
-        });
+        await this.payeeLimitService.restore(
+          tx,
+          order.payee_id,
+          orderAmount,
+          order.id,
+          order.grabbed_at,
+          '删除订单恢复',
+        );
       }
     });
 
+    await this.orderEventsService.record({
+      orderId,
+      type: 'deleted',
+      actorType: role === 'PAYEE' ? 'payee' : 'admin',
+      actorId: adminId,
+      payeeId: order.payee_id,
+      detail: {
+        status: order.status,
+        review_status: order.review_status,
+        amount: Number(order.amount),
+      },
+    });
+
     return { success: true };
   }
+
+  /**
+   * 获取订单事件时间线（订单删除后仍可查询）
+   */
+  async getOrderTimeline(adminId: number, orderId: string) {
+    const [order, events] = await Promise.all([
+      this.prisma.order.findUnique({
+        where: { id: orderId },
+        include: {
+          customer: { select: { id: true, username: true, phone: true } },
+          payee: { select: { id: true, username: true } },
+        },
+      }),
+      this.orderEventsService.findByOrder(orderId),
+    ]);
+
+    if (!order && events.length === 0) {
+      throw new NotFoundException('订单不存在');
+    }
+
+    const role = await this.getAdminRole(adminId);
+    // 收款人只能查看自己的订单
+    if (role === 'PAYEE') {
+      const payeeId = await this.getPayeeIdByAdmin(adminId);
+      const ownerPayeeId =
+        order?.payee_id ?? events.find((e) => e.payee_id)?.payee_id ?? null;
+      if (!payeeId || ownerPayeeId !== payeeId) {
+        throw new ForbiddenException('无权限查看此订单');
+      }
+    }
+
+    return { order, deleted: !order, events };
+  }
 }
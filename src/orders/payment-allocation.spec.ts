@@ -0,0 +1,148 @@
+import {
+  allocatePayment,
+  parseAllocationOrder,
+  partialPaymentStatus,
+  settleCredit,
+} from './payment-allocation';
+
+const schedule = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  period: id,
+  capital: 100,
+  interest: 10,
+  fines_due: 0,
+  paid_capital: 0,
+  paid_interest: 0,
+  fines: 0,
+  ...overrides,
+});
+
+describe('allocatePayment', () => {
+  it('settles fines first, then interest, then capital within a period', () => {
+    const result = allocatePayment(15, [schedule(1, { fines_due: 8 })]);
+
+    expect(result.allocations[0]).toMatchObject({
+      fines: 8,
+      interest: 7,
+      capital: 0,
+      amount: 15,
+      outstandingAfter: 103,
+      settled: false,
+    });
+  });
+
+  it('follows a configured component order', () => {
+    const result = allocatePayment(
+      15,
+      [schedule(1, { fines_due: 8 })],
+      parseAllocationOrder('capital'),
+    );
+
+    expect(result.order).toEqual(['capital', 'fines', 'interest']);
+    expect(result.allocations[0]).toMatchObject({
+      capital: 15,
+      fines: 0,
+      interest: 0,
+    });
+  });
+
+  it('fills periods in order and leaves the last one partially paid', () => {
+    const result = allocatePayment(150, [
+      schedule(1),
+      schedule(2),
+      schedule(3),
+    ]);
+
+    expect(result.allocations.map((a) => [a.amount, a.settled])).toEqual([
+      [110, true],
+      [40, false],
+    ]);
+    expect(result.allocations[1]).toMatchObject({ interest: 10, capital: 30 });
+    expect(result).toMatchObject({
+      allocated: 150,
+      unallocated: 0,
+      totalOutstanding: 330,
+    });
+  });
+
+  it('takes already paid amounts into account', () => {
+    const result = allocatePayment(60, [
+      schedule(1, { paid_interest: 10, paid_capital: 70 }),
+      schedule(2),
+    ]);
+
+    expect(result.allocations.map((a) => a.amount)).toEqual([30, 30]);
+    expect(result.allocations[0].settled).toBe(true);
+  });
+
+  it('leaves the excess unallocated when every period is paid', () => {
+    const result = allocatePayment(250, [schedule(1), schedule(2)]);
+
+    expect(result).toMatchObject({ allocated: 220, unallocated: 30 });
+  });
+
+  it('works in cents to avoid floating point drift', () => {
+    const result = allocatePayment(0.3, [
+      schedule(1, { capital: 0.1, interest: 0.2 }),
+    ]);
+
+    expect(result.allocations[0]).toMatchObject({
+      interest: 0.2,
+      capital: 0.1,
+      settled: true,
+    });
+    expect(allocatePayment(10.005, [schedule(1)]).allocated).toBe(10.01);
+  });
+});
+
+describe('settleCredit', () => {
+  it('moves an overpayment into the credit balance', () => {
+    expect(settleCredit(250, 0, 220)).toEqual({
+      before: 0,
+      used: 0,
+      overpayment: 30,
+      after: 30,
+    });
+  });
+
+  it('uses the existing balance before the new payment', () => {
+    expect(settleCredit(100, 20, 120)).toEqual({
+      before: 20,
+      used: 20,
+      overpayment: 0,
+      after: 0,
+    });
+  });
+
+  it('returns whatever is left after allocation to the balance, in cents', () => {
+    expect(settleCredit(50.55, 30.1, 60.3)).toEqual({
+      before: 30.1,
+      used: 30.1,
+      overpayment: 20.35,
+      after: 20.35,
+    });
+  });
+});
+
+describe('partialPaymentStatus', () => {
+  const today = new Date(Date.UTC(2026, 4, 10));
+
+  it('keeps future periods pending', () => {
+    expect(
+      partialPaymentStatus('pending', new Date(Date.UTC(2026, 4, 11)), today),
+    ).toBe('pending');
+  });
+
+  it('marks the current or a due period active', () => {
+    expect(partialPaymentStatus('pending', today, today)).toBe('active');
+    expect(
+      partialPaymentStatus('pending', new Date(Date.UTC(2026, 4, 9)), today),
+    ).toBe('active');
+  });
+
+  it('keeps overdue periods overdue', () => {
+    expect(
+      partialPaymentStatus('overdue', new Date(Date.UTC(2026, 4, 1)), today),
+    ).toBe('overdue');
+  });
+});
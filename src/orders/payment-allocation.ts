@@ -0,0 +1,222 @@
+/**
+ * 还款分配引擎
+ *
+ * 将一笔实付金额按到期顺序依次分配到多期还款计划，每期内部按配置的科目顺序
+ * （默认：罚金 → 利息 → 本金）冲抵，允许最后一期部分还款。
+ * 纯函数实现，不访问数据库，审核订单与分配预览共用。
+ */
+
+export type AllocationComponent = 'fines' | 'interest' | 'capital';
+
+export const DEFAULT_ALLOCATION_ORDER: AllocationComponent[] = [
+  'fines',
+  'interest',
+  'capital',
+];
+
+const ALLOCATION_COMPONENTS: AllocationComponent[] = [
+  'fines',
+  'interest',
+  'capital',
+];
+
+type NumericLike = number | string | { toString(): string } | null | undefined;
+
+export interface AllocationScheduleInput {
+  id: number;
+  period: number;
+  capital: NumericLike;
+  interest: NumericLike;
+  fines_due?: NumericLike;
+  paid_capital?: NumericLike;
+  paid_interest?: NumericLike;
+  fines?: NumericLike;
+}
+
+export interface ScheduleAllocation {
+  scheduleId: number;
+  period: number;
+  capital: number;
+  interest: number;
+  fines: number;
+  amount: number;
+  outstandingBefore: number;
+  outstandingAfter: number;
+  settled: boolean;
+}
+
+export interface AllocationResult {
+  order: AllocationComponent[];
+  amount: number;
+  allocated: number;
+  unallocated: number;
+  totalCapital: number;
+  totalInterest: number;
+  totalFines: number;
+  totalOutstanding: number;
+  allocations: ScheduleAllocation[];
+}
+
+/**
+ * 解析分配顺序配置，如 "fines,interest,capital"；
+ * 缺失的科目按默认顺序追加，非法配置回退为默认顺序
+ */
+export function parseAllocationOrder(value?: string): AllocationComponent[] {
+  if (!value) {
+    return [...DEFAULT_ALLOCATION_ORDER];
+  }
+  const items = value
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+  const order: AllocationComponent[] = [];
+  for (const item of items) {
+    if (!ALLOCATION_COMPONENTS.includes(item as AllocationComponent)) {
+      return [...DEFAULT_ALLOCATION_ORDER];
+    }
+    if (!order.includes(item as AllocationComponent)) {
+      order.push(item as AllocationComponent);
+    }
+  }
+  for (const component of DEFAULT_ALLOCATION_ORDER) {
+    if (!order.includes(component)) {
+      order.push(component);
+    }
+  }
+  return order;
+}
+
+// 金额统一按分计算，避免浮点误差
+function toCents(value: NumericLike): number {
+  const n = Number(value ?? 0);
+  return Number.isFinite(n) ? Math.round(n * 100) : 0;
+}
+
+function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * 按到期顺序分配实付金额（schedules 需已按 due_start_date 升序排列）
+ */
+export function allocatePayment(
+  amount: number,
+  schedules: AllocationScheduleInput[],
+  order: AllocationComponent[] = DEFAULT_ALLOCATION_ORDER,
+): AllocationResult {
+  let remaining = Math.max(0, toCents(amount));
+  let totalOutstanding = 0;
+  const totals: Record<AllocationComponent, number> = {
+    fines: 0,
+    interest: 0,
+    capital: 0,
+  };
+  const allocations: ScheduleAllocation[] = [];
+
+  for (const schedule of schedules) {
+    const outstanding: Record<AllocationComponent, number> = {
+      fines: Math.max(0, toCents(schedule.fines_due) - toCents(schedule.fines)),
+      interest: Math.max(
+        0,
+        toCents(schedule.interest) - toCents(schedule.paid_interest),
+      ),
+      capital: Math.max(
+        0,
+        toCents(schedule.capital) - toCents(schedule.paid_capital),
+      ),
+    };
+    const outstandingBefore =
+      outstanding.fines + outstanding.interest + outstanding.capital;
+    totalOutstanding += outstandingBefore;
+
+    if (remaining <= 0 || outstandingBefore <= 0) {
+      continue;
+    }
+
+    const applied: Record<AllocationComponent, number> = {
+      fines: 0,
+      interest: 0,
+      capital: 0,
+    };
+    for (const component of order) {
+      const portion = Math.min(remaining, outstanding[component]);
+      applied[component] = portion;
+      totals[component] += portion;
+      remaining -= portion;
+    }
+
+    const appliedTotal = applied.fines + applied.interest + applied.capital;
+    allocations.push({
+      scheduleId: schedule.id,
+      period: schedule.period,
+      capital: fromCents(applied.capital),
+      interest: fromCents(applied.interest),
+      fines: fromCents(applied.fines),
+      amount: fromCents(appliedTotal),
+      outstandingBefore: fromCents(outstandingBefore),
+      outstandingAfter: fromCents(outstandingBefore - appliedTotal),
+      settled: appliedTotal === outstandingBefore,
+    });
+  }
+
+  const allocated = totals.fines + totals.interest + totals.capital;
+  return {
+    order: [...order],
+    amount: fromCents(toCents(amount)),
+    allocated: fromCents(allocated),
+    unallocated: fromCents(remaining),
+    totalCapital: fromCents(totals.capital),
+    totalInterest: fromCents(totals.interest),
+    totalFines: fromCents(totals.fines),
+    totalOutstanding: fromCents(totalOutstanding),
+    allocations,
+  };
+}
+
+export interface CreditSettlement {
+  before: number;
+  used: number;
+  overpayment: number;
+  after: number;
+}
+
+/**
+ * 计算一笔还款对溢缴余额的影响：优先抵扣历史余额，实付超出应还部分转入余额
+ * allocated 为本次实际冲抵到还款计划的金额（实付 + 历史余额参与分配）
+ */
+export function settleCredit(
+  paidAmount: number,
+  creditBefore: number,
+  allocated: number,
+): CreditSettlement {
+  const paid = Math.max(0, toCents(paidAmount));
+  const before = Math.max(0, toCents(creditBefore));
+  const applied = Math.max(0, toCents(allocated));
+
+  const used = Math.min(before, applied);
+  const overpayment = Math.max(0, paid - (applied - used));
+  return {
+    before: fromCents(before),
+    used: fromCents(used),
+    overpayment: fromCents(overpayment),
+    after: fromCents(before - used + overpayment),
+  };
+}
+
+export type PartialPaymentStatus = 'pending' | 'active' | 'overdue';
+
+/**
+ * 部分还款后的期状态：逾期保持逾期，当期或已到期改为 active，未到期的期数保持原状态
+ * dueDate 与 today 均为 UTC 零点日期
+ */
+export function partialPaymentStatus(
+  current: PartialPaymentStatus,
+  dueDate: Date,
+  today: Date,
+): PartialPaymentStatus {
+  if (current === 'overdue') {
+    return 'overdue';
+  }
+  return dueDate.getTime() <= today.getTime() ? 'active' : current;
+}
@@ -0,0 +1,63 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ManagementRoles } from '@prisma/client';
+import { PayeeLimitService } from './payee-limit.service';
+import { AuthGuard } from '../auth/auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentUser } from '../auth/current-user.decorator';
+import { ApiResponseDto } from '../common/dto/api-response.dto';
+import { ResponseHelper } from '../common/response-helper';
+
+@Controller('payee-limit')
+@UseGuards(AuthGuard, RolesGuard)
+export class PayeeLimitController {
+  constructor(private readonly payeeLimitService: PayeeLimitService) {}
+
+  /**
+   * 收款人查询自己的额度流水
+   * GET /payee-limit/me/ledger?date=&page=&pageSize=
+   */
+  @Get('me/ledger')
+  @Roles(ManagementRoles.PAYEE)
+  async getMyLedger(
+    @CurrentUser() user: { id: number },
+    @Query('date') date?: string,
+    @Query('page') page?: string,
+    @Query('pageSize') pageSize?: string,
+  ): Promise<ApiResponseDto> {
+    const payeeId = await this.payeeLimitService.getPayeeIdByAdmin(user.id);
+    const result = await this.payeeLimitService.getLedger(payeeId, {
+      date,
+      page: page ? parseInt(page, 10) : undefined,
+      pageSize: pageSize ? parseInt(pageSize, 10) : undefined,
+    });
+    return ResponseHelper.success(result, '获取额度流水成功');
+  }
+
+  /**
+   * 查询指定收款人的额度流水
+   * GET /payee-limit/:payeeId/ledger?date=&page=&pageSize=
+   */
+  @Get(':payeeId/ledger')
+  @Roles(ManagementRoles.ADMIN, ManagementRoles.FINANCIAL)
+  async getLedger(
+    @Param('payeeId', ParseIntPipe) payeeId: number,
+    @Query('date') date?: string,
+    @Query('page') page?: string,
+    @Query('pageSize') pageSize?: string,
+  ): Promise<ApiResponseDto> {
+    const result = await this.payeeLimitService.getLedger(payeeId, {
+      date,
+      page: page ? parseInt(page, 10) : undefined,
+      pageSize: pageSize ? parseInt(pageSize, 10) : undefined,
+    });
+    return ResponseHelper.success(result, '获取额度流水成功');
+  }
+}
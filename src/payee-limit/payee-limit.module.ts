@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../../prisma/prisma.module';
+import { StatisticsModule } from '../statistics/statistics.module';
+import { PayeeLimitController } from './payee-limit.controller';
+import { PayeeLimitService } from './payee-limit.service';
+
+@Module({
+  imports: [PrismaModule, StatisticsModule],
+  controllers: [PayeeLimitController],
+  providers: [PayeeLimitService],
+  exports: [PayeeLimitService],
+})
+export class PayeeLimitModule {}
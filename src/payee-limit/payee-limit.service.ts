@@ -0,0 +1,283 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PayeeLimitChangeType, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { StatisticsService } from '../statistics/statistics.service';
+
+type Tx = Prisma.TransactionClient;
+
+// 重置额度时与抢单扣减冲突的最大重试次数
+const RESET_MAX_ATTEMPTS = 3;
+
+@Injectable()
+export class PayeeLimitService {
+  private readonly logger = new Logger(PayeeLimitService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly statisticsService: StatisticsService,
+  ) {}
+
+  /**
+   * 当前业务日（与统计模块的业务日切分保持一致），转换为 @db.Date 存储格式
+   */
+  private getBusinessDateOnly(date?: Date): Date {
+    const businessDate = this.statisticsService.getBusinessDate(date);
+    return new Date(
+      Date.UTC(
+        businessDate.getFullYear(),
+        businessDate.getMonth(),
+        businessDate.getDate(),
+      ),
+    );
+  }
+
+  private async writeLedger(
+    tx: Tx,
+    data: {
+      payeeId: number;
+      orderId?: string | null;
+      changeType: PayeeLimitChangeType;
+      amount: number;
+      balanceAfter: number;
+      remark?: string;
+    },
+  ) {
+    return tx.payeeLimitLedger.create({
+      data: {
+        payee_id: data.payeeId,
+        order_id: data.orderId ?? null,
+        change_type: data.changeType,
+        amount: data.amount,
+        balance_after: data.balanceAfter,
+        business_date: this.getBusinessDateOnly(),
+        remark: data.remark ?? null,
+      },
+    });
+  }
+
+  /**
+   * 抢单扣减额度（需在调用方事务中执行）
+   * 条件扣减：仅当收款人未被禁收且剩余额度足够时扣减，否则返回 null
+   */
+  async decrement(
+    tx: Tx,
+    payeeId: number,
+    amount: number,
+    orderId: string,
+  ): Promise<number | null> {
+    const { count } = await tx.payee.updateMany({
+      where: {
+        id: payeeId,
+        is_disabled: false,
+        remaining_limit: { gte: amount },
+      },
+      data: { remaining_limit: { decrement: amount } },
+    });
+    if (count === 0) return null;
+
+    const payee = await tx.payee.findUniqueOrThrow({
+      where: { id: payeeId },
+      select: { remaining_limit: true },
+    });
+    await this.writeLedger(tx, {
+      payeeId,
+      orderId,
+      changeType: PayeeLimitChangeType.grab,
+      amount: -amount,
+      balanceAfter: payee.remaining_limit,
+      remark: '抢单扣减',
+    });
+    return payee.remaining_limit;
+  }
+
+  /**
+   * 恢复订单占用的额度（需在调用方事务中执行）
+   * 抢单发生在当前业务日之前的订单不再恢复，其额度已随业务日重置归还
+   */
+  async restore(
+    tx: Tx,
+    payeeId: number,
+    amount: number,
+    orderId: string,
+    grabbedAt: Date | null,
+    remark: string,
+  ): Promise<boolean> {
+    const businessDayStart = this.statisticsService.getBusinessDate();
+    if (grabbedAt && grabbedAt < businessDayStart) {
+      this.logger.log(`订单 ${orderId} 抢单于上一业务日，额度已重置，跳过恢复`);
+      return false;
+    }
+
+    const payee = await tx.payee.update({
+      where: { id: payeeId },
+      data: { remaining_limit: { increment: amount } },
+      select: { remaining_limit: true },
+    });
+    await this.writeLedger(tx, {
+      payeeId,
+      orderId,
+      changeType: PayeeLimitChangeType.restore,
+      amount,
+      balanceAfter: payee.remaining_limit,
+      remark,
+    });
+    return true;
+  }
+
+  /**
+   * 记录手动调整剩余额度
+   */
+  async recordAdjustment(
+    tx: Tx,
+    payeeId: number,
+    before: number,
+    after: number,
+  ) {
+    if (before === after) return;
+    await this.writeLedger(tx, {
+      payeeId,
+      changeType: PayeeLimitChangeType.manual_adjust,
+      amount: after - before,
+      balanceAfter: after,
+      remark: '手动调整剩余额度',
+    });
+  }
+
+  /**
+   * 业务日开始时将所有收款人的剩余额度重置为总额度
+   * 通过 limit_reset_date 条件更新保证同一业务日只重置一次（多实例部署下同样成立）
+   */
+  async resetDailyLimits(): Promise<number> {
+    const businessDate = this.getBusinessDateOnly();
+    const payees = await this.prisma.payee.findMany({
+      select: { id: true },
+    });
+
+    let resetCount = 0;
+    for (const { id } of payees) {
+      if (await this.resetPayeeLimit(id, businessDate)) resetCount++;
+    }
+
+    return resetCount;
+  }
+
+  /**
+   * 重置单个收款人的额度：以读取到的剩余额度为条件更新，
+   * 期间有抢单扣减时重新读取，保证流水中的变动额与重置前余额一致
+   */
+  private async resetPayeeLimit(
+    id: number,
+    businessDate: Date,
+  ): Promise<boolean> {
+    for (let attempt = 0; attempt < RESET_MAX_ATTEMPTS; attempt++) {
+      const result = await this.prisma.$transaction(async (tx) => {
+        const payee = await tx.payee.findUnique({
+          where: { id },
+          select: {
+            payment_limit: true,
+            remaining_limit: true,
+            limit_reset_date: true,
+          },
+        });
+        if (
+          !payee ||
+          payee.limit_reset_date?.getTime() === businessDate.getTime()
+        ) {
+          return 'skipped' as const;
+        }
+
+        const { count } = await tx.payee.updateMany({
+          where: {
+            id,
+            remaining_limit: payee.remaining_limit,
+            OR: [
+              { limit_reset_date: null },
+              { limit_reset_date: { not: businessDate } },
+            ],
+          },
+          data: {
+            remaining_limit: payee.payment_limit,
+            limit_reset_date: businessDate,
+          },
+        });
+        if (count !== 1) return 'conflict' as const;
+
+        await this.writeLedger(tx, {
+          payeeId: id,
+          changeType: PayeeLimitChangeType.daily_reset,
+          amount: payee.payment_limit - payee.remaining_limit,
+          balanceAfter: payee.payment_limit,
+          remark: `业务日重置（重置前剩余 ${payee.remaining_limit}）`,
+        });
+        return 'reset' as const;
+      });
+      if (result !== 'conflict') return result === 'reset';
+    }
+    this.logger.warn(`收款人 ${id} 额度重置多次与抢单冲突，本次未重置`);
+    return false;
+  }
+
+  /**
+   * 查询收款人额度流水
+   */
+  async getLedger(
+    payeeId: number,
+    options: { date?: string; page?: number; pageSize?: number } = {},
+  ) {
+    const payee = await this.prisma.payee.findUnique({
+      where: { id: payeeId },
+      select: {
+        id: true,
+        username: true,
+        payment_limit: true,
+        remaining_limit: true,
+      },
+    });
+    if (!payee) {
+      throw new NotFoundException('收款人不存在');
+    }
+
+    const page = options.page && options.page > 0 ? options.page : 1;
+    const pageSize =
+      options.pageSize && options.pageSize > 0 ? options.pageSize : 50;
+    const where: Prisma.PayeeLimitLedgerWhereInput = { payee_id: payeeId };
+    if (options.date) {
+      where.business_date = this.getBusinessDateOnly(new Date(options.date));
+    }
+
+    const [total, rows] = await Promise.all([
+      this.prisma.payeeLimitLedger.count({ where }),
+      this.prisma.payeeLimitLedger.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ]);
+
+    const totalPages = Math.ceil(total / pageSize);
+    return {
+      payee,
+      data: rows,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  async getPayeeIdByAdmin(adminId: number): Promise<number> {
+    const payee = await this.prisma.payee.findFirst({
+      where: { admin_id: adminId },
+      select: { id: true },
+    });
+    if (!payee) {
+      throw new NotFoundException('收款人不存在');
+    }
+    return payee.id;
+  }
+}
@@ -3,9 +3,10 @@ import { PayeesController } from './payees.controller';
 import { PayeesService } from './payees.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 import { PayeeDailyStatisticsModule } from '../payee-daily-statistics/payee-daily-statistics.module';
+import { PayeeLimitModule } from '../payee-limit/payee-limit.module';
 
 @Module({
-  imports: [PrismaModule, PayeeDailyStatisticsModule],
+  imports: [PrismaModule, PayeeDailyStatisticsModule, PayeeLimitModule],
   controllers: [PayeesController],
   providers: [PayeesService],
   exports: [PayeesService],
@@ -6,6 +6,7 @@ import {
 import { PrismaService } from '../../prisma/prisma.service';
 import { CreatePayeeDto } from './create-payee.dto';
 import { PayeeDailyStatisticsService } from '../payee-daily-statistics/payee-daily-statistics.service';
+import { PayeeLimitService } from '../payee-limit/payee-limit.service';
 import { Payee, PaymentMethod, QrCode } from '@prisma/client';
 import { UploadResponseDto } from './dto/upload-response.dto';
 import { writeFile, mkdir } from 'fs/promises';
@@ -17,6 +18,7 @@ export class PayeesService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly payeeDailyStatisticsService: PayeeDailyStatisticsService,
+    private readonly payeeLimitService: PayeeLimitService,
   ) {}
 
   create(data: CreatePayeeDto): Promise<Payee> {
@@ -39,9 +41,25 @@ export class PayeesService {
     return this.prisma.payee.findUnique({ where: { id } });
   }
   update(id: number, data: CreatePayeeDto): Promise<Payee> {
-    return this.prisma.payee.update({
-      where: { id: id },
-      data,
+    return this.prisma.$transaction(async (tx) => {
+      const before = await tx.payee.findUnique({
+        where: { id },
+        select: { remaining_limit: true },
+      });
+      const payee = await tx.payee.update({
+        where: { id: id },
+        data,
+      });
+      // 手动修改剩余额度时记录额度流水
+      if (before) {
+        await this.payeeLimitService.recordAdjustment(
+          tx,
+          id,
+          before.remaining_limit,
+          payee.remaining_limit,
+        );
+      }
+      return payee;
     });
   }
   delete(id: number): Promise<Payee | null> {
@@ -0,0 +1,30 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { RepaymentRecordsService } from './repayment-records.service';
+import { ResponseHelper } from '../common/response-helper';
+import { ApiResponseDto } from '../common/dto/api-response.dto';
+import { CustomerAuthGuard } from '../auth/customer-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+
+/**
+ * 客户侧还款记录，仅返回当前登录客户本人的数据
+ */
+@Controller('customer/repayment-records')
+@UseGuards(CustomerAuthGuard)
+export class CustomerRepaymentRecordsController {
+  constructor(
+    private readonly repaymentRecordsService: RepaymentRecordsService,
+  ) {}
+
+  @Get()
+  async findMine(
+    @CurrentUser() user: { id: number },
+    @Query('loanId') loanId?: string,
+  ): Promise<ApiResponseDto> {
+    const records = await this.repaymentRecordsService.findByCustomer(
+      user.id,
+      loanId,
+    );
+    const data = records.map((r) => this.repaymentRecordsService.toResponse(r));
+    return ResponseHelper.success(data, '获取还款记录成功');
+  }
+}
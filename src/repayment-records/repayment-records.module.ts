@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 import { RepaymentRecordsController } from './repayment-records.controller';
+import { CustomerRepaymentRecordsController } from './customer-repayment-records.controller';
 import { RepaymentRecordsService } from './repayment-records.service';
 import { PrismaModule } from '../../prisma/prisma.module';
 
 @Module({
   imports: [PrismaModule],
-  controllers: [RepaymentRecordsController],
+  controllers: [RepaymentRecordsController, CustomerRepaymentRecordsController],
   providers: [RepaymentRecordsService],
   exports: [RepaymentRecordsService],
 })
@@ -92,6 +92,24 @@ export class RepaymentRecordsService {
     });
   }
 
+  /**
+   * 客户查询本人的还款记录，可按贷款筛选
+   */
+  findByCustomer(
+    customerId: number,
+    loanId?: string,
+  ): Promise<RepaymentRecord[]> {
+    return this.prisma.repaymentRecord.findMany({
+      where: { user_id: customerId, ...(loanId ? { loan_id: loanId } : {}) },
+      include: {
+        actual_collector: true,
+        order: true,
+        loan_account: true,
+      },
+      orderBy: { paid_at: 'desc' },
+    });
+  }
+
   async findAllWithPagination(
     query: PaginationQueryDto,
     adminId: number,
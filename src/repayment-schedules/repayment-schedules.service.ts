@@ -74,6 +74,7 @@ export class RepaymentSchedulesService {
           paid_capital: true,
           paid_interest: true,
           fines: true,
+          fines_due: true,
           status: true,
           paid_amount: true,
           operator_admin_name: true,
@@ -103,7 +104,13 @@ export class RepaymentSchedulesService {
       };
 
       if (updatePayload.fines !== undefined) {
-        updatePayload.fines = Number(updatePayload.fines);
+        const fines = Number(updatePayload.fines);
+        updatePayload.fines = fines;
+        // fines 为已收罚金，应收罚金 fines_due 不能低于已收部分
+        updatePayload.fines_due = Math.max(
+          toNumber(currentSchedule.fines_due),
+          fines,
+        );
       }
 
       const finesValue =
@@ -1,9 +1,16 @@
 import { IoAdapter } from '@nestjs/platform-socket.io';
-import { ServerOptions } from 'socket.io';
+import { Server, ServerOptions } from 'socket.io';
 import { INestApplicationContext } from '@nestjs/common';
+import { EVENTS_BUS, EventsBus } from './events/cluster/events-bus';
+import { EVENTS_NODE_ID } from './events/cluster/cluster.providers';
+import { createPubSubAdapter } from './events/cluster/pubsub.adapter';
 
 export class SocketIOAdapter extends IoAdapter {
-  constructor(app: INestApplicationContext) {
+  constructor(
+    private readonly app: INestApplicationContext,
+    // 可直接传入总线（测试用），否则从容器中获取 EventsModule 提供的实现
+    private readonly cluster: { bus?: EventsBus; nodeId?: string } = {},
+  ) {
     super(app);
   }
 
@@ -39,6 +46,20 @@ export class SocketIOAdapter extends IoAdapter {
       });
     }
 
-    return super.createIOServer(port, serverOptions as ServerOptions);
+    const server = super.createIOServer(
+      port,
+      serverOptions as ServerOptions,
+    ) as Server;
+
+    // 使用跨实例发布/订阅适配器，使按房间发送的消息能到达其他实例上的连接
+    const bus =
+      this.cluster.bus ??
+      this.app.get<EventsBus>(EVENTS_BUS, { strict: false });
+    const nodeId =
+      this.cluster.nodeId ??
+      this.app.get<string>(EVENTS_NODE_ID, { strict: false });
+    server.adapter(createPubSubAdapter(bus, nodeId));
+
+    return server;
   }
 }
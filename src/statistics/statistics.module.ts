@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { StatisticsService } from './statistics.service';
 import { StatisticsController } from './statistics.controller';
 import { PrismaModule } from '../../prisma/prisma.module';
+import { BusinessCalendarModule } from '../business-calendar/business-calendar.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, BusinessCalendarModule],
   providers: [StatisticsService],
   controllers: [StatisticsController],
   exports: [StatisticsService],
@@ -1,16 +1,20 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
+import { BusinessCalendarService } from '../business-calendar/business-calendar.service';
 
 @Injectable()
 export class StatisticsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly businessCalendarService: BusinessCalendarService,
+  ) {}
 
   /**
    * 获取业务日期（从当天的 00:00:00 开始算）
    * @param date 基准日期，如果不提供则使用当前时间
    * @returns 业务日期（只包含日期部分，时间设为0点）
    */
-  private getBusinessDate(date?: Date): Date {
+  getBusinessDate(date?: Date): Date {
     const now = date || new Date();
     const businessDate = new Date(now);
 
@@ -507,6 +511,7 @@ export class StatisticsService {
           gte: todayStart,
           lte: todayEnd, // DateTime类型字段，使用今天结束时间
         },
+        collected_by_type: { not: 'renewal' },
       },
       select: { paid_amount: true },
     });
@@ -523,6 +528,7 @@ export class StatisticsService {
             gte: yesterdayStart,
             lt: todayStart,
           },
+          collected_by_type: { not: 'renewal' },
         },
         select: { paid_amount: true },
       });
@@ -965,6 +971,9 @@ export class StatisticsService {
   async saveDailyStatistics(date: Date): Promise<void> {
     const dateStr = date.toISOString().split('T')[0];
     const dateForDb = new Date(dateStr + 'T12:00:00.000Z');
+    const isBusinessDay = await this.businessCalendarService.isBusinessDay(
+      new Date(dateStr + 'T00:00:00.000Z'),
+    );
 
     // 获取所有 collector 和 risk_controller 角色
     // 使用 groupBy 确保真正去重
@@ -1036,6 +1045,7 @@ export class StatisticsService {
                 admin_name: adminRole.adminName,
                 date: dateForDb,
                 role: adminRole.roleType,
+                is_business_day: isBusinessDay,
                 // 总统计字段
                 total_amount: statistics.totalAmount,
                 total_in_stock_amount: statistics.totalInStockAmount,
@@ -1073,6 +1083,7 @@ export class StatisticsService {
                 last_month_blacklist_count: statistics.lastMonthBlacklistCount,
               },
               update: {
+                is_business_day: isBusinessDay,
                 // 总统计字段
                 total_amount: statistics.totalAmount,
                 total_in_stock_amount: statistics.totalInStockAmount,
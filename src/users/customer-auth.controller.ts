@@ -0,0 +1,89 @@
+import {
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Post,
+  Req,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { ResponseHelper } from 'src/common/response-helper';
+import { ApiResponseDto } from 'src/common/dto/api-response.dto';
+import { CustomerAuthGuard } from 'src/auth/customer-auth.guard';
+import { AllowPasswordChange } from 'src/auth/allow-password-change.decorator';
+import { CurrentUser } from 'src/auth/current-user.decorator';
+import { CustomerAuthService } from './customer-auth.service';
+import { UsersService } from './users.service';
+import { CustomerLoginDto } from './dto/customer-login.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import type { Request } from 'express';
+
+@Controller('customer-auth')
+export class CustomerAuthController {
+  constructor(
+    private readonly customerAuthService: CustomerAuthService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  @Post('login')
+  async login(
+    @Body() body: CustomerLoginDto,
+    @Req() req: Request,
+  ): Promise<ApiResponseDto> {
+    const data = await this.customerAuthService.login(
+      body.username,
+      body.password,
+      req.ip || req.socket.remoteAddress,
+    );
+    return ResponseHelper.success(data, '登录成功');
+  }
+
+  @Post('refresh')
+  async refresh(
+    @Body('refresh_token') refreshToken: string,
+  ): Promise<ApiResponseDto> {
+    if (!refreshToken) {
+      throw new UnauthorizedException('Refresh token不存在');
+    }
+    const data = await this.customerAuthService.refresh(refreshToken);
+    return ResponseHelper.success(data, 'Token刷新成功');
+  }
+
+  @Get('me')
+  @UseGuards(CustomerAuthGuard)
+  @AllowPasswordChange()
+  async me(@CurrentUser() user: { id: number }): Promise<ApiResponseDto> {
+    const found = await this.usersService.findById(user.id);
+    if (!found) {
+      throw new NotFoundException('用户暂未注册');
+    }
+    return ResponseHelper.success(
+      this.usersService.toResponse(found),
+      '获取用户成功',
+    );
+  }
+
+  @Post('change-password')
+  @UseGuards(CustomerAuthGuard)
+  @AllowPasswordChange()
+  async changePassword(
+    @CurrentUser() user: { id: number },
+    @Body() body: ChangePasswordDto,
+  ): Promise<ApiResponseDto> {
+    const data = await this.customerAuthService.changePassword(
+      user.id,
+      body.old_password,
+      body.new_password,
+    );
+    return ResponseHelper.success(data, '修改密码成功');
+  }
+
+  @Post('logout')
+  @UseGuards(CustomerAuthGuard)
+  @AllowPasswordChange()
+  async logout(@CurrentUser() user: { id: number }): Promise<ApiResponseDto> {
+    await this.customerAuthService.logout(user.id);
+    return ResponseHelper.success(null, '退出登录成功');
+  }
+}
@@ -0,0 +1,105 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { User } from '@prisma/client';
+import { AuthJwtService } from '../auth/jwt.service';
+import { LoginAttemptService } from '../auth/login-attempt.service';
+import { UsersService } from './users.service';
+
+/**
+ * 客户登录认证：签发 Access Token / Refresh Token，
+ * token_version 变化（修改密码、退出登录）后旧token全部失效
+ */
+@Injectable()
+export class CustomerAuthService {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly authJwtService: AuthJwtService,
+    private readonly loginAttemptService: LoginAttemptService,
+  ) {}
+
+  private issueTokens(user: User) {
+    const payload = {
+      id: user.id,
+      username: user.username,
+      tokenVersion: user.token_version,
+    };
+    return {
+      user: this.usersService.toResponse(user),
+      access_token: this.authJwtService.generateCustomerAccessToken(payload),
+      refresh_token: this.authJwtService.generateCustomerRefreshToken(payload),
+      must_change_password: user.must_change_password,
+    };
+  }
+
+  async login(username: string, password: string, ip?: string | null) {
+    const lockStatus = await this.loginAttemptService.isLocked(
+      username,
+      ip,
+      'customer',
+    );
+    if (lockStatus.isLocked) {
+      const remainingMinutes = Math.ceil(
+        (lockStatus.lockedUntil!.getTime() - Date.now()) / 60000,
+      );
+      throw new UnauthorizedException(
+        `登录失败次数过多，请${remainingMinutes}分钟后再试`,
+      );
+    }
+
+    const user = await this.usersService.login(username);
+    if (!user) {
+      await this.loginAttemptService.recordFailure(username, ip, 'customer');
+      throw new NotFoundException('用户暂未注册');
+    }
+    const verified = await this.usersService.verifyPassword(user, password);
+    if (!verified) {
+      const attemptResult = await this.loginAttemptService.recordFailure(
+        username,
+        ip,
+        'customer',
+      );
+      throw new UnauthorizedException(
+        attemptResult.isLocked
+          ? '密码错误，账户已被锁定'
+          : `密码错误，剩余尝试次数：${attemptResult.remainingAttempts}`,
+      );
+    }
+    await this.loginAttemptService.recordSuccess(username, 'customer');
+    return this.issueTokens(await this.usersService.recordLogin(verified.id));
+  }
+
+  async refresh(refreshToken: string) {
+    const payload =
+      this.authJwtService.verifyCustomerRefreshToken(refreshToken);
+    if (!payload) {
+      throw new UnauthorizedException('Refresh token无效或已过期');
+    }
+    const user = await this.usersService.findById(payload.id);
+    if (!user) {
+      throw new UnauthorizedException('用户不存在');
+    }
+    if (user.token_version !== payload.tokenVersion) {
+      throw new UnauthorizedException('Token已失效，请重新登录');
+    }
+    return this.issueTokens(user);
+  }
+
+  /**
+   * 修改密码后重新签发token（旧token已失效）
+   */
+  async changePassword(id: number, oldPassword: string, newPassword: string) {
+    const user = await this.usersService.changePassword(
+      id,
+      oldPassword,
+      newPassword,
+    );
+    return this.issueTokens(user);
+  }
+
+  async logout(id: number): Promise<void> {
+    await this.usersService.revokeTokens(id);
+  }
+}
@@ -0,0 +1,11 @@
+import { IsString, Length } from 'class-validator';
+
+export class ChangePasswordDto {
+  @IsString()
+  @Length(1, 32)
+  old_password: string;
+
+  @IsString()
+  @Length(6, 32)
+  new_password: string;
+}
@@ -0,0 +1,11 @@
+import { IsString, Length } from 'class-validator';
+
+export class CustomerLoginDto {
+  @IsString()
+  @Length(1, 10)
+  username: string;
+
+  @IsString()
+  @Length(1, 32)
+  password: string;
+}
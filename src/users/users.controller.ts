@@ -8,11 +8,15 @@ import {
   Post,
   Put,
   Query,
+  Req,
   UnauthorizedException,
   UseGuards,
 } from '@nestjs/common';
+import type { Request } from 'express';
 import { UsersService } from './users.service';
+import { CustomerAuthService } from './customer-auth.service';
 import { CreateUserDto } from './dto/create-user.dto';
+import { CustomerLoginDto } from './dto/customer-login.dto';
 import { PaginationQueryDto } from './dto/pagination-query.dto';
 import { ResponseHelper } from 'src/common/response-helper';
 import { ApiResponseDto } from 'src/common/dto/api-response.dto';
@@ -25,7 +29,10 @@ import { CurrentUser } from 'src/auth/current-user.decorator';
 @UseGuards(AuthGuard, RolesGuard)
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly customerAuthService: CustomerAuthService,
+  ) {}
 
   @Get()
   async findAll(
@@ -55,20 +62,21 @@ export class UsersController {
     const data = this.usersService.toResponse(user);
     return ResponseHelper.success(data, '创建用户成功');
   }
+  /**
+   * @deprecated 旧版客户登录接口，仅为兼容已发布的客户端保留，请改用 POST /customer-auth/login
+   * 与新接口共用 bcrypt 校验、明文密码惰性迁移和登录限流；返回旧版的用户字段并附带Token
+   */
   @Post('login')
   async login(
-    @Body() body: { username: string; password: string },
+    @Body() body: CustomerLoginDto,
+    @Req() req: Request,
   ): Promise<ApiResponseDto> {
-    const { username, password } = body;
-    const user = await this.usersService.login(username);
-    if (!user) {
-      throw new NotFoundException('用户暂未注册');
-    }
-    if (user.password !== password) {
-      throw new UnauthorizedException('密码错误');
-    }
-    const data = this.usersService.toResponse(user);
-    return ResponseHelper.success(data, '登录成功');
+    const { user, ...tokens } = await this.customerAuthService.login(
+      body.username,
+      body.password,
+      req.ip || req.socket.remoteAddress,
+    );
+    return ResponseHelper.success({ ...user, ...tokens }, '登录成功');
   }
   @Put(':id')
   async update(
@@ -1,9 +1,11 @@
 import { Module } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
+import { CustomerAuthService } from './customer-auth.service';
+import { CustomerAuthController } from './customer-auth.controller';
 
 @Module({
-  providers: [UsersService],
-  controllers: [UsersController],
+  providers: [UsersService, CustomerAuthService],
+  controllers: [UsersController, CustomerAuthController],
 })
 export class UsersModule {}
@@ -1,13 +1,99 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { User } from '@prisma/client';
 import { CreateUserDto } from './dto/create-user.dto';
 import { PaginationQueryDto } from './dto/pagination-query.dto';
 import { PaginatedResponseDto } from './dto/paginated-response.dto';
+import * as bcrypt from 'bcrypt';
+
+// 新建客户的初始密码，首次登录后必须修改
+const DEFAULT_PASSWORD = '123456';
+
+// bcrypt 哈希格式（$2a$ / $2b$ / $2y$），用于识别尚未迁移的明文密码
+export function isPasswordHashed(password: string): boolean {
+  return /^\$2[aby]\$\d{2}\$/.test(password);
+}
+
 @Injectable()
 export class UsersService {
   constructor(private readonly prisma: PrismaService) {}
 
+  // 加密密码
+  async hashPassword(password: string): Promise<string> {
+    const saltRounds = 10;
+    return bcrypt.hash(password, saltRounds);
+  }
+
+  /**
+   * 校验客户密码，成功时返回最新的用户记录
+   * 历史明文密码校验通过后立即改为 bcrypt 存储（惰性迁移），仍为初始密码的要求修改
+   */
+  async verifyPassword(user: User, password: string): Promise<User | null> {
+    if (isPasswordHashed(user.password)) {
+      const valid = await bcrypt.compare(password, user.password);
+      return valid ? user : null;
+    }
+    if (user.password !== password) {
+      return null;
+    }
+    return this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: await this.hashPassword(password),
+        must_change_password:
+          user.must_change_password || password === DEFAULT_PASSWORD,
+      },
+    });
+  }
+
+  /**
+   * 客户修改密码：校验原密码，修改后旧token全部失效
+   */
+  async changePassword(
+    id: number,
+    oldPassword: string,
+    newPassword: string,
+  ): Promise<User> {
+    const user = await this.findById(id);
+    if (!user) {
+      throw new NotFoundException('用户暂未注册');
+    }
+    if (!(await this.verifyPassword(user, oldPassword))) {
+      throw new UnauthorizedException('原密码错误');
+    }
+    if (oldPassword === newPassword) {
+      throw new BadRequestException('新密码不能与原密码相同');
+    }
+    return this.prisma.user.update({
+      where: { id },
+      data: {
+        password: await this.hashPassword(newPassword),
+        must_change_password: false,
+        token_version: { increment: 1 },
+      },
+    });
+  }
+
+  recordLogin(id: number): Promise<User> {
+    return this.prisma.user.update({
+      where: { id },
+      data: { last_login_at: new Date() },
+    });
+  }
+
+  // 使客户所有已签发的token失效
+  revokeTokens(id: number): Promise<User> {
+    return this.prisma.user.update({
+      where: { id },
+      data: { token_version: { increment: 1 } },
+    });
+  }
+
   async findAll(
     query: PaginationQueryDto,
     userId: number,
@@ -60,18 +146,40 @@ export class UsersService {
   findById(id: number): Promise<User | null> {
     return this.prisma.user.findUnique({ where: { id } });
   }
-  create(data: CreateUserDto): Promise<User> {
-    return this.prisma.user.create({ data: { ...data, password: '123456' } });
+  async create(data: CreateUserDto): Promise<User> {
+    return this.prisma.user.create({
+      data: {
+        ...data,
+        password: await this.hashPassword(DEFAULT_PASSWORD),
+        must_change_password: true,
+      },
+    });
   }
 
-  update(id: number, data: CreateUserDto): Promise<User> {
-    return this.prisma.user.update({ where: { id }, data });
+  async update(id: number, data: CreateUserDto): Promise<User> {
+    const { password, ...rest } = data;
+    if (!password) {
+      return this.prisma.user.update({ where: { id }, data: rest });
+    }
+    // 管理员重置密码：加密存储，要求客户下次登录修改，并使旧token失效
+    return this.prisma.user.update({
+      where: { id },
+      data: {
+        ...rest,
+        password: await this.hashPassword(password),
+        must_change_password: true,
+        token_version: { increment: 1 },
+      },
+    });
   }
 
   delete(id: number): Promise<User> {
     return this.prisma.user.delete({ where: { id } });
   }
-  toResponse(user: User): User {
-    return user;
+  toResponse(user: User): Omit<User, 'password'> {
+    // 不返回密码哈希
+    const data: Omit<User, 'password'> & { password?: string } = { ...user };
+    delete data.password;
+    return data;
   }
 }